@@ -26,5 +26,7 @@ export default defineConfig({
     url: 'http://localhost:4321',
     reuseExistingServer: !process.env.CI,
     timeout: 30_000,
+    // Place search reads from local fixtures so e2e runs need no network
+    env: { PUBLIC_GEOCODING_PROVIDER: 'fixture' },
   },
 })
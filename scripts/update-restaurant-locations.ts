@@ -0,0 +1,190 @@
+/**
+ * Backfill coordinates, address and place id for restaurants that are missing them.
+ * Restaurants without coordinates don't show up on the map or the globe at all.
+ *
+ *   npm run update-locations                    # dry run: print what would change
+ *   npm run update-locations -- --apply         # write the changes
+ *
+ * Options:
+ *   --apply                 write updates (default is a dry run)
+ *   --batch-size <n>        restaurants resolved and written per batch (default 20)
+ *   --delay <ms>            pause between geocoder requests (default 1000, Photon/Nominatim fair use)
+ *   --near <lat,lng>        anchor for rows with no coordinates at all, e.g. the office
+ *   --max-distance <m>      how far from --near a match may be (default 5000)
+ *   --limit <n>             stop after n restaurants
+ *   --progress-file <path>  where finished ids are logged (default scripts/.update-locations-progress.jsonl)
+ *   --retry-unresolved      try rows the log marks unresolved again
+ *   --restart               ignore the progress log
+ *
+ * Env: PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, and the geocoding
+ * variables AddReview uses (PUBLIC_GEOCODING_PROVIDER, PUBLIC_GOOGLE_MAPS_API_KEY, ...).
+ * Applied runs append each finished id to the progress log after its batch is
+ * written, so an interrupted run picks up where it stopped.
+ */
+import 'dotenv/config'
+import { appendFileSync, existsSync, readFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '../src/lib/database.types'
+import { getGeocodingProvider } from '../src/lib/geocoding'
+import type { GeocodingProvider, PlaceDetails } from '../src/lib/geocoding'
+import {
+  needsLocationBackfill,
+  pickSuggestion,
+  planLocationUpdate,
+  formatLocationDiff,
+  chunk,
+  parseProgressLog,
+  providerOwnsPlaceId,
+} from '../src/lib/location-backfill'
+import type { BackfillRestaurant, BackfillResult, ProgressEntry } from '../src/lib/location-backfill'
+import type { LatLng } from '../src/lib/geo'
+
+const { values: args } = parseArgs({
+  options: {
+    apply: { type: 'boolean', default: false },
+    'batch-size': { type: 'string', default: '20' },
+    delay: { type: 'string', default: '1000' },
+    near: { type: 'string' },
+    'max-distance': { type: 'string', default: '5000' },
+    limit: { type: 'string' },
+    'progress-file': { type: 'string', default: 'scripts/.update-locations-progress.jsonl' },
+    'retry-unresolved': { type: 'boolean', default: false },
+    restart: { type: 'boolean', default: false },
+  },
+})
+
+function parseNear(value: string | undefined): LatLng | null {
+  if (!value) return null
+  const [lat, lng] = value.split(',').map(Number)
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+    throw new Error(`--near must be "lat,lng", got "${value}"`)
+  }
+  return { lat, lng }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function resolveDetails(
+  provider: GeocodingProvider,
+  restaurant: BackfillRestaurant,
+  options: { near: LatLng | null; maxDistanceMetres: number; delay: number }
+): Promise<PlaceDetails | null> {
+  if (restaurant.place_id && providerOwnsPlaceId(provider.name, restaurant.place_id)) {
+    return provider.getPlaceDetails({ placeId: restaurant.place_id, name: restaurant.name, address: restaurant.address || '' })
+  }
+
+  const query = [restaurant.name, restaurant.address].filter(Boolean).join(', ')
+  const suggestions = await provider.autocomplete(query)
+  const suggestion = pickSuggestion(restaurant, suggestions, options)
+  if (!suggestion) return null
+
+  if (suggestion.lat === undefined) await sleep(options.delay)
+  return provider.getPlaceDetails(suggestion)
+}
+
+async function main() {
+  const supabaseUrl = process.env.PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set')
+  }
+
+  const supabase = createClient<Database>(supabaseUrl, serviceRoleKey)
+  const provider = getGeocodingProvider(process.env)
+  const batchSize = Math.max(1, parseInt(args['batch-size']!, 10) || 20)
+  const delay = Math.max(0, parseInt(args.delay!, 10) || 0)
+  const near = parseNear(args.near)
+  const maxDistanceMetres = parseInt(args['max-distance']!, 10) || 5000
+  const progressFile = args['progress-file']!
+
+  const { data, error } = await supabase
+    .from('restaurants')
+    .select('id, name, address, place_id, latitude, longitude')
+    .order('created_at')
+  if (error) throw error
+
+  const restaurants = (data || []) as BackfillRestaurant[]
+  const takenPlaceIds = new Set(restaurants.map(r => r.place_id).filter((id): id is string => !!id))
+
+  const progress = !args.restart && existsSync(progressFile)
+    ? parseProgressLog(readFileSync(progressFile, 'utf8'))
+    : new Map<string, ProgressEntry>()
+  const isDone = (id: string) => {
+    const entry = progress.get(id)
+    return !!entry && (entry.status === 'updated' || !args['retry-unresolved'])
+  }
+
+  let todo = restaurants.filter(r => needsLocationBackfill(r) && !isDone(r.id))
+  if (args.limit) todo = todo.slice(0, parseInt(args.limit, 10))
+
+  const skipped = restaurants.filter(r => needsLocationBackfill(r)).length - todo.length
+  console.log(`${provider.name}: ${todo.length} restaurant(s) to resolve${skipped > 0 ? `, ${skipped} already in ${progressFile}` : ''}`)
+  if (!args.apply) console.log('Dry run, pass --apply to write changes\n')
+
+  const totals = { updated: 0, unresolved: 0, failed: 0 }
+
+  for (const batch of chunk(todo, batchSize)) {
+    const results: { restaurant: BackfillRestaurant; result: BackfillResult }[] = []
+
+    for (const restaurant of batch) {
+      let result: BackfillResult
+      try {
+        const details = await resolveDetails(provider, restaurant, { near, maxDistanceMetres, delay })
+        result = details
+          ? planLocationUpdate(restaurant, details, takenPlaceIds)
+          : { id: restaurant.id, status: 'unresolved', reason: 'no confident match' }
+      } catch (err) {
+        result = { id: restaurant.id, status: 'unresolved', reason: err instanceof Error ? err.message : String(err) }
+      }
+
+      if (result.status === 'update') {
+        console.log(`~ ${restaurant.name} (${restaurant.id})`)
+        formatLocationDiff(restaurant, result.update).forEach(line => console.log(line))
+        if (result.note) console.log(`  note: ${result.note}`)
+        // Claim the id so a later row in this run can't take it too
+        if (result.update.place_id) takenPlaceIds.add(result.update.place_id)
+      } else {
+        console.log(`? ${restaurant.name} (${restaurant.id}): ${result.reason}`)
+      }
+
+      results.push({ restaurant, result })
+      await sleep(delay)
+    }
+
+    if (!args.apply) {
+      for (const { result } of results) totals[result.status === 'update' ? 'updated' : 'unresolved']++
+      continue
+    }
+
+    const writes = await Promise.all(results.map(async ({ result }) => {
+      if (result.status !== 'update') return { result, error: null }
+      const { error: updateError } = await supabase.from('restaurants').update(result.update).eq('id', result.id)
+      return { result, error: updateError }
+    }))
+
+    const at = new Date().toISOString()
+    for (const { result, error: writeError } of writes) {
+      if (writeError) {
+        // Not logged, so the next run tries this row again
+        console.error(`! ${result.id}: ${writeError.message}`)
+        totals.failed++
+        continue
+      }
+      const entry: ProgressEntry = result.status === 'update'
+        ? { id: result.id, status: 'updated', at, detail: result.note }
+        : { id: result.id, status: 'unresolved', at, detail: result.reason }
+      appendFileSync(progressFile, JSON.stringify(entry) + '\n')
+      totals[entry.status]++
+    }
+  }
+
+  const verb = args.apply ? 'Updated' : 'Would update'
+  console.log(`\n${verb} ${totals.updated}, unresolved ${totals.unresolved}${totals.failed > 0 ? `, failed ${totals.failed}` : ''}`)
+  if (totals.failed > 0) process.exitCode = 1
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exit(1)
+})
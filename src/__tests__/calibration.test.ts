@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ratingSpread,
+  calibrationFor,
+  calibrateRating,
+  calibratedAverage,
+  calibrationsByUser,
+  calibrationTendency,
+  describeCalibration,
+  NO_SPREAD,
+} from '../lib/calibration'
+
+const site = { count: 100, mean: 7, sd: 1.5 }
+const harsh = calibrationFor(ratingSpread([4, 5, 5, 6, 6, 6, 5, 4, 5, 6]), site)!
+const generous = calibrationFor(ratingSpread([9, 9, 10, 9, 8, 9, 10, 9, 9, 9]), site)!
+
+describe('Reviewer Calibration', () => {
+  describe('ratingSpread', () => {
+    it('finds the mean and spread', () => {
+      expect(ratingSpread([6, 8])).toEqual({ count: 2, mean: 7, sd: 1 })
+      expect(ratingSpread([])).toEqual(NO_SPREAD)
+    })
+  })
+
+  describe('calibrationFor', () => {
+    it('pulls a reviewer with few ratings towards the site', () => {
+      const once = calibrationFor(ratingSpread([3]), site)!
+      expect(once.mean).toBe(6)
+      expect(calibrateRating(3, once)).toBeGreaterThan(3)
+    })
+
+    it('has nothing to calibrate against without a site spread', () => {
+      expect(calibrationFor(ratingSpread([6]), NO_SPREAD)).toBeNull()
+      expect(calibrationFor(ratingSpread([6]), { count: 3, mean: 7, sd: 0 })).toBeNull()
+    })
+  })
+
+  describe('calibrateRating', () => {
+    it('lifts a harsh reviewer and lowers a generous one', () => {
+      expect(calibrateRating(6, harsh)).toBeGreaterThan(7)
+      expect(calibrateRating(9, generous)).toBeLessThan(8)
+    })
+
+    it('keeps ratings within 1 to 10', () => {
+      expect(calibrateRating(10, harsh)).toBe(10)
+      expect(calibrateRating(1, generous)).toBe(1)
+    })
+
+    it('leaves ratings alone without a calibration', () => {
+      expect(calibrateRating(6, null)).toBe(6)
+    })
+  })
+
+  describe('calibratedAverage', () => {
+    it('ranks a harsh 6 and a generous 9 closer together', () => {
+      const calibrations = new Map([['harsh', harsh], ['generous', generous]])
+      const harshPick = calibratedAverage([{ user_id: 'harsh', rating: 6 }], calibrations)!
+      const generousPick = calibratedAverage([{ user_id: 'generous', rating: 9 }], calibrations)!
+      expect(Math.abs(generousPick - harshPick)).toBeLessThan(1)
+    })
+
+    it('is null without ratings', () => {
+      expect(calibratedAverage([{ user_id: 'harsh', rating: null }], new Map())).toBeNull()
+    })
+  })
+
+  describe('calibrationsByUser', () => {
+    it('calibrates each reviewer against everyone', () => {
+      const calibrations = calibrationsByUser([
+        { user_id: 'a', rating: 5 },
+        { user_id: 'a', rating: 6 },
+        { user_id: 'b', rating: 9 },
+        { user_id: null, rating: 7 },
+      ])
+      expect([...calibrations.keys()]).toEqual(['a', 'b'])
+      expect(calibrations.get('a')!.site.mean).toBe(6.75)
+    })
+  })
+
+  describe('describeCalibration', () => {
+    it('names the tendency', () => {
+      expect(calibrationTendency(harsh)).toBe('harsh')
+      expect(calibrationTendency(generous)).toBe('generous')
+    })
+
+    it('explains what calibration does to a typical rating', () => {
+      expect(describeCalibration(harsh)).toMatch(/^Rates 1\.\d below the average reviewer: their 6 counts as \d\.\d when calibrated\. Based on 10 ratings\.$/)
+      expect(describeCalibration(generous)).toMatch(/above the average reviewer/)
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { cityFromAddress, groupByCity } from '../lib/cities'
+import { inBounds } from '../lib/geo'
+
+const place = (latitude: number, longitude: number, address: string | null, avgRating: number | null, reviewCount = 1) => ({
+  latitude,
+  longitude,
+  address,
+  avgRating,
+  reviewCount,
+})
+
+const padella = place(51.5054, -0.0902, '6 Southwark St, London SE1 1TQ', 9, 4)
+const flatIron = place(51.5038, -0.0817, '112-116 Tooley St, London SE1 2TH', 7, 2)
+const duPain = place(48.8566, 2.3522, '12 Rue de Rivoli, 75004 Paris, France', 8, 1)
+
+describe('Cities', () => {
+  describe('cityFromAddress', () => {
+    it('takes the town in front of a UK postcode', () => {
+      expect(cityFromAddress('6 Southwark St, London SE1 1TQ')).toBe('London')
+      expect(cityFromAddress('6 Southwark St, London SE1 1TQ, UK')).toBe('London')
+    })
+
+    it('takes the town after a continental postcode', () => {
+      expect(cityFromAddress('12 Rue de Rivoli, 75004 Paris, France')).toBe('Paris')
+    })
+
+    it('reads Photon addresses ending in a postcode', () => {
+      expect(cityFromAddress('14 Winchester Walk, Southwark, London, SE1 9AG')).toBe('London')
+    })
+
+    it('skips a trailing country without a postcode', () => {
+      expect(cityFromAddress('Hauptstrasse 5, Berlin, Germany')).toBe('Berlin')
+    })
+
+    it('gives up on addresses without a town', () => {
+      expect(cityFromAddress(null)).toBeNull()
+      expect(cityFromAddress('Borough Market')).toBeNull()
+    })
+  })
+
+  describe('groupByCity', () => {
+    it('puts nearby places in one city and far ones in another, busiest first', () => {
+      const cities = groupByCity([duPain, padella, flatIron])
+      expect(cities.map(c => c.name)).toEqual(['London', 'Paris'])
+      expect(cities[0].placeCount).toBe(2)
+      expect(cities[0].reviewCount).toBe(6)
+      expect(cities[0].avgRating).toBe(8)
+    })
+
+    it('covers every place in the city with its bounds', () => {
+      const [london] = groupByCity([padella, flatIron])
+      expect(inBounds({ lat: padella.latitude, lng: padella.longitude }, london.bounds)).toBe(true)
+      expect(inBounds({ lat: flatIron.latitude, lng: flatIron.longitude }, london.bounds)).toBe(true)
+    })
+
+    it('gives a single place some area around it', () => {
+      const [paris] = groupByCity([duPain])
+      const [west, south, east, north] = paris.bounds
+      expect(east - west).toBeCloseTo(0.02)
+      expect(north - south).toBeCloseTo(0.02)
+    })
+
+    it('falls back to a nearby office name when addresses have no town', () => {
+      const unnamed = place(51.505, -0.09, null, 6)
+      const [city] = groupByCity([unnamed], [{ name: 'London Bridge', lat: 51.5047, lng: -0.0886 }])
+      expect(city.name).toBe('London Bridge')
+    })
+
+    it('skips places without coordinates', () => {
+      expect(groupByCity([{ ...padella, latitude: null, longitude: null }])).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { ratingsByPlace, compareRatings, compatibility, describeCompatibility } from '../lib/compatibility'
+
+const ratings = (entries: Record<string, number>) => new Map(Object.entries(entries))
+
+const mine = ratings({ padella: 9, dishoom: 8, wasabi: 5, pret: 4 })
+
+describe('Taste Compatibility', () => {
+  describe('ratingsByPlace', () => {
+    it('averages repeat visits and skips unrated reviews', () => {
+      expect(ratingsByPlace([
+        { restaurant_id: 'padella', rating: 8 },
+        { restaurant_id: 'padella', rating: 10 },
+        { restaurant_id: 'dishoom', rating: null },
+        { restaurant_id: null, rating: 7 },
+      ])).toEqual(ratings({ padella: 9 }))
+    })
+  })
+
+  describe('compareRatings', () => {
+    it('lists shared places, biggest disagreement first', () => {
+      const comparisons = compareRatings(mine, ratings({ padella: 8, wasabi: 9, nandos: 6 }))
+      expect(comparisons).toEqual([
+        { restaurantId: 'wasabi', mine: 5, theirs: 9, difference: 4 },
+        { restaurantId: 'padella', mine: 9, theirs: 8, difference: -1 },
+      ])
+    })
+  })
+
+  describe('compatibility', () => {
+    it('scores identical taste as a perfect match', () => {
+      expect(compatibility(mine, mine)).toEqual({ overlap: 4, correlation: 1, meanDifference: 0, score: 100 })
+    })
+
+    it('credits someone who ranks places the same on a harsher scale', () => {
+      const harsher = compatibility(mine, ratings({ padella: 7, dishoom: 6, wasabi: 3, pret: 2 }))
+      expect(harsher.correlation).toBeCloseTo(1)
+      expect(harsher.score).toBe(67)
+    })
+
+    it('scores opposite taste low', () => {
+      const opposite = compatibility(mine, ratings({ padella: 4, dishoom: 5, wasabi: 8, pret: 9 }))
+      expect(opposite.correlation).toBeCloseTo(-1)
+      expect(opposite.score).toBe(0)
+    })
+
+    it('skips correlation with only two places in common', () => {
+      expect(compatibility(mine, ratings({ padella: 8, dishoom: 8 }))).toEqual({
+        overlap: 2, correlation: null, meanDifference: 0.5, score: 83,
+      })
+    })
+
+    it('has no score with fewer than two places in common', () => {
+      expect(compatibility(mine, ratings({ padella: 9 })).score).toBeNull()
+    })
+  })
+
+  describe('describeCompatibility', () => {
+    it('summarises the numbers behind the score', () => {
+      expect(describeCompatibility(compatibility(mine, mine))).toBe('4 places in common · usually 0.0 apart · correlation 1.00')
+      expect(describeCompatibility(compatibility(mine, ratings({ padella: 9 })))).toBe('Only 1 place in common so far')
+      expect(describeCompatibility(compatibility(mine, new Map()))).toBe('No places in common yet')
+    })
+  })
+})
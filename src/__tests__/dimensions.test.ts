@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { validateDimension, averageByDimension, MAX_DIMENSIONS } from '../lib/dimensions'
+
+const dimension = (id: string, label: string, position: number, scale_max = 10) => ({
+  id,
+  organisation_id: 'org-1',
+  label,
+  scale_max,
+  position,
+  created_at: '2024-02-01T00:00:00Z',
+})
+
+const speed = dimension('dim-speed', 'Speed', 1, 5)
+const portion = dimension('dim-portion', 'Portion size', 0)
+
+describe('Rating Dimensions', () => {
+  describe('validateDimension', () => {
+    it('accepts a new, uniquely named dimension', () => {
+      expect(validateDimension('Ambience', 10, [speed, portion])).toBeNull()
+    })
+
+    it('requires a name of sensible length', () => {
+      expect(validateDimension('   ', 10, [])).toMatch(/name/)
+      expect(validateDimension('x'.repeat(41), 10, [])).toMatch(/40/)
+    })
+
+    it('rejects names every review already has', () => {
+      expect(validateDimension('Value', 10, [])).toMatch(/already rated/)
+      expect(validateDimension('taste', 10, [])).toMatch(/already rated/)
+    })
+
+    it('rejects scales outside 2-10', () => {
+      expect(validateDimension('Ambience', 1, [])).toMatch(/Scale/)
+      expect(validateDimension('Ambience', 11, [])).toMatch(/Scale/)
+    })
+
+    it('rejects duplicate names regardless of case', () => {
+      expect(validateDimension(' speed ', 10, [speed])).toMatch(/already a "speed"/)
+    })
+
+    it('lets a dimension keep its own name while editing', () => {
+      expect(validateDimension('Speed', 5, [speed], 'dim-speed')).toBeNull()
+    })
+
+    it('caps the number of dimensions per organisation', () => {
+      const full = Array.from({ length: MAX_DIMENSIONS }, (_, i) => dimension(`dim-${i}`, `Dimension ${i}`, i))
+      expect(validateDimension('One more', 10, full)).toMatch(/up to/)
+    })
+  })
+
+  describe('averageByDimension', () => {
+    const ratings = [
+      { review_id: 'review-1', dimension_id: 'dim-speed', rating: 4 },
+      { review_id: 'review-2', dimension_id: 'dim-speed', rating: 2 },
+      { review_id: 'review-3', dimension_id: 'dim-speed', rating: 5 },
+    ]
+
+    it('averages only the given reviews, in position order', () => {
+      const result = averageByDimension([speed, portion], ratings, new Set(['review-1', 'review-2']))
+
+      expect(result.map(r => r.dimension.id)).toEqual(['dim-portion', 'dim-speed'])
+      expect(result[1]).toMatchObject({ average: 3, count: 2 })
+    })
+
+    it('keeps unscored dimensions with a null average', () => {
+      const result = averageByDimension([speed, portion], ratings, new Set(['review-1']))
+      expect(result[0]).toMatchObject({ average: null, count: 0 })
+    })
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { filtersToSearch, filtersFromSearch, syncFiltersWithUrl, NO_SHARED_FILTERS } from '../lib/filter-params'
+import type { SharedFilters } from '../lib/filter-params'
+import { useFilterStore } from '../lib/store'
+
+const veganLunchRatedByOrg: SharedFilters = {
+  ...NO_SHARED_FILTERS,
+  selectedCategories: ['lunch'],
+  minOverallRating: 8,
+  socialFilter: 'stackone',
+  selectedTagIds: ['tag-vegan'],
+}
+
+describe('Filter Links', () => {
+  describe('filtersToSearch', () => {
+    it('leaves defaults out of the URL', () => {
+      expect(filtersToSearch(NO_SHARED_FILTERS)).toBe('')
+    })
+
+    it('writes the filters someone would share', () => {
+      expect(filtersToSearch(veganLunchRatedByOrg)).toBe('?category=lunch&min=8&social=stackone&tag=tag-vegan')
+    })
+
+    it('rounds map areas to about a metre', () => {
+      const search = filtersToSearch({ ...NO_SHARED_FILTERS, selectedBounds: [-0.100004, 51.5, -0.08, 51.510001] })
+      expect(new URLSearchParams(search).get('bounds')).toBe('-0.1,51.5,-0.08,51.51')
+    })
+  })
+
+  describe('filtersFromSearch', () => {
+    it('round-trips every shared filter', () => {
+      const filters: SharedFilters = {
+        selectedCategories: ['lunch', 'coffee'],
+        minOverallRating: 8,
+        minValueRating: 6.5,
+        minTasteRating: 7,
+        socialFilter: 'following',
+        selectedUserIds: ['user-1', 'user-2'],
+        selectedTagIds: ['tag-vegan'],
+        selectedCuisines: ['Thai', 'Middle Eastern'],
+        selectedBounds: [-0.1, 51.5, -0.08, 51.51],
+        selectedRegion: [[-0.1, 51.5], [-0.08, 51.5], [-0.09, 51.51]],
+        maxWalkMinutes: 10,
+        highlightedRestaurantId: 'padella',
+        calibrateRatings: true,
+      }
+      expect(filtersFromSearch(filtersToSearch(filters))).toEqual(filters)
+    })
+
+    it('ignores malformed values', () => {
+      expect(filtersFromSearch('?category=breakfast&min=11&walk=-5&bounds=1,2,3&area=1,2;3,4')).toEqual(NO_SHARED_FILTERS)
+    })
+  })
+
+  describe('syncFiltersWithUrl', () => {
+    let stop: () => void
+    const location = window.location
+
+    const setLocation = (value: object) => Object.defineProperty(window, 'location', { value, writable: true })
+
+    const navigate = (url: string) => {
+      const { pathname, search } = new URL(url, 'http://localhost:4321')
+      window.location.pathname = pathname
+      window.location.search = search
+    }
+
+    beforeEach(() => {
+      useFilterStore.getState().clearFilters()
+      setLocation({ ...location, pathname: '/', search: '', hash: '' })
+      vi.spyOn(window.history, 'pushState').mockImplementation((_state, _title, url) => navigate(String(url)))
+      vi.spyOn(window.history, 'replaceState').mockImplementation((_state, _title, url) => navigate(String(url)))
+    })
+
+    afterEach(() => {
+      stop?.()
+      vi.restoreAllMocks()
+      setLocation(location)
+    })
+
+    it('loads the filters from a shared link', () => {
+      window.location.pathname = '/org/stackone'
+      window.location.search = '?category=lunch&min=8&social=stackone&tag=tag-vegan&place=padella'
+      stop = syncFiltersWithUrl()
+
+      const state = useFilterStore.getState()
+      expect(state.selectedCategories).toEqual(['lunch'])
+      expect(state.minOverallRating).toBe(8)
+      expect(state.socialFilter).toBe('stackone')
+      expect(state.highlightedRestaurantId).toBe('padella')
+    })
+
+    it('adds a history entry per filter change', () => {
+      stop = syncFiltersWithUrl()
+      useFilterStore.getState().setMinOverallRating(8)
+
+      expect(window.history.pushState).toHaveBeenCalledWith(null, '', '/?min=8')
+      expect(window.location.search).toBe('?min=8')
+    })
+
+    it('replaces the entry when only the map moves or a place is picked', () => {
+      window.location.search = '?bounds=-0.1,51.5,-0.08,51.51'
+      stop = syncFiltersWithUrl()
+      vi.mocked(window.history.pushState).mockClear()
+
+      useFilterStore.getState().setSelectedBounds([-0.09, 51.5, -0.07, 51.51])
+      useFilterStore.getState().setHighlightedRestaurantId('padella')
+
+      expect(window.history.pushState).not.toHaveBeenCalled()
+      expect(window.location.search).toContain('place=padella')
+    })
+
+    it('follows back and forward', () => {
+      stop = syncFiltersWithUrl()
+      useFilterStore.getState().setMinOverallRating(8)
+      useFilterStore.getState().toggleCategory('coffee')
+
+      window.location.search = '?min=8'
+      window.dispatchEvent(new PopStateEvent('popstate'))
+
+      expect(useFilterStore.getState().selectedCategories).toEqual([])
+      expect(useFilterStore.getState().minOverallRating).toBe(8)
+    })
+  })
+})
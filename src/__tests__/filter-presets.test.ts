@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { presetQuery, presetFilters, matchingPreset, validatePresetName, MAX_PRESETS } from '../lib/presets'
+import { NO_SHARED_FILTERS } from '../lib/filter-params'
+import type { SharedFilters } from '../lib/filter-params'
+
+const quickCoffee: SharedFilters = {
+  ...NO_SHARED_FILTERS,
+  selectedCategories: ['coffee'],
+  minOverallRating: 7,
+  maxWalkMinutes: 5,
+}
+
+describe('Filter Presets', () => {
+  describe('presetQuery', () => {
+    it('leaves out the place that was open', () => {
+      expect(presetQuery({ ...quickCoffee, highlightedRestaurantId: 'padella' })).toBe('?category=coffee&min=7&walk=5')
+    })
+  })
+
+  describe('presetFilters', () => {
+    it('restores the saved filters', () => {
+      expect(presetFilters({ query: presetQuery(quickCoffee) })).toEqual(quickCoffee)
+    })
+
+    it('clears everything for an empty preset', () => {
+      expect(presetFilters({ query: '' })).toEqual(NO_SHARED_FILTERS)
+    })
+  })
+
+  describe('matchingPreset', () => {
+    const presets = [
+      { id: 'everything', query: '' },
+      { id: 'coffee', query: '?walk=5&category=coffee&min=7' },
+    ]
+
+    it('finds the preset whatever order its query was written in', () => {
+      expect(matchingPreset(presets, { ...quickCoffee, highlightedRestaurantId: 'padella' })?.id).toBe('coffee')
+    })
+
+    it('finds nothing once the filters change', () => {
+      expect(matchingPreset(presets, { ...quickCoffee, minOverallRating: 8 })).toBeNull()
+    })
+  })
+
+  describe('validatePresetName', () => {
+    it('needs a name', () => {
+      expect(validatePresetName('  ', [])).toMatch(/name/)
+    })
+
+    it('rejects a name already in use', () => {
+      expect(validatePresetName('quick coffee ', [{ name: 'Quick coffee' }])).toMatch(/already/)
+    })
+
+    it('caps the number of presets', () => {
+      const existing = Array.from({ length: MAX_PRESETS }, (_, i) => ({ name: `Preset ${i}` }))
+      expect(validatePresetName('One more', existing)).toMatch(/up to/)
+      expect(validatePresetName('Quick coffee', [])).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  createFixtureProvider,
+  createGoogleProvider,
+  createPhotonProvider,
+  getGeocodingProvider,
+  FIXTURE_PLACES,
+} from '../lib/geocoding'
+
+function mockFetch(body: unknown, ok = true) {
+  const fetchMock = vi.fn().mockResolvedValue({ ok, json: () => Promise.resolve(body) })
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+describe('Geocoding', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('fixture provider', () => {
+    const provider = createFixtureProvider()
+
+    it('matches on normalised name', async () => {
+      const results = await provider.autocomplete('the rake')
+      expect(results.map(r => r.name)).toEqual(['The Rake'])
+
+      const partial = await provider.autocomplete('BORO')
+      expect(partial.map(r => r.name)).toEqual(['BAO Borough'])
+    })
+
+    it('returns nothing for an empty query', async () => {
+      expect(await provider.autocomplete('  ')).toEqual([])
+    })
+
+    it('returns coordinates and address for a known place', async () => {
+      const details = await provider.getPlaceDetails(FIXTURE_PLACES[0])
+      expect(details).toEqual({
+        placeId: 'fixture:padella',
+        address: '6 Southwark St, London SE1 1TQ',
+        lat: 51.5054,
+        lng: -0.0902,
+      })
+    })
+
+    it('returns null for an unknown place', async () => {
+      expect(await provider.getPlaceDetails({ placeId: 'nope', name: 'Nope', address: '' })).toBeNull()
+    })
+  })
+
+  describe('google provider', () => {
+    const provider = createGoogleProvider('test-key')
+
+    it('maps autocomplete suggestions', async () => {
+      const fetchMock = mockFetch({
+        suggestions: [{
+          placePrediction: {
+            placeId: 'ChIJ-padella',
+            structuredFormat: { mainText: { text: 'Padella' }, secondaryText: { text: 'Southwark St, London' } },
+          },
+        }],
+      })
+
+      const results = await provider.autocomplete('padella')
+
+      expect(results).toEqual([{ placeId: 'ChIJ-padella', name: 'Padella', address: 'Southwark St, London' }])
+      expect(fetchMock.mock.calls[0][1].headers['X-Goog-Api-Key']).toBe('test-key')
+    })
+
+    it('prefers the formatted address from place details', async () => {
+      mockFetch({ location: { latitude: 51.5054, longitude: -0.0902 }, formattedAddress: '6 Southwark St, London SE1 1TQ, UK' })
+
+      const details = await provider.getPlaceDetails({ placeId: 'ChIJ-padella', name: 'Padella', address: 'Southwark St, London' })
+
+      expect(details).toEqual({ placeId: 'ChIJ-padella', address: '6 Southwark St, London SE1 1TQ, UK', lat: 51.5054, lng: -0.0902 })
+    })
+
+    it('throws when the request fails', async () => {
+      mockFetch({}, false)
+      await expect(provider.autocomplete('padella')).rejects.toThrow('Place search failed')
+    })
+  })
+
+  describe('photon provider', () => {
+    const provider = createPhotonProvider('https://photon.test', 'https://nominatim.test')
+
+    it('maps features with prefixed OSM ids and coordinates', async () => {
+      const fetchMock = mockFetch({
+        features: [
+          {
+            geometry: { coordinates: [-0.0902, 51.5054] },
+            properties: { osm_type: 'N', osm_id: 123, name: 'Padella', housenumber: '6', street: 'Southwark Street', city: 'London', postcode: 'SE1 1TQ' },
+          },
+          {
+            // Unnamed features can't be picked
+            geometry: { coordinates: [-0.09, 51.5] },
+            properties: { osm_type: 'W', osm_id: 456 },
+          },
+        ],
+      })
+
+      const results = await provider.autocomplete('padella')
+
+      expect(results).toEqual([{
+        placeId: 'osm:N123',
+        name: 'Padella',
+        address: '6 Southwark Street, London, SE1 1TQ',
+        lat: 51.5054,
+        lng: -0.0902,
+      }])
+      expect(fetchMock.mock.calls[0][0]).toContain('https://photon.test/api/?q=padella')
+    })
+
+    it('skips the network when the suggestion already has coordinates', async () => {
+      const fetchMock = mockFetch({})
+
+      const details = await provider.getPlaceDetails({ placeId: 'osm:N123', name: 'Padella', address: 'Southwark St', lat: 51.5054, lng: -0.0902 })
+
+      expect(details?.lat).toBe(51.5054)
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('looks up coordinates in Nominatim otherwise', async () => {
+      const fetchMock = mockFetch([{ lat: '51.5054', lon: '-0.0902', display_name: 'Padella, Southwark Street, London' }])
+
+      const details = await provider.getPlaceDetails({ placeId: 'osm:N123', name: 'Padella', address: '' })
+
+      expect(details).toEqual({ placeId: 'osm:N123', address: 'Padella, Southwark Street, London', lat: 51.5054, lng: -0.0902 })
+      expect(fetchMock.mock.calls[0][0]).toBe('https://nominatim.test/lookup?osm_ids=N123&format=jsonv2')
+    })
+  })
+
+  describe('getGeocodingProvider', () => {
+    it('uses the requested provider', () => {
+      expect(getGeocodingProvider({ PUBLIC_GEOCODING_PROVIDER: 'fixture', PUBLIC_GOOGLE_MAPS_API_KEY: 'key' }).name).toBe('fixture')
+      expect(getGeocodingProvider({ PUBLIC_GEOCODING_PROVIDER: 'photon', PUBLIC_GOOGLE_MAPS_API_KEY: 'key' }).name).toBe('photon')
+    })
+
+    it('uses Google when there is a key and Photon when there is not', () => {
+      expect(getGeocodingProvider({ PUBLIC_GOOGLE_MAPS_API_KEY: 'key' }).name).toBe('google')
+      expect(getGeocodingProvider({}).name).toBe('photon')
+    })
+
+    it('falls back to Photon when Google is requested without a key', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      expect(getGeocodingProvider({ PUBLIC_GEOCODING_PROVIDER: 'google' }).name).toBe('photon')
+      expect(warn).toHaveBeenCalled()
+      warn.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest'
+import {
+  needsLocationBackfill,
+  pickSuggestion,
+  planLocationUpdate,
+  formatLocationDiff,
+  chunk,
+  parseProgressLog,
+  providerOwnsPlaceId,
+} from '../lib/location-backfill'
+
+const office = { lat: 51.5045, lng: -0.0865 }
+
+const noLocation = {
+  id: 'restaurant-1',
+  name: 'Padella',
+  place_id: null,
+  latitude: null,
+  longitude: null,
+  address: null,
+}
+
+const noAddress = {
+  id: 'restaurant-2',
+  name: 'The Rake',
+  place_id: 'ChIJ-rake',
+  latitude: 51.5057,
+  longitude: -0.0908,
+  address: null,
+}
+
+const complete = {
+  ...noAddress,
+  id: 'restaurant-3',
+  address: '14 Winchester Walk, London SE1 9AG',
+}
+
+const padellaBorough = { placeId: 'osm:N1', name: 'Padella', address: 'Southwark St', lat: 51.5054, lng: -0.0902 }
+const padellaShoreditch = { placeId: 'osm:N2', name: 'Padella Shoreditch', address: 'Phipp St', lat: 51.5246, lng: -0.0786 }
+const flatIron = { placeId: 'osm:N3', name: 'Flat Iron', address: 'Tooley St', lat: 51.5038, lng: -0.0817 }
+
+describe('Location Backfill', () => {
+  describe('providerOwnsPlaceId', () => {
+    it('tells the providers\' place ids apart', () => {
+      expect(providerOwnsPlaceId('google', 'ChIJ-rake')).toBe(true)
+      expect(providerOwnsPlaceId('google', 'osm:N123')).toBe(false)
+      expect(providerOwnsPlaceId('photon', 'osm:N123')).toBe(true)
+      expect(providerOwnsPlaceId('photon', 'ChIJ-rake')).toBe(false)
+      expect(providerOwnsPlaceId('fixture', 'fixture:padella')).toBe(true)
+    })
+  })
+
+  describe('needsLocationBackfill', () => {
+    it('flags rows missing coordinates or address', () => {
+      expect(needsLocationBackfill(noLocation)).toBe(true)
+      expect(needsLocationBackfill(noAddress)).toBe(true)
+      expect(needsLocationBackfill(complete)).toBe(false)
+    })
+  })
+
+  describe('pickSuggestion', () => {
+    it('ignores results with different names', () => {
+      expect(pickSuggestion(noLocation, [flatIron], { near: office })).toBeNull()
+    })
+
+    it('picks the branch closest to the anchor', () => {
+      const pick = pickSuggestion(noLocation, [padellaShoreditch, padellaBorough], { near: office })
+      expect(pick?.placeId).toBe('osm:N1')
+    })
+
+    it('rejects matches too far from the anchor', () => {
+      expect(pickSuggestion(noLocation, [padellaShoreditch], { near: office, maxDistanceMetres: 1000 })).toBeNull()
+    })
+
+    it('uses the row\'s own coordinates over the anchor', () => {
+      const rake = { placeId: 'osm:N4', name: 'Rake', address: 'Winchester Walk', lat: 51.50572, lng: -0.09082 }
+      const farRake = { ...rake, placeId: 'osm:N5', lat: 51.51, lng: -0.1 }
+      expect(pickSuggestion(noAddress, [farRake, rake], { near: office })?.placeId).toBe('osm:N4')
+      expect(pickSuggestion(noAddress, [farRake])).toBeNull()
+    })
+
+    it('only accepts an unambiguous name match without any anchor', () => {
+      expect(pickSuggestion(noLocation, [padellaBorough, flatIron])?.placeId).toBe('osm:N1')
+      expect(pickSuggestion(noLocation, [padellaBorough, padellaShoreditch])).toBeNull()
+    })
+  })
+
+  describe('planLocationUpdate', () => {
+    const details = { placeId: 'osm:N1', address: '6 Southwark St, London SE1 1TQ', lat: 51.5054, lng: -0.0902 }
+
+    it('fills every missing column', () => {
+      expect(planLocationUpdate(noLocation, details, new Set())).toEqual({
+        id: 'restaurant-1',
+        status: 'update',
+        update: { latitude: 51.5054, longitude: -0.0902, address: '6 Southwark St, London SE1 1TQ', place_id: 'osm:N1' },
+        note: undefined,
+      })
+    })
+
+    it('never overwrites existing values', () => {
+      const result = planLocationUpdate(noAddress, details, new Set())
+      expect(result.status === 'update' && result.update).toEqual({ address: '6 Southwark St, London SE1 1TQ' })
+    })
+
+    it('leaves off a place id another row already has', () => {
+      const result = planLocationUpdate(noLocation, details, new Set(['osm:N1']))
+      expect(result.status).toBe('update')
+      if (result.status === 'update') {
+        expect(result.update.place_id).toBeUndefined()
+        expect(result.note).toContain('merge')
+      }
+    })
+
+    it('is unresolved when nothing new was found', () => {
+      expect(planLocationUpdate(complete, details, new Set()).status).toBe('unresolved')
+    })
+  })
+
+  describe('formatLocationDiff', () => {
+    it('prints one line per changed column', () => {
+      const lines = formatLocationDiff(noLocation, { latitude: 51.5054, longitude: -0.0902, address: 'Southwark St' })
+      expect(lines).toEqual([
+        '  location: null -> 51.5054, -0.0902',
+        '  address:  null -> Southwark St',
+      ])
+    })
+  })
+
+  describe('chunk', () => {
+    it('splits into batches of the given size', () => {
+      expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]])
+      expect(chunk([], 2)).toEqual([])
+    })
+  })
+
+  describe('parseProgressLog', () => {
+    it('keeps the latest entry per id and skips a torn last line', () => {
+      const log = [
+        '{"id":"restaurant-1","status":"unresolved","at":"2024-01-01T00:00:00Z"}',
+        '{"id":"restaurant-2","status":"updated","at":"2024-01-01T00:00:00Z"}',
+        '{"id":"restaurant-1","status":"updated","at":"2024-01-02T00:00:00Z"}',
+        '{"id":"restaurant-3","sta',
+      ].join('\n')
+
+      const entries = parseProgressLog(log)
+
+      expect(entries.size).toBe(2)
+      expect(entries.get('restaurant-1')?.status).toBe('updated')
+      expect(entries.has('restaurant-3')).toBe(false)
+    })
+  })
+})
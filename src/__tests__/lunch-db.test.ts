@@ -0,0 +1,73 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { PGlite } from '@electric-sql/pglite'
+import { createTestDatabase, addUser, asUser } from './test-database'
+
+const me = '00000000-0000-0000-0000-00000000000a'
+const orgMate = '00000000-0000-0000-0000-00000000000b'
+const stranger = '00000000-0000-0000-0000-00000000000c'
+
+const phoReal = '30000000-0000-0000-0000-000000000001'
+const burgerShack = '30000000-0000-0000-0000-000000000002'
+
+let db: PGlite
+
+beforeAll(async () => {
+  db = await createTestDatabase()
+  await addUser(db, me)
+  await addUser(db, orgMate)
+  await addUser(db, stranger)
+
+  await db.exec(`
+    INSERT INTO organisations (id, name, slug) VALUES ('20000000-0000-0000-0000-000000000001', 'Acme', 'acme');
+    INSERT INTO organisation_members (organisation_id, user_id, role) VALUES
+      ('20000000-0000-0000-0000-000000000001', '${me}', 'member'),
+      ('20000000-0000-0000-0000-000000000001', '${orgMate}', 'member');
+    INSERT INTO restaurants (id, name, cuisine, categories) VALUES
+      ('${phoReal}', 'Pho Real', 'Vietnamese', '{lunch}'),
+      ('${burgerShack}', 'Burger Shack', 'American', '{lunch}');
+    INSERT INTO reviews (restaurant_id, user_id, rating, created_at) VALUES
+      ('${phoReal}', '${me}', 8, now() - interval '30 days'),
+      ('${burgerShack}', '${me}', 7, now() - interval '30 days');
+    -- Kept from everyone: must not veto or count as a recent visit
+    INSERT INTO reviews (restaurant_id, user_id, rating, org_sharing) VALUES
+      ('${phoReal}', '${orgMate}', 2, 'none');
+  `)
+}, 60_000)
+
+afterAll(async () => {
+  await db?.close()
+})
+
+const shortlist = (viewer: string, attendeeIds: string[]) =>
+  asUser(db, viewer, async (tx) => {
+    const { rows } = await tx.query<{ name: string; rated_by: number }>(
+      'SELECT name, rated_by FROM lunch_shortlist($1::UUID[], recent_days => 7) ORDER BY name',
+      [attendeeIds]
+    )
+    return rows
+  })
+
+describe('lunch_shortlist', () => {
+  it('ignores reviews the viewer may not see when vetoing and checking recent visits', async () => {
+    expect(await shortlist(me, [me, orgMate])).toEqual([
+      { name: 'Burger Shack', rated_by: 1 },
+      { name: 'Pho Real', rated_by: 1 },
+    ])
+  })
+
+  it('vetoes places on ratings the viewer may see', async () => {
+    await db.query("UPDATE reviews SET org_sharing = 'all' WHERE user_id = $1", [orgMate])
+    try {
+      // A veto and a visit today both rule out Pho Real
+      expect(await shortlist(me, [me, orgMate])).toEqual([{ name: 'Burger Shack', rated_by: 1 }])
+    } finally {
+      await db.query("UPDATE reviews SET org_sharing = 'none' WHERE user_id = $1", [orgMate])
+    }
+  })
+
+  it('refuses attendees who are neither org mates nor followed', async () => {
+    await expect(shortlist(me, [me, stranger])).rejects.toThrow(/members of your organisations and people you follow/)
+    await expect(shortlist(stranger, [orgMate])).rejects.toThrow(/members of your organisations and people you follow/)
+  })
+})
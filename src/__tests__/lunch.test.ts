@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { shortlistArgs, toLunchOption, explainLunchOption, SHORTLIST_SIZE, VETO_RATING } from '../lib/lunch'
+
+const row = {
+  id: 'rest-1',
+  name: 'Pho Real',
+  cuisine: 'Vietnamese',
+  categories: ['lunch'],
+  latitude: 51.5,
+  longitude: -0.1,
+  distance_m: 480,
+  group_rating: 8.5,
+  score: 7.9,
+  rated_by: 2,
+  last_visited_at: '2024-02-03T12:00:00Z',
+  attendee_ratings: [
+    { id: 'user-1', name: 'Alex', rating: 9, visited_at: '2024-02-03T12:00:00Z' },
+    { id: 'user-2', name: 'Sam', rating: 8, visited_at: '2024-01-20T12:00:00Z' },
+  ],
+}
+
+describe('Lunch decider', () => {
+  describe('shortlistArgs', () => {
+    const office = { lat: 51.5047, lng: -0.0886 }
+    const constraints = { attendeeIds: ['user-1', 'user-2'], categories: [], maxWalkMinutes: null, recentDays: null }
+
+    it('asks for a short list of the attendees\' places', () => {
+      expect(shortlistArgs(constraints, null, 4.8)).toEqual({
+        attendee_ids: ['user-1', 'user-2'],
+        veto_rating: VETO_RATING,
+        result_limit: SHORTLIST_SIZE,
+      })
+    })
+
+    it('passes the categories, walk and recent visits when set', () => {
+      expect(shortlistArgs({ ...constraints, categories: ['lunch'], maxWalkMinutes: 20, recentDays: 7 }, office, 6)).toMatchObject({
+        with_categories: ['lunch'],
+        origin_lat: 51.5047,
+        origin_lng: -0.0886,
+        max_distance_m: 2000,
+        recent_days: 7,
+      })
+    })
+  })
+
+  describe('toLunchOption', () => {
+    it('maps the shortlist row', () => {
+      const option = toLunchOption(row)
+      expect(option.groupRating).toBe(8.5)
+      expect(option.ratedBy).toBe(2)
+      expect(option.distanceM).toBe(480)
+      expect(option.attendeeRatings.map(a => a.name)).toEqual(['Alex', 'Sam'])
+    })
+
+    it('handles missing attendee ratings', () => {
+      expect(toLunchOption({ ...row, attendee_ratings: null }).attendeeRatings).toEqual([])
+    })
+  })
+
+  describe('explainLunchOption', () => {
+    it('says who rated it, how many of the group did and why nothing ruled it out', () => {
+      expect(explainLunchOption(toLunchOption(row), { attendeeCount: 3, recentDays: 7, walkingSpeedKmh: 4.8 })).toEqual([
+        'Alex gave it 9 and Sam gave it 8',
+        '2 of 3 of you have rated it',
+        `Nobody rated it ${VETO_RATING} or below`,
+        'Nobody has been in the last 7 days',
+        '6 min walk',
+      ])
+    })
+
+    it('keeps it short for a lone diner without an office', () => {
+      const option = toLunchOption({ ...row, distance_m: null, rated_by: 1, attendee_ratings: [row.attendee_ratings[0]] })
+      expect(explainLunchOption(option, { attendeeCount: 1, recentDays: null, walkingSpeedKmh: 4.8 })).toEqual([
+        'Alex gave it 9',
+        `Nobody rated it ${VETO_RATING} or below`,
+      ])
+    })
+
+    it('notices when everyone has rated it', () => {
+      expect(explainLunchOption(toLunchOption(row), { attendeeCount: 2, recentDays: null, walkingSpeedKmh: 4.8 }))
+        .toContain('All 2 of you have rated it')
+    })
+  })
+})
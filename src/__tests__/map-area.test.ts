@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { inBounds, inRegion, inMapArea, toPolygonLiteral } from '../lib/geo'
+import type { Bounds, Region } from '../lib/geo'
+import { summaryFilters } from '../lib/summaries'
+import { useFilterStore } from '../lib/store'
+
+// Around London Bridge
+const viewport: Bounds = [-0.1, 51.5, -0.08, 51.51]
+
+// An L-shaped neighbourhood: the bottom strip plus the left column
+const lShape: Region = [
+  [-0.1, 51.5],
+  [-0.08, 51.5],
+  [-0.08, 51.503],
+  [-0.095, 51.503],
+  [-0.095, 51.51],
+  [-0.1, 51.51],
+]
+
+const bottomRight = { lat: 51.501, lng: -0.082 }
+const topRight = { lat: 51.508, lng: -0.082 }
+const topLeft = { lat: 51.508, lng: -0.098 }
+const outside = { lat: 51.52, lng: -0.09 }
+
+describe('Map Area Filtering', () => {
+  describe('inBounds', () => {
+    it('keeps points inside the viewport, edges included', () => {
+      expect(inBounds(topRight, viewport)).toBe(true)
+      expect(inBounds({ lat: 51.5, lng: -0.1 }, viewport)).toBe(true)
+      expect(inBounds(outside, viewport)).toBe(false)
+    })
+  })
+
+  describe('inRegion', () => {
+    it('follows the drawn outline, not its bounding box', () => {
+      expect(inRegion(bottomRight, lShape)).toBe(true)
+      expect(inRegion(topLeft, lShape)).toBe(true)
+      expect(inRegion(topRight, lShape)).toBe(false)
+      expect(inRegion(outside, lShape)).toBe(false)
+    })
+
+    it('does not care which way the region was drawn', () => {
+      expect(inRegion(topLeft, [...lShape].reverse())).toBe(true)
+      expect(inRegion(topRight, [...lShape].reverse())).toBe(false)
+    })
+  })
+
+  describe('inMapArea', () => {
+    const at = ({ lat, lng }: { lat: number; lng: number }) => ({ latitude: lat, longitude: lng })
+
+    it('lets everything through without an area', () => {
+      expect(inMapArea({ latitude: null, longitude: null }, null, null)).toBe(true)
+    })
+
+    it('drops places without coordinates once an area is set', () => {
+      expect(inMapArea({ latitude: null, longitude: null }, viewport, null)).toBe(false)
+    })
+
+    it('needs both the viewport and the drawn region to match', () => {
+      expect(inMapArea(at(topLeft), viewport, lShape)).toBe(true)
+      expect(inMapArea(at(topRight), viewport, lShape)).toBe(false)
+      expect(inMapArea(at(topLeft), [-0.09, 51.5, -0.08, 51.51], lShape)).toBe(false)
+    })
+  })
+
+  describe('toPolygonLiteral', () => {
+    it('writes (lng,lat) vertices for Postgres', () => {
+      expect(toPolygonLiteral([[-0.1, 51.5], [-0.08, 51.5], [-0.09, 51.51]]))
+        .toBe('((-0.1,51.5),(-0.08,51.5),(-0.09,51.51))')
+    })
+  })
+
+  describe('query filters', () => {
+    it('sends the viewport and the drawn region to restaurant_summaries', () => {
+      const filters = summaryFilters({
+        minOverallRating: null,
+        minValueRating: null,
+        minTasteRating: null,
+        selectedTagIds: [],
+        selectedCuisines: [],
+        selectedCategories: [],
+        selectedBounds: viewport,
+        selectedRegion: lShape,
+      })
+      expect(filters.bounds).toEqual(viewport)
+      expect(filters.region).toBe(toPolygonLiteral(lShape))
+    })
+  })
+
+  describe('filter store', () => {
+    beforeEach(() => {
+      useFilterStore.getState().clearFilters()
+    })
+
+    it('counts the map area and drawn region as active filters', () => {
+      useFilterStore.getState().setSelectedBounds(viewport)
+      expect(useFilterStore.getState().hasActiveFilters()).toBe(true)
+
+      useFilterStore.getState().setSelectedBounds(null)
+      useFilterStore.getState().setSelectedRegion(lShape)
+      expect(useFilterStore.getState().hasActiveFilters()).toBe(true)
+    })
+
+    it('clears both with the other filters', () => {
+      useFilterStore.getState().setSelectedBounds(viewport)
+      useFilterStore.getState().setSelectedRegion(lShape)
+      useFilterStore.getState().clearFilters()
+
+      expect(useFilterStore.getState().selectedBounds).toBeNull()
+      expect(useFilterStore.getState().selectedRegion).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { clusterByGrid, heatWeight, heatColour } from '../lib/clusters'
+
+type Place = { id: string; x: number; y: number; rating: number | null }
+
+const place = (id: string, x: number, y: number, rating: number | null): Place => ({ id, x, y, rating })
+
+const cluster = (places: Place[], cellPx = 60) =>
+  clusterByGrid(places, p => ({ x: p.x, y: p.y }), p => p.rating, cellPx)
+
+describe('Map Clustering', () => {
+  describe('clusterByGrid', () => {
+    it('merges places in the same cell and keeps distant ones apart', () => {
+      const clusters = cluster([
+        place('a', 10, 10, 8),
+        place('b', 40, 50, 6),
+        place('c', 400, 400, 9),
+      ])
+      expect(clusters).toHaveLength(2)
+      expect(clusters.map(c => c.items.map(p => p.id))).toEqual([['a', 'b'], ['c']])
+    })
+
+    it('puts the cluster at the mean position of its places', () => {
+      const [merged] = cluster([place('a', 10, 10, 8), place('b', 40, 50, 6)])
+      expect(merged.centre).toEqual({ x: 25, y: 30 })
+    })
+
+    it('colours by the average rating, ignoring unrated places', () => {
+      const [merged] = cluster([place('a', 10, 10, 9), place('b', 20, 20, null), place('c', 30, 30, 7)])
+      expect(merged.avgRating).toBe(8)
+    })
+
+    it('has no rating for a cluster of unrated places', () => {
+      const [merged] = cluster([place('a', 10, 10, null), place('b', 20, 20, null)])
+      expect(merged.avgRating).toBeNull()
+    })
+
+    it('splits into more clusters with a smaller grid', () => {
+      const places = [place('a', 10, 10, 8), place('b', 40, 50, 6)]
+      expect(cluster(places, 60)).toHaveLength(1)
+      expect(cluster(places, 20)).toHaveLength(2)
+    })
+  })
+
+  describe('heatWeight', () => {
+    it('gives no heat to unrated or mediocre places', () => {
+      expect(heatWeight(null)).toBe(0)
+      expect(heatWeight(4)).toBe(0)
+      expect(heatWeight(5)).toBe(0)
+    })
+
+    it('grows with the rating up to a perfect 10', () => {
+      expect(heatWeight(7.5)).toBeCloseTo(0.5)
+      expect(heatWeight(10)).toBe(1)
+      expect(heatWeight(9)).toBeGreaterThan(heatWeight(7))
+    })
+  })
+
+  describe('heatColour', () => {
+    it('runs from amber to green', () => {
+      expect(heatColour(0)).toEqual([184, 134, 11])
+      expect(heatColour(1)).toEqual([45, 122, 79])
+      expect(heatColour(2)).toEqual(heatColour(1))
+    })
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseTileConfig,
+  tileConfigFromEnv,
+  mergeTileConfigs,
+  validateTileConfig,
+  resolveTileLayer,
+  DEFAULT_TILE_CONFIG,
+} from '../lib/tiles'
+
+const localServer = 'http://localhost:8080/{z}/{x}/{y}.png'
+
+describe('Map Tiles', () => {
+  describe('parseTileConfig', () => {
+    it('keeps known fields from stored JSON', () => {
+      expect(parseTileConfig({ provider: 'custom', url: ` ${localServer} `, style: 'dark' }))
+        .toEqual({ provider: 'custom', url: localServer, style: 'dark' })
+    })
+
+    it('ignores unknown providers, styles and junk', () => {
+      expect(parseTileConfig({ provider: 'mapbox', style: 'sepia', zoom: 3 })).toEqual({})
+      expect(parseTileConfig(null)).toEqual({})
+      expect(parseTileConfig(['carto'])).toEqual({})
+    })
+  })
+
+  describe('tileConfigFromEnv', () => {
+    it('points at a local tile server', () => {
+      expect(tileConfigFromEnv({ PUBLIC_MAP_TILE_URL: localServer })).toEqual({ provider: 'custom', url: localServer })
+    })
+
+    it('turns tiles off for offline development', () => {
+      expect(tileConfigFromEnv({ PUBLIC_MAP_TILES: 'offline', PUBLIC_MAP_TILE_URL: localServer })).toEqual({ provider: 'offline' })
+    })
+
+    it('leaves the database in charge by default', () => {
+      expect(tileConfigFromEnv({})).toEqual({})
+    })
+  })
+
+  describe('mergeTileConfigs', () => {
+    it('starts from CARTO light', () => {
+      expect(mergeTileConfigs()).toEqual(DEFAULT_TILE_CONFIG)
+    })
+
+    it('lets an org override the site style but keep its tiles', () => {
+      const site = { provider: 'osm' as const }
+      const org = { style: 'dark' as const }
+      expect(mergeTileConfigs(site, org)).toEqual({ provider: 'osm', style: 'dark' })
+    })
+
+    it('drops the old server URL when an org switches provider', () => {
+      const site = { provider: 'custom' as const, url: localServer, attribution: 'Ours' }
+      expect(mergeTileConfigs(site, { provider: 'carto' })).toEqual({ provider: 'carto', style: 'light' })
+    })
+  })
+
+  describe('validateTileConfig', () => {
+    it('needs a tile template for a custom server', () => {
+      expect(validateTileConfig({ provider: 'custom' })).toMatch(/URL/)
+      expect(validateTileConfig({ provider: 'custom', url: 'http://localhost:8080/tiles' })).toMatch(/\{z\}/)
+      expect(validateTileConfig({ provider: 'custom', url: 'localhost:8080/{z}/{x}/{y}.png' })).toMatch(/start with/)
+      expect(validateTileConfig({ provider: 'custom', url: localServer })).toBeNull()
+    })
+
+    it('has nothing to check for built-in providers', () => {
+      expect(validateTileConfig({ provider: 'osm', style: 'auto' })).toBeNull()
+    })
+  })
+
+  describe('resolveTileLayer', () => {
+    it('uses CARTO dark tiles for the dark style', () => {
+      const layer = resolveTileLayer({ provider: 'carto', style: 'dark' }, false)
+      expect(layer.url).toContain('dark_all')
+      expect(layer).toMatchObject({ dark: true, invert: false })
+    })
+
+    it('follows the device when the style is auto', () => {
+      expect(resolveTileLayer({ provider: 'carto', style: 'auto' }, true).dark).toBe(true)
+      expect(resolveTileLayer({ provider: 'carto', style: 'auto' }, false).url).toContain('light_all')
+    })
+
+    it('inverts light-only tiles for the dark style', () => {
+      expect(resolveTileLayer({ provider: 'osm', style: 'dark' }, false).invert).toBe(true)
+      expect(resolveTileLayer({ provider: 'custom', url: localServer, style: 'dark' }, false).invert).toBe(true)
+      expect(resolveTileLayer({ provider: 'custom', url: localServer, darkUrl: 'http://localhost:8080/dark/{z}/{x}/{y}.png', style: 'dark' }, false))
+        .toMatchObject({ url: 'http://localhost:8080/dark/{z}/{x}/{y}.png', invert: false })
+    })
+
+    it('has no tile URL offline', () => {
+      expect(resolveTileLayer({ provider: 'offline', style: 'light' }, false).url).toBeNull()
+    })
+
+    it('falls back to CARTO for a custom provider without a URL', () => {
+      expect(resolveTileLayer({ provider: 'custom', style: 'light' }, false).url).toContain('cartocdn')
+    })
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { parseCoordinates, validateOffice, resolveOffice, toOfficeLocation, MAX_OFFICES } from '../lib/offices'
+import type { Office } from '../lib/database.types'
+
+const office = (id: string, name: string, position: number): Office => ({
+  id,
+  organisation_id: 'stackone-org',
+  name,
+  latitude: 51.5047,
+  longitude: -0.0886,
+  position,
+  created_at: null,
+})
+
+const londonBridge = office('lb', 'London Bridge', 0)
+const shoreditch = office('sd', 'Shoreditch', 1)
+
+describe('Office Locations', () => {
+  describe('parseCoordinates', () => {
+    it('reads coordinates copied from a map app', () => {
+      expect(parseCoordinates('51.5047, -0.0886')).toEqual({ lat: 51.5047, lng: -0.0886 })
+      expect(parseCoordinates(' 51.5047 -0.0886 ')).toEqual({ lat: 51.5047, lng: -0.0886 })
+    })
+
+    it('rejects text and out-of-range values', () => {
+      expect(parseCoordinates('London Bridge')).toBeNull()
+      expect(parseCoordinates('91, 0')).toBeNull()
+      expect(parseCoordinates('0, 181')).toBeNull()
+    })
+  })
+
+  describe('validateOffice', () => {
+    it('accepts a new named office', () => {
+      expect(validateOffice('Shoreditch', '51.5265, -0.0787', [londonBridge])).toBeNull()
+    })
+
+    it('needs a name and coordinates', () => {
+      expect(validateOffice('  ', '51.5, -0.1', [])).toMatch(/name/)
+      expect(validateOffice('Shoreditch', 'east London', [])).toMatch(/Coordinates/)
+    })
+
+    it('rejects a name already used, whatever the case', () => {
+      expect(validateOffice('london bridge', '51.5, -0.1', [londonBridge])).toMatch(/already/)
+    })
+
+    it('caps the number of offices', () => {
+      const full = Array.from({ length: MAX_OFFICES }, (_, i) => office(`o${i}`, `Office ${i}`, i))
+      expect(validateOffice('One more', '51.5, -0.1', full)).toMatch(/up to/)
+    })
+  })
+
+  describe('resolveOffice', () => {
+    const offices = [londonBridge, shoreditch]
+
+    it('uses the office picked on the map first', () => {
+      expect(resolveOffice(offices, 'lb', 'sd')).toBe(shoreditch)
+    })
+
+    it('falls back to the home office, then the first office', () => {
+      expect(resolveOffice(offices, 'sd')).toBe(shoreditch)
+      expect(resolveOffice(offices, null)).toBe(londonBridge)
+    })
+
+    it('skips a home office that was deleted', () => {
+      expect(resolveOffice(offices, 'gone')).toBe(londonBridge)
+    })
+
+    it('has nothing to centre on without offices', () => {
+      expect(resolveOffice([], 'lb')).toBeNull()
+    })
+  })
+
+  describe('toOfficeLocation', () => {
+    it('turns numeric columns into map coordinates', () => {
+      const fromApi = { latitude: '51.5047', longitude: '-0.0886' } as unknown as Office
+      expect(toOfficeLocation(fromApi)).toEqual({ lat: 51.5047, lng: -0.0886 })
+    })
+  })
+})
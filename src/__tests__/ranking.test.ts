@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { populationMean, confidenceScore, rankByConfidence } from '../lib/ranking'
+
+describe('Ranking', () => {
+  describe('populationMean', () => {
+    it('weights each average by its reviews', () => {
+      expect(populationMean([
+        { avgRating: 10, reviewCount: 1 },
+        { avgRating: 7, reviewCount: 3 },
+        { avgRating: null, reviewCount: 0 },
+      ])).toBe(7.75)
+    })
+
+    it('is null with nothing rated', () => {
+      expect(populationMean([{ avgRating: null, reviewCount: 0 }])).toBeNull()
+    })
+  })
+
+  describe('confidenceScore', () => {
+    it('pulls a single review towards the mean', () => {
+      expect(confidenceScore(10, 1, 7)).toBe(7.75)
+    })
+
+    it('trusts a place with many reviews', () => {
+      expect(confidenceScore(9, 20, 7)).toBeCloseTo(8.74, 2)
+    })
+
+    it('has nothing to score without reviews', () => {
+      expect(confidenceScore(null, 0, 7)).toBeNull()
+    })
+
+    it('uses the average alone when there is no mean', () => {
+      expect(confidenceScore(8, 2, null)).toBe(8)
+    })
+  })
+
+  describe('rankByConfidence', () => {
+    it('puts twenty 9s above a single 10', () => {
+      const ranked = rankByConfidence([
+        { id: 'lucky', avgRating: 10, reviewCount: 1 },
+        { id: 'reliable', avgRating: 9, reviewCount: 20 },
+        { id: 'canteen', avgRating: 6, reviewCount: 20 },
+        { id: 'unrated', avgRating: null, reviewCount: 0 },
+      ])
+      expect(ranked.map(r => r.id)).toEqual(['reliable', 'lucky', 'canteen'])
+      expect(ranked[0].score).toBeGreaterThan(ranked[1].score)
+    })
+
+    it('breaks ties on review count', () => {
+      const ranked = rankByConfidence([
+        { id: 'few', avgRating: 8, reviewCount: 2 },
+        { id: 'many', avgRating: 8, reviewCount: 6 },
+      ])
+      expect(ranked.map(r => r.id)).toEqual(['many', 'few'])
+    })
+  })
+})
@@ -1,4 +1,6 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { averageRating, averageRatings, meetsMinimum } from '../lib/ratings'
+import { useFilterStore } from '../lib/store'
 
 // Test data with dual ratings
 const mockReviews = [
@@ -300,3 +302,78 @@ describe('Dual Ratings', () => {
     })
   })
 })
+
+describe('Dual rating helpers', () => {
+  describe('averageRating', () => {
+    it('ignores reviews that skipped the rating', () => {
+      expect(averageRating([8, null, 6, undefined])).toBe(7)
+    })
+
+    it('returns null when nobody gave the rating', () => {
+      expect(averageRating([null, undefined])).toBeNull()
+      expect(averageRating([])).toBeNull()
+    })
+  })
+
+  describe('averageRatings', () => {
+    it('averages each dimension independently', () => {
+      const restaurant1 = mockReviews.filter(r => r.restaurant_id === 'restaurant-1')
+      expect(averageRatings(restaurant1)).toEqual({
+        avgRating: 7.5,
+        avgValueRating: 7,
+        avgTasteRating: 8.5,
+      })
+    })
+
+    it('handles reviews from before value and taste existed', () => {
+      expect(averageRatings([{ rating: 6 }, { rating: 8, value_rating: null, taste_rating: 9 }])).toEqual({
+        avgRating: 7,
+        avgValueRating: null,
+        avgTasteRating: 9,
+      })
+    })
+  })
+
+  describe('meetsMinimum', () => {
+    it('passes everything with no minimum', () => {
+      expect(meetsMinimum(null, null)).toBe(true)
+      expect(meetsMinimum(3, null)).toBe(true)
+    })
+
+    it('compares against the minimum inclusively', () => {
+      expect(meetsMinimum(7, 7)).toBe(true)
+      expect(meetsMinimum(6.9, 7)).toBe(false)
+    })
+
+    it('excludes restaurants without that rating', () => {
+      expect(meetsMinimum(null, 5)).toBe(false)
+    })
+  })
+
+  describe('filter store', () => {
+    beforeEach(() => {
+      useFilterStore.getState().clearFilters()
+    })
+
+    it('tracks min value and taste ratings as active filters', () => {
+      expect(useFilterStore.getState().hasActiveFilters()).toBe(false)
+
+      useFilterStore.getState().setMinValueRating(6)
+      expect(useFilterStore.getState().minValueRating).toBe(6)
+      expect(useFilterStore.getState().hasActiveFilters()).toBe(true)
+
+      useFilterStore.getState().setMinValueRating(null)
+      useFilterStore.getState().setMinTasteRating(8)
+      expect(useFilterStore.getState().hasActiveFilters()).toBe(true)
+    })
+
+    it('clears min value and taste ratings', () => {
+      useFilterStore.getState().setMinValueRating(6)
+      useFilterStore.getState().setMinTasteRating(8)
+      useFilterStore.getState().clearFilters()
+
+      expect(useFilterStore.getState().minValueRating).toBeNull()
+      expect(useFilterStore.getState().minTasteRating).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { tasteSimilarity, predictRating, toRecommendation, explainRecommendation } from '../lib/recommendations'
+
+describe('Recommendations', () => {
+  describe('tasteSimilarity', () => {
+    it('is highest for reviewers who agree', () => {
+      expect(tasteSimilarity(0, 8)).toBeCloseTo(0.8)
+      expect(tasteSimilarity(1, 8)).toBeLessThan(tasteSimilarity(0, 8))
+    })
+
+    it('is zero once ratings differ by 3 on average', () => {
+      expect(tasteSimilarity(3, 8)).toBe(0)
+      expect(tasteSimilarity(5, 8)).toBe(0)
+    })
+
+    it('needs at least two places in common', () => {
+      expect(tasteSimilarity(0, 1)).toBe(0)
+      expect(tasteSimilarity(null, 0)).toBe(0)
+      expect(tasteSimilarity(0, 2)).toBeLessThan(tasteSimilarity(0, 6))
+    })
+  })
+
+  describe('predictRating', () => {
+    it('lifts my mean by how much similar reviewers liked the place', () => {
+      expect(predictRating(7, [
+        { similarity: 0.8, deviation: 2 },
+        { similarity: 0.2, deviation: -1 },
+      ])).toBeCloseTo(8.4)
+    })
+
+    it('stays within 1 to 10', () => {
+      expect(predictRating(9.5, [{ similarity: 1, deviation: 3 }])).toBe(10)
+    })
+
+    it('has no prediction without similar reviewers', () => {
+      expect(predictRating(7, [])).toBeNull()
+      expect(predictRating(7, [{ similarity: 0, deviation: 2 }])).toBeNull()
+    })
+  })
+
+  describe('explainRecommendation', () => {
+    const row = {
+      id: 'padella',
+      name: 'Padella',
+      cuisine: 'Italian',
+      latitude: 51.505,
+      longitude: -0.09,
+      predicted_rating: 8.6,
+      weight: 1.1,
+      reviewers: [
+        { id: 'user-1', name: 'Alex', rating: 9, similarity: 0.7, shared: 5 },
+        { id: 'user-2', name: 'Sam', rating: 8.5, similarity: 0.4, shared: 3 },
+      ],
+    }
+
+    it('names the reviewers behind the prediction', () => {
+      expect(explainRecommendation(toRecommendation(row)))
+        .toBe("Alex gave it 9 and Sam gave it 8.5. You rate alike on 5 and 3 places you've both tried.")
+    })
+
+    it('has nothing to explain without reviewers', () => {
+      expect(explainRecommendation(toRecommendation({ ...row, reviewers: null }))).toBe('')
+    })
+  })
+})
@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest'
+import { haversineDistance } from '../lib/geo'
+import {
+  normaliseRestaurantName,
+  findMatchingRestaurant,
+  countReviewers,
+  getDirectionsUrl,
+  MATCH_RADIUS_METRES,
+} from '../lib/restaurants'
+
+// Test data - coordinates around Borough Market
+const mockRestaurants = [
+  {
+    id: 'restaurant-1',
+    name: 'Padella',
+    place_id: 'ChIJ-padella',
+    latitude: 51.5054,
+    longitude: -0.0902,
+  },
+  {
+    id: 'restaurant-2',
+    name: 'The Rake',
+    place_id: null,
+    latitude: 51.5057,
+    longitude: -0.0908,
+  },
+  {
+    id: 'restaurant-3',
+    name: 'Pret A Manger',
+    place_id: null,
+    latitude: 51.5074,
+    longitude: -0.1278,
+  },
+  {
+    id: 'restaurant-4',
+    name: 'Monmouth Coffee',
+    place_id: null,
+    latitude: null,
+    longitude: null,
+  },
+]
+
+describe('Restaurant Matching', () => {
+  describe('haversineDistance', () => {
+    it('returns 0 for the same point', () => {
+      const point = { lat: 51.5054, lng: -0.0902 }
+      expect(haversineDistance(point, point)).toBe(0)
+    })
+
+    it('measures short distances in metres', () => {
+      // ~0.001 degrees of latitude is ~111 metres
+      const distance = haversineDistance(
+        { lat: 51.5054, lng: -0.0902 },
+        { lat: 51.5064, lng: -0.0902 }
+      )
+      expect(distance).toBeGreaterThan(105)
+      expect(distance).toBeLessThan(116)
+    })
+  })
+
+  describe('normaliseRestaurantName', () => {
+    it('ignores case, punctuation and a leading "the"', () => {
+      expect(normaliseRestaurantName('The Rake')).toBe('rake')
+      expect(normaliseRestaurantName("Dishoom's")).toBe('dishooms')
+      expect(normaliseRestaurantName('  PADELLA  ')).toBe('padella')
+    })
+
+    it('strips accents and expands ampersands', () => {
+      expect(normaliseRestaurantName('Café Murano')).toBe('cafe murano')
+      expect(normaliseRestaurantName('Arabica Bar & Kitchen')).toBe('arabica bar and kitchen')
+    })
+  })
+
+  describe('findMatchingRestaurant', () => {
+    it('matches on Google place id regardless of name', () => {
+      const match = findMatchingRestaurant(mockRestaurants, {
+        name: 'Padella Borough Market',
+        placeId: 'ChIJ-padella',
+      })
+      expect(match?.id).toBe('restaurant-1')
+    })
+
+    it('matches on normalised name when within the radius', () => {
+      const match = findMatchingRestaurant(mockRestaurants, {
+        name: 'rake',
+        lat: 51.50572,
+        lng: -0.09082,
+      })
+      expect(match?.id).toBe('restaurant-2')
+    })
+
+    it('matches when one name contains the other and the points are close', () => {
+      const match = findMatchingRestaurant(mockRestaurants, {
+        name: 'Padella Pasta',
+        lat: 51.5054,
+        lng: -0.0901,
+      })
+      expect(match?.id).toBe('restaurant-1')
+    })
+
+    it('does not match the same name at a different branch', () => {
+      // A different Pret ~2km away is a different restaurant
+      const match = findMatchingRestaurant(mockRestaurants, {
+        name: 'Pret A Manger',
+        lat: 51.5054,
+        lng: -0.0902,
+      })
+      expect(match).toBeNull()
+    })
+
+    it('does not match nearby places with different names', () => {
+      const match = findMatchingRestaurant(mockRestaurants, {
+        name: 'Flat Iron',
+        lat: 51.5054,
+        lng: -0.0902,
+      })
+      expect(match).toBeNull()
+    })
+
+    it('matches rows without coordinates only on exact name and no coordinates', () => {
+      expect(findMatchingRestaurant(mockRestaurants, { name: 'Monmouth Coffee' })?.id).toBe('restaurant-4')
+      expect(findMatchingRestaurant(mockRestaurants, { name: 'Monmouth' })).toBeNull()
+      expect(findMatchingRestaurant(mockRestaurants, {
+        name: 'Monmouth Coffee',
+        lat: 51.5052,
+        lng: -0.0905,
+      })).toBeNull()
+    })
+
+    it('picks the closest of several nearby matches', () => {
+      const twoRakes = [
+        ...mockRestaurants,
+        { id: 'restaurant-5', name: 'The Rake', place_id: null, latitude: 51.5059, longitude: -0.0908 },
+      ]
+      const match = findMatchingRestaurant(twoRakes, { name: 'The Rake', lat: 51.50588, lng: -0.0908 })
+      expect(match?.id).toBe('restaurant-5')
+    })
+
+    it('uses a radius of a few dozen metres', () => {
+      expect(MATCH_RADIUS_METRES).toBeGreaterThanOrEqual(25)
+      expect(MATCH_RADIUS_METRES).toBeLessThanOrEqual(150)
+    })
+  })
+
+  describe('countReviewers', () => {
+    it('counts distinct reviewers', () => {
+      const reviews = [
+        { user_id: 'user-1' },
+        { user_id: 'user-2' },
+        { user_id: 'user-1' },
+        { user_id: null },
+      ]
+      expect(countReviewers(reviews)).toBe(2)
+    })
+
+    it('returns 0 with no reviews', () => {
+      expect(countReviewers([])).toBe(0)
+    })
+  })
+
+  describe('getDirectionsUrl', () => {
+    it('pins the venue by place id when there is one', () => {
+      const url = new URL(getDirectionsUrl({
+        ...mockRestaurants[0],
+        address: '6 Southwark St, London SE1 1TQ',
+      }))
+      expect(url.origin + url.pathname).toBe('https://www.google.com/maps/dir/')
+      expect(url.searchParams.get('api')).toBe('1')
+      expect(url.searchParams.get('destination')).toBe('Padella, 6 Southwark St, London SE1 1TQ')
+      expect(url.searchParams.get('destination_place_id')).toBe('ChIJ-padella')
+    })
+
+    it('falls back to coordinates without a place id or address', () => {
+      const url = new URL(getDirectionsUrl({ ...mockRestaurants[1], address: null }))
+      expect(url.searchParams.get('destination')).toBe('51.5057,-0.0908')
+      expect(url.searchParams.has('destination_place_id')).toBe(false)
+    })
+
+    it('leaves out place ids from other geocoding providers', () => {
+      const url = new URL(getDirectionsUrl({ ...mockRestaurants[0], place_id: 'osm:N123', address: null }))
+      expect(url.searchParams.get('destination')).toBe('51.5054,-0.0902')
+      expect(url.searchParams.has('destination_place_id')).toBe(false)
+    })
+
+    it('falls back to the name when nothing else is known', () => {
+      const url = new URL(getDirectionsUrl({ ...mockRestaurants[3], address: null }))
+      expect(url.searchParams.get('destination')).toBe('Monmouth Coffee')
+    })
+  })
+})
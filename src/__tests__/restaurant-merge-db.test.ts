@@ -0,0 +1,141 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { PGlite, Transaction } from '@electric-sql/pglite'
+import { createTestDatabase, addUser, asUser } from './test-database'
+
+const admin = '00000000-0000-0000-0000-00000000000a'
+const member = '00000000-0000-0000-0000-00000000000b'
+const outsider = '00000000-0000-0000-0000-00000000000c'
+const creator = '00000000-0000-0000-0000-00000000000d'
+const siteAdmin = '00000000-0000-0000-0000-00000000000e'
+
+// name, place id, latitude, longitude
+const restaurants = {
+  padella: ['Padella', null, 51.5054, -0.0902],
+  padellaBorough: ['Padella Borough', 'ChIJ-padella', 51.50542, -0.09021],
+  padellaAgain: ['padella', null, 51.50545, -0.09015],
+  padellaShoreditch: ['Padella', null, 51.5246, -0.0786],
+  rake: ['The Rake', 'ChIJ-rake', 51.5057, -0.0908],
+  rakeAgain: ['Rake', null, 51.50572, -0.09082],
+  otherRake: ['The Rake', 'ChIJ-other-rake', 51.50571, -0.09081],
+  nandos: ["Nando's", null, null, null],
+  nandosAgain: ['NANDOS', null, null, null],
+  cafeRouge: ['Café Rouge', null, 51.51, -0.1],
+  cafeRougeAgain: ['Cafe Rouge', null, 51.51001, -0.1],
+} as const
+
+type Key = keyof typeof restaurants
+
+const ids = Object.fromEntries(
+  Object.keys(restaurants).map((key, i) => [key, `30000000-0000-0000-0000-${String(i + 1).padStart(12, '0')}`])
+) as Record<Key, string>
+const keysById = new Map(Object.entries(ids).map(([key, id]) => [id, key]))
+
+let db: PGlite
+
+beforeAll(async () => {
+  db = await createTestDatabase()
+  for (const user of [admin, member, outsider, creator, siteAdmin]) await addUser(db, user)
+
+  for (const [key, [name, placeId, lat, lng]] of Object.entries(restaurants)) {
+    await db.query(
+      'INSERT INTO restaurants (id, name, cuisine, place_id, latitude, longitude) VALUES ($1, $2, $3, $4, $5, $6)',
+      [ids[key as Key], name, '', placeId, lat, lng]
+    )
+  }
+
+  await db.exec(`
+    INSERT INTO organisations (id, name, slug) VALUES ('20000000-0000-0000-0000-000000000001', 'Acme', 'acme');
+    INSERT INTO organisation_members (organisation_id, user_id, role) VALUES
+      ('20000000-0000-0000-0000-000000000001', '${admin}', 'admin'),
+      ('20000000-0000-0000-0000-000000000001', '${member}', 'member');
+    INSERT INTO reviews (restaurant_id, user_id, rating) VALUES
+      ('${ids.padella}', '${member}', 9),
+      ('${ids.padellaBorough}', '${member}', 8),
+      ('${ids.padellaBorough}', '${admin}', 7),
+      ('${ids.rake}', '${outsider}', 6),
+      ('${ids.rakeAgain}', '${member}', 5);
+    INSERT INTO site_admins (user_id) VALUES ('${siteAdmin}');
+  `)
+}, 60_000)
+
+afterAll(async () => {
+  await db?.close()
+})
+
+const merge = (tx: Transaction, survivor: string, duplicates: string[]) =>
+  tx.query<{ moved: number }>('SELECT merge_restaurants($1, $2::UUID[]) AS moved', [survivor, duplicates])
+    .then(({ rows }) => rows[0].moved)
+
+describe('Restaurant merge in the database', () => {
+  describe('find_duplicate_restaurants', () => {
+    it('pairs the rows AddReview would have matched', async () => {
+      const pairs = await asUser(db, null, async (tx) => {
+        const { rows } = await tx.query<{ restaurant_id: string; duplicate_id: string }>('SELECT * FROM find_duplicate_restaurants()')
+        return rows.map(p => [keysById.get(p.restaurant_id), keysById.get(p.duplicate_id)].sort().join(' ~ ')).sort()
+      })
+
+      expect(pairs).toEqual([
+        'cafeRouge ~ cafeRougeAgain',
+        'nandos ~ nandosAgain',
+        'otherRake ~ rakeAgain',
+        'padella ~ padellaAgain',
+        'padella ~ padellaBorough',
+        'padellaAgain ~ padellaBorough',
+        'rake ~ rakeAgain',
+      ])
+    })
+  })
+
+  describe('merge_restaurants', () => {
+    it('lets an org admin merge places only their members reviewed', async () => {
+      expect(await asUser(db, admin, tx => merge(tx, ids.padellaBorough, [ids.padella]))).toBe(1)
+    })
+
+    it('refuses other members of the org', async () => {
+      await expect(asUser(db, member, tx => merge(tx, ids.padellaBorough, [ids.padella])))
+        .rejects.toThrow(/can merge them/)
+    })
+
+    it('refuses an org admin when someone outside their orgs reviewed the places', async () => {
+      await expect(asUser(db, admin, tx => merge(tx, ids.rake, [ids.rakeAgain])))
+        .rejects.toThrow(/can merge them/)
+    })
+
+    it('refuses an org admin a duplicate nobody reviewed that someone else added', async () => {
+      await expect(asUser(db, admin, tx => merge(tx, ids.padellaBorough, [ids.padellaAgain])))
+        .rejects.toThrow(/can merge them/)
+    })
+
+    it('lets whoever added an unreviewed duplicate merge it, and nobody else', async () => {
+      const addPadella = async (tx: Transaction) => {
+        const { rows } = await tx.query<{ id: string }>(
+          "INSERT INTO restaurants (name, cuisine, latitude, longitude) VALUES ('Padella', '', 51.50541, -0.09019) RETURNING id"
+        )
+        return rows[0].id
+      }
+
+      expect(await asUser(db, creator, async (tx) => merge(tx, ids.padellaBorough, [await addPadella(tx)]))).toBe(0)
+
+      await expect(asUser(db, creator, async (tx) => {
+        const added = await addPadella(tx)
+        await tx.query("SELECT set_config('request.jwt.claim.sub', $1, true)", [outsider])
+        return merge(tx, ids.padellaBorough, [added])
+      })).rejects.toThrow(/can merge them/)
+    })
+
+    it('does not let anyone claim a restaurant they did not add', async () => {
+      const createdBy = await asUser(db, outsider, async (tx) => {
+        await tx.query('UPDATE restaurants SET created_by = $1 WHERE id = $2', [outsider, ids.padellaAgain])
+        const { rows } = await tx.query<{ created_by: string | null }>('SELECT created_by FROM restaurants WHERE id = $1', [ids.padellaAgain])
+        return rows[0].created_by
+      })
+      expect(createdBy).toBeNull()
+    })
+
+    it('lets a site admin merge anything', async () => {
+      expect(await asUser(db, siteAdmin, tx => merge(tx, ids.rake, [ids.rakeAgain]))).toBe(1)
+      expect(await asUser(db, siteAdmin, tx => merge(tx, ids.padellaBorough, [ids.padella, ids.padellaAgain]))).toBe(1)
+    })
+  })
+})
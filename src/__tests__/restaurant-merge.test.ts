@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+import {
+  groupDuplicates,
+  pickSurvivor,
+  previewMerge,
+} from '../lib/restaurants'
+
+// Test data - three Padella rows left behind by repeat AddReview inserts
+const padella = {
+  id: 'padella-1',
+  name: 'Padella',
+  place_id: null,
+  latitude: 51.5054,
+  longitude: -0.0902,
+  cuisine: 'Italian',
+  categories: ['lunch'],
+  address: null,
+  created_at: '2024-01-01T12:00:00Z',
+  review_count: 1,
+}
+
+const padellaBorough = {
+  id: 'padella-2',
+  name: 'Padella Borough',
+  place_id: 'ChIJ-padella',
+  latitude: 51.50542,
+  longitude: -0.09021,
+  cuisine: '',
+  categories: ['dinner'],
+  address: '6 Southwark St, London SE1 1TQ',
+  created_at: '2024-02-01T12:00:00Z',
+  review_count: 2,
+}
+
+const padellaAgain = {
+  id: 'padella-3',
+  name: 'padella',
+  place_id: null,
+  latitude: 51.50545,
+  longitude: -0.09015,
+  cuisine: 'Pasta',
+  categories: ['lunch', 'dinner'],
+  address: null,
+  created_at: '2024-04-01T12:00:00Z',
+  review_count: 0,
+}
+
+const rake = {
+  id: 'rake-1',
+  name: 'The Rake',
+  place_id: null,
+  latitude: 51.5057,
+  longitude: -0.0908,
+  cuisine: 'Pub',
+  categories: ['pub'],
+  address: null,
+  created_at: '2024-01-01T12:00:00Z',
+  review_count: 1,
+}
+
+const reviews = [
+  { id: 'review-1', restaurant_id: 'padella-1', user_id: 'user-1', rating: 9, created_at: '2024-01-01T12:00:00Z' },
+  { id: 'review-2', restaurant_id: 'padella-2', user_id: 'user-2', rating: 8, created_at: '2024-02-01T12:00:00Z' },
+  { id: 'review-3', restaurant_id: 'padella-2', user_id: 'user-1', rating: 7, created_at: '2024-03-01T12:00:00Z' },
+  { id: 'review-4', restaurant_id: 'rake-1', user_id: 'user-3', rating: 6, created_at: '2024-01-01T12:00:00Z' },
+]
+
+const padellaShoreditch = {
+  ...padella,
+  id: 'padella-4',
+  latitude: 51.5246,
+  longitude: -0.0786,
+  review_count: 0,
+}
+
+describe('Restaurant Merge', () => {
+  // Which rows pair up is decided by find_duplicate_restaurants, see restaurant-merge-db.test.ts
+  describe('groupDuplicates', () => {
+    it('joins pairs into groups and skips restaurants without any', () => {
+      const groups = groupDuplicates([padella, rake, padellaBorough, padellaAgain, padellaShoreditch], [
+        { restaurant_id: 'padella-1', duplicate_id: 'padella-2' },
+        { restaurant_id: 'padella-2', duplicate_id: 'padella-3' },
+      ])
+
+      expect(groups).toHaveLength(1)
+      expect(groups[0].map(r => r.id)).toEqual(['padella-1', 'padella-2', 'padella-3'])
+    })
+
+    it('ignores pairs naming restaurants it was not given', () => {
+      expect(groupDuplicates([padella, rake], [{ restaurant_id: 'padella-1', duplicate_id: 'padella-2' }])).toEqual([])
+    })
+
+    it('returns no groups without pairs', () => {
+      expect(groupDuplicates([padella, rake, padellaShoreditch], [])).toEqual([])
+    })
+  })
+
+  describe('pickSurvivor', () => {
+    it('keeps the row with the most reviews', () => {
+      expect(pickSurvivor([padella, padellaBorough, padellaAgain]).id).toBe('padella-2')
+    })
+
+    it('prefers a row with a place id, then the oldest, on a tie', () => {
+      const withPlaceId = { ...padellaAgain, id: 'with-place-id', place_id: 'ChIJ-padella' }
+      expect(pickSurvivor([padellaAgain, withPlaceId]).id).toBe('with-place-id')
+      expect(pickSurvivor([padellaAgain, { ...padellaAgain, id: 'older', created_at: '2023-01-01T00:00:00Z' }]).id).toBe('older')
+    })
+  })
+
+  describe('previewMerge', () => {
+    const preview = previewMerge(padellaBorough, [padella, padellaBorough, padellaAgain], reviews)
+
+    it('unions categories across all rows', () => {
+      expect(preview.categories).toEqual(['dinner', 'lunch'])
+    })
+
+    it('falls back to the oldest duplicate cuisine when the survivor has none', () => {
+      expect(preview.cuisine).toBe('Italian')
+      expect(previewMerge(padellaAgain, [padella], reviews).cuisine).toBe('Pasta')
+    })
+
+    it('excludes the survivor from the duplicates', () => {
+      expect(preview.duplicates.map(r => r.id).sort()).toEqual(['padella-1', 'padella-3'])
+    })
+
+    it('keeps every review, even a person\'s reviews of several rows', () => {
+      // user-1 reviewed both padella-1 (9, January) and padella-2 (7, March)
+      expect(preview.reviews.map(r => r.id).sort()).toEqual(['review-1', 'review-2', 'review-3'])
+    })
+
+    it('leaves out reviews of other places', () => {
+      expect(preview.reviews.map(r => r.id)).not.toContain('review-4')
+    })
+
+    it('averages the combined reviews', () => {
+      // review-1 (9), review-2 (8) and review-3 (7)
+      expect(preview.avgRating).toBe(8)
+    })
+
+    it('returns null average with no ratings', () => {
+      expect(previewMerge(padellaAgain, [padellaShoreditch], reviews).avgRating).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest'
+import { summaryScope, summaryFilters, distanceFilters, nextPageCursor, toRestaurantSummary, toRestaurantStats, ratingCounts, EMPTY_STATS } from '../lib/summaries'
+
+const orgs = [
+  { id: 'org-1', slug: 'acme' },
+  { id: 'org-2', slug: 'globex' },
+]
+
+const row = {
+  id: 'rest-1',
+  name: 'Pho Real',
+  cuisine: 'Vietnamese',
+  categories: [],
+  latitude: 51.5,
+  longitude: -0.1,
+  address: '1 High St',
+  place_id: null,
+  created_at: '2024-02-01T00:00:00Z',
+  review_count: 3,
+  avg_rating: 7.5,
+  avg_value_rating: null,
+  avg_taste_rating: 8,
+  tag_counts: [
+    { id: 'tag-1', name: 'Quick', count: 3 },
+    { id: 'tag-2', name: 'Spicy', count: 2 },
+    { id: 'tag-3', name: 'Cheap', count: 1 },
+  ],
+  reviewer_ids: ['user-1', 'user-2'],
+  last_reviewed_at: '2024-02-03T12:00:00Z',
+  distance_m: null,
+  score: 7.2,
+  predicted_rating: null,
+  sort_rank: -7.5,
+}
+
+describe('Restaurant Summaries', () => {
+  describe('summaryScope', () => {
+    it('covers everyone when signed out, whatever the filter', () => {
+      expect(summaryScope({ socialFilter: 'just_me', selectedUserIds: [], signedIn: false, userOrgs: orgs }))
+        .toEqual({ scope: 'everyone' })
+    })
+
+    it('passes the built-in social filters through', () => {
+      for (const socialFilter of ['everyone', 'just_me', 'following', 'followers'] as const) {
+        expect(summaryScope({ socialFilter, selectedUserIds: [], signedIn: true, userOrgs: orgs }))
+          .toEqual({ scope: socialFilter })
+      }
+    })
+
+    it('turns an org slug into the org id', () => {
+      expect(summaryScope({ socialFilter: 'globex', selectedUserIds: [], signedIn: true, userOrgs: orgs }))
+        .toEqual({ scope: 'org', scope_org_id: 'org-2' })
+    })
+
+    it('falls back to everyone for an org the user has left', () => {
+      expect(summaryScope({ socialFilter: 'initech', selectedUserIds: [], signedIn: true, userOrgs: orgs }))
+        .toEqual({ scope: 'everyone' })
+    })
+
+    it('prefers picked reviewers over the social filter', () => {
+      expect(summaryScope({ socialFilter: 'acme', selectedUserIds: ['user-3'], signedIn: true, userOrgs: orgs }))
+        .toEqual({ scope: 'users', scope_user_ids: ['user-3'] })
+    })
+  })
+
+  describe('summaryFilters', () => {
+    const noFilters = {
+      minOverallRating: null,
+      minValueRating: null,
+      minTasteRating: null,
+      selectedTagIds: [],
+      selectedCuisines: [],
+      selectedCategories: [],
+      selectedBounds: null,
+      selectedRegion: null,
+    }
+
+    it('leaves out filters that are not set', () => {
+      expect(summaryFilters(noFilters)).toEqual({})
+    })
+
+    it('passes the set filters to the query', () => {
+      expect(summaryFilters({
+        ...noFilters,
+        minOverallRating: 7,
+        minTasteRating: 0,
+        selectedTagIds: ['tag-1'],
+        selectedCuisines: ['Thai'],
+        selectedCategories: ['lunch'],
+        selectedBounds: [-0.1, 51.5, 0, 51.6],
+      })).toEqual({
+        min_rating: 7,
+        min_taste_rating: 0,
+        with_tag_ids: ['tag-1'],
+        with_cuisines: ['Thai'],
+        with_categories: ['lunch'],
+        bounds: [-0.1, 51.5, 0, 51.6],
+      })
+    })
+  })
+
+  describe('nextPageCursor', () => {
+    it('starts after the last restaurant shown', () => {
+      expect(nextPageCursor(toRestaurantSummary(row)))
+        .toEqual({ after_rank: -7.5, after_name: 'Pho Real', after_id: 'rest-1' })
+    })
+
+    it('uses the rank of whichever order the page was sorted in', () => {
+      expect(nextPageCursor(toRestaurantSummary({ ...row, distance_m: 420, sort_rank: 420 })).after_rank).toBe(420)
+    })
+  })
+
+  describe('distanceFilters', () => {
+    const office = { lat: 51.5047, lng: -0.0886 }
+
+    it('measures nothing without an office', () => {
+      expect(distanceFilters(null, 10, 4.8)).toEqual({})
+    })
+
+    it('always sends the office so distances come back', () => {
+      expect(distanceFilters(office, null, 4.8)).toEqual({ origin_lat: 51.5047, origin_lng: -0.0886 })
+    })
+
+    it('turns minutes into metres at the walking pace', () => {
+      expect(distanceFilters(office, 20, 6).max_distance_m).toBe(2000)
+      expect(distanceFilters(office, 10, 4.8).max_distance_m).toBeCloseTo(800)
+    })
+  })
+
+  describe('toRestaurantSummary', () => {
+    it('maps the aggregate columns', () => {
+      const summary = toRestaurantSummary(row)
+      expect(summary.reviewCount).toBe(3)
+      expect(summary.avgRating).toBe(7.5)
+      expect(summary.avgValueRating).toBeNull()
+      expect(summary.avgTasteRating).toBe(8)
+      expect(summary.reviewerIds).toEqual(['user-1', 'user-2'])
+      expect(summary.lastReviewedAt).toBe('2024-02-03T12:00:00Z')
+      expect(summary.categories).toEqual([])
+    })
+
+    it('keeps tag counts in order and the two most used as top tags', () => {
+      const summary = toRestaurantSummary(row)
+      expect(summary.tagCounts.map(t => [t.tag.name, t.count])).toEqual([['Quick', 3], ['Spicy', 2], ['Cheap', 1]])
+      expect(summary.topTags.map(t => t.tag.id)).toEqual(['tag-1', 'tag-2'])
+    })
+
+    it('handles a restaurant nobody has reviewed', () => {
+      const summary = toRestaurantSummary({
+        ...row, review_count: 0, avg_rating: null, avg_taste_rating: null,
+        tag_counts: [], reviewer_ids: [], last_reviewed_at: null,
+      })
+      expect(summary.reviewCount).toBe(0)
+      expect(summary.avgRating).toBeNull()
+      expect(summary.topTags).toEqual([])
+      expect(summary.lastReviewedAt).toBeNull()
+    })
+  })
+
+  describe('toRestaurantStats', () => {
+    it('maps the stats row', () => {
+      const stats = toRestaurantStats({
+        place_count: 12,
+        review_count: 40,
+        avg_rating: 6.8,
+        top_rated_count: 3,
+        match_count: 5,
+        rating_counts: [0, 0, 0, 0, 1, 1, 2, 1, 0, 0],
+        cuisines: ['Thai', 'Vietnamese'],
+      })
+      expect(stats.placeCount).toBe(12)
+      expect(stats.matchCount).toBe(5)
+      expect(stats.ratingCounts[6]).toBe(2)
+      expect(stats.cuisines).toEqual(['Thai', 'Vietnamese'])
+    })
+
+    it('is empty when nothing came back', () => {
+      expect(toRestaurantStats(undefined)).toEqual(EMPTY_STATS)
+    })
+  })
+
+  describe('ratingCounts', () => {
+    it('counts places per rounded average, skipping unrated ones', () => {
+      const counts = ratingCounts([
+        toRestaurantSummary(row),
+        toRestaurantSummary({ ...row, id: 'rest-2', avg_rating: 8.4 }),
+        toRestaurantSummary({ ...row, id: 'rest-3', avg_rating: 1 }),
+        toRestaurantSummary({ ...row, id: 'rest-4', avg_rating: null }),
+      ])
+      expect(counts).toEqual([1, 0, 0, 0, 0, 0, 0, 2, 0, 0])
+    })
+  })
+})
@@ -0,0 +1,124 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { PGlite } from '@electric-sql/pglite'
+import { createTestDatabase, addUser, asUser } from './test-database'
+
+// The database side of review visibility: can_view_review_details, the
+// reviews and review_tags RLS policies and the visible_reviews masking, run
+// against the real migrations rather than the client copy in src/lib/visibility.ts
+
+const privateUser = '00000000-0000-0000-0000-00000000000a'
+const publicUser = '00000000-0000-0000-0000-00000000000b'
+const follower = '00000000-0000-0000-0000-00000000000c'
+const orgMate = '00000000-0000-0000-0000-00000000000d'
+const stranger = '00000000-0000-0000-0000-00000000000e'
+
+const privateReview = '10000000-0000-0000-0000-000000000001'
+const publicReview = '10000000-0000-0000-0000-000000000002'
+
+let db: PGlite
+
+beforeAll(async () => {
+  db = await createTestDatabase()
+  await addUser(db, privateUser, { isPrivate: true })
+  await addUser(db, publicUser)
+  await addUser(db, follower)
+  await addUser(db, orgMate)
+  await addUser(db, stranger)
+
+  await db.exec(`
+    INSERT INTO user_follows (follower_id, following_id) VALUES ('${follower}', '${privateUser}');
+    INSERT INTO organisations (id, name, slug) VALUES ('20000000-0000-0000-0000-000000000001', 'Acme', 'acme');
+    INSERT INTO organisation_members (organisation_id, user_id, role) VALUES
+      ('20000000-0000-0000-0000-000000000001', '${privateUser}', 'admin'),
+      ('20000000-0000-0000-0000-000000000001', '${orgMate}', 'member');
+    INSERT INTO restaurants (id, name, cuisine) VALUES ('30000000-0000-0000-0000-000000000001', 'Pho Real', 'Vietnamese');
+    INSERT INTO reviews (id, restaurant_id, user_id, rating, comment, dish) VALUES
+      ('${privateReview}', '30000000-0000-0000-0000-000000000001', '${privateUser}', 8, 'Secret favourite', 'Pho'),
+      ('${publicReview}', '30000000-0000-0000-0000-000000000001', '${publicUser}', 6, 'Fine', 'Banh mi');
+    INSERT INTO tags (id, name) VALUES ('40000000-0000-0000-0000-000000000001', 'Visibility test tag');
+    INSERT INTO review_tags (review_id, tag_id) VALUES ('${privateReview}', '40000000-0000-0000-0000-000000000001');
+  `)
+}, 60_000)
+
+afterAll(async () => {
+  await db?.close()
+})
+
+const canViewDetails = (viewer: string | null, reviewer: string) =>
+  asUser(db, viewer, async (tx) => {
+    const { rows } = await tx.query<{ allowed: boolean }>('SELECT can_view_review_details($1) AS allowed', [reviewer])
+    return rows[0].allowed
+  })
+
+const reviewIds = (viewer: string | null) =>
+  asUser(db, viewer, async (tx) => {
+    const { rows } = await tx.query<{ id: string }>('SELECT id FROM reviews ORDER BY id')
+    return rows.map(r => r.id)
+  })
+
+describe('Review visibility in the database', () => {
+  describe('can_view_review_details', () => {
+    it('allows anyone to see a public reviewer', async () => {
+      expect(await canViewDetails(stranger, publicUser)).toBe(true)
+      expect(await canViewDetails(null, publicUser)).toBe(true)
+    })
+
+    it('allows a private reviewer themselves, their followers and org mates', async () => {
+      expect(await canViewDetails(privateUser, privateUser)).toBe(true)
+      expect(await canViewDetails(follower, privateUser)).toBe(true)
+      expect(await canViewDetails(orgMate, privateUser)).toBe(true)
+    })
+
+    it('refuses strangers and signed-out visitors', async () => {
+      expect(await canViewDetails(stranger, privateUser)).toBe(false)
+      expect(await canViewDetails(null, privateUser)).toBe(false)
+    })
+
+    it('only answers for the signed-in user', async () => {
+      // There is no viewer argument to ask on someone else's behalf
+      await expect(asUser(db, stranger, (tx) =>
+        tx.query('SELECT can_view_review_details($1, $2)', [privateUser, follower])
+      )).rejects.toThrow(/does not exist/)
+    })
+  })
+
+  describe('reviews policy', () => {
+    it('returns private reviews only to permitted viewers', async () => {
+      expect(await reviewIds(follower)).toEqual([privateReview, publicReview])
+      expect(await reviewIds(orgMate)).toEqual([privateReview, publicReview])
+      expect(await reviewIds(stranger)).toEqual([publicReview])
+      expect(await reviewIds(null)).toEqual([publicReview])
+    })
+  })
+
+  describe('review_tags policy', () => {
+    it('hides the tags of reviews the viewer may not see', async () => {
+      const tagCount = (viewer: string) => asUser(db, viewer, async (tx) => {
+        const { rows } = await tx.query('SELECT 1 FROM review_tags WHERE review_id = $1', [privateReview])
+        return rows.length
+      })
+      expect(await tagCount(follower)).toBe(1)
+      expect(await tagCount(stranger)).toBe(0)
+    })
+  })
+
+  describe('visible_reviews', () => {
+    const visible = (viewer: string | null) =>
+      asUser(db, viewer, async (tx) => {
+        const { rows } = await tx.query<{ rating: number; user_id: string | null; comment: string | null; dish: string | null }>(
+          'SELECT rating, user_id, comment, dish FROM visible_reviews WHERE id = $1', [privateReview]
+        )
+        return rows[0]
+      })
+
+    it('keeps the rating but masks the reviewer and details for strangers', async () => {
+      expect(await visible(stranger)).toEqual({ rating: 8, user_id: null, comment: null, dish: null })
+      expect(await visible(null)).toEqual({ rating: 8, user_id: null, comment: null, dish: null })
+    })
+
+    it('shows everything to permitted viewers', async () => {
+      expect(await visible(follower)).toEqual({ rating: 8, user_id: privateUser, comment: 'Secret favourite', dish: 'Pho' })
+    })
+  })
+})
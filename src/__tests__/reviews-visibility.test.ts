@@ -1,4 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { canViewReviewDetails, maskReview, normaliseOrgSharing } from '../lib/visibility'
+import type { ReviewViewer } from '../lib/visibility'
 
 // Test data
 const mockStackOneOrgId = '11111111-1111-1111-1111-111111111111'
@@ -213,4 +215,96 @@ describe('Review Visibility', () => {
       expect(allRatings).toHaveLength(3)
     })
   })
+
+  // These cover the client copy in src/lib/visibility.ts; the SQL rules that
+  // actually withhold details are tested in reviews-visibility-db.test.ts
+  describe('Private profile details', () => {
+    const publicReviewer = { id: 'public-user', isPrivate: false }
+    const privateReviewer = { id: 'private-user', isPrivate: true }
+
+    const viewer = (overrides: Partial<ReviewViewer> = {}): ReviewViewer => ({
+      id: 'viewer',
+      followingIds: new Set(),
+      orgMembersByOrgId: new Map(),
+      ...overrides,
+    })
+
+    it('shows public reviewers to everyone, signed in or not', () => {
+      expect(canViewReviewDetails(publicReviewer, viewer())).toBe(true)
+      expect(canViewReviewDetails(publicReviewer, viewer({ id: null }))).toBe(true)
+    })
+
+    it('hides private reviewers from strangers and signed-out visitors', () => {
+      expect(canViewReviewDetails(privateReviewer, viewer())).toBe(false)
+      expect(canViewReviewDetails(privateReviewer, viewer({ id: null }))).toBe(false)
+    })
+
+    it('shows private reviewers to themselves', () => {
+      expect(canViewReviewDetails(privateReviewer, viewer({ id: 'private-user' }))).toBe(true)
+    })
+
+    it('shows private reviewers to approved followers', () => {
+      expect(canViewReviewDetails(privateReviewer, viewer({ followingIds: new Set(['private-user']) }))).toBe(true)
+    })
+
+    it('shows private reviewers to co-members of an organisation', () => {
+      const shared = new Map([[mockStackOneOrgId, new Set(['private-user', 'viewer'])]])
+      const separate = new Map([
+        [mockStackOneOrgId, new Set(['private-user'])],
+        [mockAcmeOrgId, new Set(['viewer'])],
+      ])
+
+      expect(canViewReviewDetails(privateReviewer, viewer({ orgMembersByOrgId: shared }))).toBe(true)
+      expect(canViewReviewDetails(privateReviewer, viewer({ orgMembersByOrgId: separate }))).toBe(false)
+    })
+
+    it('hides reviewers without a profile', () => {
+      expect(canViewReviewDetails(undefined, viewer())).toBe(false)
+    })
+
+    it('masks details but keeps ratings for aggregates', () => {
+      const review = {
+        ...mockReviews[0],
+        value_rating: 7,
+        taste_rating: 9,
+        dish: 'Pici cacio e pepe',
+        photo_url: 'https://example.com/photo.jpg',
+      }
+
+      expect(maskReview(review)).toEqual({
+        ...review,
+        user_id: null,
+        organisation_id: null,
+        comment: null,
+        dish: null,
+        photo_url: null,
+      })
+    })
+  })
+
+  describe('Per-review org sharing', () => {
+    const myOrgs = [mockStackOneOrgId, mockAcmeOrgId]
+
+    it('saves all and none without an org list', () => {
+      expect(normaliseOrgSharing({ sharing: 'all', organisationIds: [mockAcmeOrgId] }, myOrgs))
+        .toEqual({ sharing: 'all', organisationIds: [] })
+      expect(normaliseOrgSharing({ sharing: 'none', organisationIds: [] }, myOrgs))
+        .toEqual({ sharing: 'none', organisationIds: [] })
+    })
+
+    it('keeps a subset of my orgs', () => {
+      expect(normaliseOrgSharing({ sharing: 'selected', organisationIds: [mockAcmeOrgId] }, myOrgs))
+        .toEqual({ sharing: 'selected', organisationIds: [mockAcmeOrgId] })
+    })
+
+    it('drops orgs I have since left', () => {
+      expect(normaliseOrgSharing({ sharing: 'selected', organisationIds: [mockAcmeOrgId, 'old-org'] }, myOrgs))
+        .toEqual({ sharing: 'selected', organisationIds: [mockAcmeOrgId] })
+    })
+
+    it('treats an empty subset as none', () => {
+      expect(normaliseOrgSharing({ sharing: 'selected', organisationIds: ['old-org'] }, myOrgs))
+        .toEqual({ sharing: 'none', organisationIds: [] })
+    })
+  })
 })
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { toSearchQuery, toSearchResult, highlightParts } from '../lib/search'
+
+describe('Search', () => {
+  describe('toSearchQuery', () => {
+    it('matches the last word as a prefix while typing', () => {
+      expect(toSearchQuery('kats')).toBe('kats:*')
+      expect(toSearchQuery('Chicken katsu')).toBe('chicken & katsu:*')
+    })
+
+    it('drops punctuation that would break to_tsquery', () => {
+      expect(toSearchQuery("dishoom's (black) daal!")).toBe('dishoom & s & black & daal:*')
+      expect(toSearchQuery('café & crème')).toBe('café & crème:*')
+    })
+
+    it('waits for something worth searching for', () => {
+      expect(toSearchQuery('k')).toBeNull()
+      expect(toSearchQuery('  ')).toBeNull()
+      expect(toSearchQuery('!?')).toBeNull()
+    })
+  })
+
+  describe('highlightParts', () => {
+    it('picks out the marked words', () => {
+      expect(highlightParts('Best <mark>katsu</mark> curry near <mark>Kings</mark> Cross')).toEqual([
+        { text: 'Best ', match: false },
+        { text: 'katsu', match: true },
+        { text: ' curry near ', match: false },
+        { text: 'Kings', match: true },
+        { text: ' Cross', match: false },
+      ])
+    })
+
+    it('keeps other markup as plain text', () => {
+      expect(highlightParts('<b>bold</b> claim')).toEqual([{ text: '<b>bold</b> claim', match: false }])
+    })
+  })
+
+  describe('toSearchResult', () => {
+    it('maps a search row', () => {
+      expect(toSearchResult({
+        id: 'wasabi',
+        name: 'Wasabi',
+        cuisine: 'Japanese',
+        address: null,
+        latitude: 51.5,
+        longitude: -0.1,
+        avg_rating: 7.5,
+        mention_count: 3,
+        rank: 0.4,
+        matched_in: 'review',
+        headline: 'Chicken <mark>katsu</mark>',
+      })).toEqual({
+        id: 'wasabi',
+        name: 'Wasabi',
+        cuisine: 'Japanese',
+        address: null,
+        avgRating: 7.5,
+        mentionCount: 3,
+        matchedIn: 'review',
+        headline: 'Chicken <mark>katsu</mark>',
+      })
+    })
+  })
+})
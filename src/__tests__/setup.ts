@@ -27,12 +27,14 @@ vi.mock('../lib/supabase', () => ({
   },
 }))
 
-// Mock window.location
-Object.defineProperty(window, 'location', {
-  value: {
-    href: '',
-    origin: 'http://localhost:4321',
-    pathname: '/',
-  },
-  writable: true,
-})
+// Mock window.location (database suites run without a DOM)
+if (typeof window !== 'undefined') {
+  Object.defineProperty(window, 'location', {
+    value: {
+      href: '',
+      origin: 'http://localhost:4321',
+      pathname: '/',
+    },
+    writable: true,
+  })
+}
@@ -0,0 +1,72 @@
+import { readFileSync, readdirSync } from 'node:fs'
+import { join } from 'node:path'
+import { PGlite } from '@electric-sql/pglite'
+import type { Transaction } from '@electric-sql/pglite'
+
+const MIGRATIONS_DIR = join(__dirname, '../../supabase/migrations')
+
+// Just enough of Supabase for the migrations to run: the API roles, auth.uid()
+// read from the request's JWT claims, and the storage tables the bucket
+// policies are written against. Like Supabase, the API roles get table and
+// function privileges by default, so only RLS and the functions decide access.
+const SUPABASE_STAND_INS = `
+  CREATE ROLE anon NOLOGIN;
+  CREATE ROLE authenticated NOLOGIN;
+
+  CREATE SCHEMA auth;
+  CREATE TABLE auth.users (id UUID PRIMARY KEY, email TEXT);
+  CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE SQL STABLE AS $$
+    SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID
+  $$;
+
+  CREATE SCHEMA storage;
+  CREATE TABLE storage.buckets (id TEXT PRIMARY KEY, name TEXT, public BOOLEAN);
+  CREATE TABLE storage.objects (id UUID PRIMARY KEY DEFAULT gen_random_uuid(), bucket_id TEXT, name TEXT);
+  ALTER TABLE storage.objects ENABLE ROW LEVEL SECURITY;
+  CREATE FUNCTION storage.foldername(name TEXT) RETURNS TEXT[] LANGUAGE SQL IMMUTABLE AS $$
+    SELECT string_to_array(name, '/')
+  $$;
+
+  GRANT USAGE ON SCHEMA public, auth TO anon, authenticated;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT EXECUTE ON FUNCTIONS TO anon, authenticated;
+`
+
+// A fresh in-memory Postgres with every migration applied, in order
+export async function createTestDatabase(): Promise<PGlite> {
+  const db = new PGlite()
+  await db.exec(SUPABASE_STAND_INS)
+  for (const file of readdirSync(MIGRATIONS_DIR).filter(f => f.endsWith('.sql')).sort()) {
+    await db.exec(readFileSync(join(MIGRATIONS_DIR, file), 'utf8'))
+  }
+  return db
+}
+
+// Signing up creates the profile through the handle_new_user trigger
+export async function addUser(db: PGlite, id: string, { isPrivate = false } = {}): Promise<void> {
+  await db.query('INSERT INTO auth.users (id, email) VALUES ($1, $2)', [id, `${id.slice(0, 8)}@example.com`])
+  await db.query('UPDATE profiles SET is_private = $2 WHERE id = $1', [id, isPrivate])
+}
+
+/**
+ * Run queries the way PostgREST would for a request: as the authenticated
+ * role with the user's id in the JWT claims, or as anon when signed out.
+ * Everything is rolled back afterwards.
+ */
+export async function asUser<T>(
+  db: PGlite,
+  userId: string | null,
+  run: (tx: Transaction) => Promise<T>
+): Promise<T> {
+  let result: T
+  await db.transaction(async (tx) => {
+    await tx.query(
+      "SELECT set_config('role', $1, true), set_config('request.jwt.claim.sub', $2, true)",
+      [userId ? 'authenticated' : 'anon', userId ?? '']
+    )
+    result = await run(tx)
+    await tx.rollback()
+  })
+  return result!
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { haversineDistance, walkingDistance, walkingMinutes, formatDistance, DEFAULT_WALKING_SPEED_KMH } from '../lib/geo'
+import { useFilterStore } from '../lib/store'
+
+const office = { lat: 51.5047, lng: -0.0886 } // London Bridge
+const boroughMarket = { lat: 51.5055, lng: -0.0910 }
+const towerHill = { lat: 51.5098, lng: -0.0766 }
+
+describe('Walking Distance', () => {
+  describe('walkingDistance', () => {
+    it('covers 80 m a minute at the default pace', () => {
+      expect(walkingDistance(1, DEFAULT_WALKING_SPEED_KMH)).toBeCloseTo(80)
+      expect(walkingDistance(15, DEFAULT_WALKING_SPEED_KMH)).toBeCloseTo(1200)
+    })
+
+    it('reaches further for faster walkers', () => {
+      expect(walkingDistance(10, 6)).toBeGreaterThan(walkingDistance(10, 4))
+    })
+  })
+
+  describe('walkingMinutes', () => {
+    it('is the inverse of walkingDistance', () => {
+      expect(walkingMinutes(walkingDistance(12, 5.5), 5.5)).toBeCloseTo(12)
+    })
+
+    it('rules out a place 2 km away on a 20-minute lunch walk', () => {
+      expect(walkingMinutes(2000, DEFAULT_WALKING_SPEED_KMH)).toBeGreaterThan(20)
+    })
+
+    it('puts nearby restaurants within a short walk', () => {
+      const toMarket = walkingMinutes(haversineDistance(office, boroughMarket), DEFAULT_WALKING_SPEED_KMH)
+      const toTower = walkingMinutes(haversineDistance(office, towerHill), DEFAULT_WALKING_SPEED_KMH)
+      expect(toMarket).toBeLessThan(5)
+      expect(toTower).toBeGreaterThan(toMarket)
+      expect(toTower).toBeLessThan(15)
+    })
+  })
+
+  describe('formatDistance', () => {
+    it('uses metres up close and kilometres further out', () => {
+      expect(formatDistance(183)).toBe('180 m')
+      expect(formatDistance(1530)).toBe('1.5 km')
+    })
+  })
+
+  describe('filter store', () => {
+    beforeEach(() => {
+      useFilterStore.getState().clearFilters()
+    })
+
+    it('tracks the walking limit as an active filter', () => {
+      expect(useFilterStore.getState().hasActiveFilters()).toBe(false)
+      useFilterStore.getState().setMaxWalkMinutes(10)
+      expect(useFilterStore.getState().maxWalkMinutes).toBe(10)
+      expect(useFilterStore.getState().hasActiveFilters()).toBe(true)
+    })
+
+    it('clears the walking limit with the other filters', () => {
+      useFilterStore.getState().setMaxWalkMinutes(20)
+      useFilterStore.getState().clearFilters()
+      expect(useFilterStore.getState().maxWalkMinutes).toBeNull()
+    })
+  })
+})
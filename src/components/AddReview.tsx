@@ -1,10 +1,19 @@
 import { useState, useEffect, useRef } from 'react'
-import { MapContainer, TileLayer, Marker } from 'react-leaflet'
+import { MapContainer, Marker } from 'react-leaflet'
 import L from 'leaflet'
 import { supabase } from '../lib/supabase'
-import type { RestaurantCategory, Tag } from '../lib/database.types'
+import type { Restaurant, RestaurantCategory, Tag, RatingDimension, VisibleReview } from '../lib/database.types'
+import { findMatchingRestaurant, countReviewers } from '../lib/restaurants'
+import { getGeocodingProvider } from '../lib/geocoding'
+import type { PlaceSuggestion } from '../lib/geocoding'
+import { MapTiles } from './MapView'
 import { PhotoUpload } from './PhotoUpload'
 import type { PhotoUploadHandle } from './PhotoUpload'
+import { ReceiptScoreRow } from './ReceiptScoreRow'
+import { RatingSlider } from './RatingSlider'
+import { ReceiptShareRow } from './ReceiptShareRow'
+import { normaliseOrgSharing } from '../lib/visibility'
+import type { OrgSharingChoice } from '../lib/visibility'
 
 const pinIcon = L.divIcon({
   className: 'custom-marker',
@@ -42,34 +51,69 @@ function getRatingColor(r: number): string {
 interface AddReviewProps {
   userId: string
   organisationId?: string
+  userOrgs?: { id: string; name: string }[]
   availableCuisines?: string[]
   onAdded: () => void
 }
 
-interface PlaceResult {
-  placeId: string
-  name: string
-  address: string
-  lat?: number
-  lng?: number
+type PlaceResult = PlaceSuggestion & {
+  existing?: ExistingRestaurant
 }
 
-export function AddReview({ userId, organisationId, availableCuisines = [], onAdded }: AddReviewProps) {
+type ExistingRestaurant = Pick<Restaurant, 'id' | 'name' | 'address' | 'place_id' | 'latitude' | 'longitude' | 'cuisine' | 'categories'> & {
+  reviews: Pick<VisibleReview, 'user_id'>[]
+}
+
+const geocoder = getGeocodingProvider()
+
+const EXISTING_RESTAURANT_COLUMNS = 'id, name, address, place_id, latitude, longitude, cuisine, categories, reviews:visible_reviews(user_id)'
+
+// Restaurants already in the database that could be the place being searched for
+async function fetchExistingRestaurants(nameQuery: string, placeIds: string[]): Promise<ExistingRestaurant[]> {
+  const pattern = `%${nameQuery.trim().replace(/[%_]/g, '')}%`
+  const [byName, byPlaceId] = await Promise.all([
+    supabase.from('restaurants').select(EXISTING_RESTAURANT_COLUMNS).ilike('name', pattern).limit(10),
+    placeIds.length > 0
+      ? supabase.from('restaurants').select(EXISTING_RESTAURANT_COLUMNS).in('place_id', placeIds)
+      : Promise.resolve({ data: [] }),
+  ])
+
+  const byId = new Map<string, ExistingRestaurant>()
+  for (const r of [...(byName.data || []), ...(byPlaceId.data || [])]) {
+    byId.set(r.id, r)
+  }
+  return Array.from(byId.values())
+}
+
+function reviewedByLabel(restaurant: ExistingRestaurant): string {
+  const count = countReviewers(restaurant.reviews)
+  if (count === 0) return 'already listed, no reviews yet'
+  return `already reviewed by ${count} ${count === 1 ? 'person' : 'people'}`
+}
+
+export function AddReview({ userId, organisationId, userOrgs = [], availableCuisines = [], onAdded }: AddReviewProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [nameQuery, setNameQuery] = useState('')
   const [selectedPlace, setSelectedPlace] = useState<PlaceResult | null>(null)
+  const [matchedRestaurant, setMatchedRestaurant] = useState<ExistingRestaurant | null>(null)
   const [cuisine, setCuisine] = useState('')
   const [categories, setCategories] = useState<RestaurantCategory[]>([])
   const [latitude, setLatitude] = useState<number | null>(null)
   const [longitude, setLongitude] = useState<number | null>(null)
   const [overallRating, setOverallRating] = useState('')
+  const [valueRating, setValueRating] = useState<number | null>(null)
+  const [tasteRating, setTasteRating] = useState<number | null>(null)
+  const [dimensions, setDimensions] = useState<RatingDimension[]>([])
+  const [dimensionRatings, setDimensionRatings] = useState<Record<string, number | null>>({})
   const [selectedTags, setSelectedTags] = useState<string[]>([])
   const [availableTags, setAvailableTags] = useState<Tag[]>([])
   const [comment, setComment] = useState('')
   const [dish, setDish] = useState('')
+  const [orgSharing, setOrgSharing] = useState<OrgSharingChoice>({ sharing: 'all', organisationIds: [] })
   const [loading, setLoading] = useState(false)
   const [lookupLoading, setLookupLoading] = useState(false)
   const [lookupResults, setLookupResults] = useState<PlaceResult[]>([])
+  const [existingResults, setExistingResults] = useState<ExistingRestaurant[]>([])
   const [error, setError] = useState<string | null>(null)
   const [openDropdown, setOpenDropdown] = useState<'rating' | 'tag' | 'cuisine' | null>(null)
   const [dropdownDir, setDropdownDir] = useState<'up' | 'down'>('down')
@@ -113,6 +157,23 @@ export function AddReview({ userId, organisationId, availableCuisines = [], onAd
     fetchTags()
   }, [])
 
+  // Fetch the organisation's extra rating dimensions
+  useEffect(() => {
+    if (!organisationId) {
+      setDimensions([])
+      return
+    }
+    async function fetchDimensions() {
+      const { data } = await supabase
+        .from('rating_dimensions')
+        .select('*')
+        .eq('organisation_id', organisationId!)
+        .order('position')
+      if (data) setDimensions(data)
+    }
+    fetchDimensions()
+  }, [organisationId])
+
   // Lock body scroll when modal is open
   useEffect(() => {
     if (isOpen) {
@@ -194,6 +255,7 @@ export function AddReview({ userId, organisationId, availableCuisines = [], onAd
   useEffect(() => {
     if (!nameQuery.trim() || nameQuery.length < 2 || selectedPlace) {
       setLookupResults([])
+      setExistingResults([])
       return
     }
 
@@ -201,45 +263,24 @@ export function AddReview({ userId, organisationId, availableCuisines = [], onAd
       setLookupLoading(true)
       setError(null)
 
-      const apiKey = import.meta.env.PUBLIC_GOOGLE_MAPS_API_KEY
-      if (!apiKey) {
-        setLookupLoading(false)
-        return
-      }
-
       try {
-        const response = await fetch(
-          'https://places.googleapis.com/v1/places:autocomplete',
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'X-Goog-Api-Key': apiKey,
-            },
-            body: JSON.stringify({
-              input: nameQuery,
-              includedPrimaryTypes: ['restaurant', 'cafe', 'bar', 'bakery', 'meal_takeaway'],
-            })
-          }
-        )
-
-        if (!response.ok) {
-          setLookupResults([])
-          return
-        }
-
-        const data = await response.json()
-        const suggestions = data.suggestions || []
-
-        const results: PlaceResult[] = suggestions.map((s: { placePrediction: { placeId: string; structuredFormat: { mainText: { text: string }; secondaryText: { text: string } } } }) => ({
-          placeId: s.placePrediction.placeId,
-          name: s.placePrediction.structuredFormat.mainText.text,
-          address: s.placePrediction.structuredFormat.secondaryText.text
-        }))
-        setLookupResults(results)
+        const results: PlaceResult[] = await geocoder.autocomplete(nameQuery)
+
+        // Flag suggestions we already have a row for; list the other name matches first
+        const existing = await fetchExistingRestaurants(nameQuery, results.map(r => r.placeId))
+        const matchedIds = new Set<string>()
+        const annotated = results.map(result => {
+          const match = findMatchingRestaurant(existing, { name: result.name, placeId: result.placeId, lat: result.lat, lng: result.lng })
+          if (!match) return result
+          matchedIds.add(match.id)
+          return { ...result, existing: match }
+        })
+        setLookupResults(annotated)
+        setExistingResults(existing.filter(r => !matchedIds.has(r.id)))
       } catch (err) {
-        console.error('Places API error:', err)
+        console.error(`Place search error (${geocoder.name}):`, err)
         setLookupResults([])
+        setExistingResults(await fetchExistingRestaurants(nameQuery, []))
       } finally {
         setLookupLoading(false)
       }
@@ -249,27 +290,20 @@ export function AddReview({ userId, organisationId, availableCuisines = [], onAd
   }, [nameQuery, selectedPlace])
 
   const selectResult = async (result: PlaceResult) => {
-    const apiKey = import.meta.env.PUBLIC_GOOGLE_MAPS_API_KEY
-
     try {
-      const response = await fetch(
-        `https://places.googleapis.com/v1/places/${result.placeId}?fields=location`,
-        {
-          headers: {
-            'X-Goog-Api-Key': apiKey,
-          }
-        }
-      )
-
-      if (!response.ok) throw new Error('Failed to get place details')
-
-      const data = await response.json()
-      if (data.location) {
-        setLatitude(data.location.latitude)
-        setLongitude(data.location.longitude)
-        setSelectedPlace(result)
+      const details = await geocoder.getPlaceDetails(result)
+      if (details) {
+        setLatitude(details.lat)
+        setLongitude(details.lng)
+        setSelectedPlace({ ...result, address: details.address || result.address })
         setNameQuery(result.name)
         setValidationErrors(prev => { const next = new Set(prev); next.delete('name'); return next })
+
+        const match = result.existing ?? findMatchingRestaurant(
+          await fetchExistingRestaurants(result.name, [result.placeId]),
+          { name: result.name, placeId: result.placeId, lat: details.lat, lng: details.lng }
+        )
+        setMatchedRestaurant(match)
       }
     } catch (err) {
       console.error('Place details error:', err)
@@ -277,15 +311,91 @@ export function AddReview({ userId, organisationId, availableCuisines = [], onAd
     }
 
     setLookupResults([])
+    setExistingResults([])
+  }
+
+  // Picking a restaurant we already have skips the Places lookup entirely
+  const selectExisting = (restaurant: ExistingRestaurant) => {
+    setMatchedRestaurant(restaurant)
+    setSelectedPlace({
+      placeId: restaurant.place_id || '',
+      name: restaurant.name,
+      address: restaurant.address || '',
+      existing: restaurant,
+    })
+    setNameQuery(restaurant.name)
+    setLatitude(restaurant.latitude)
+    setLongitude(restaurant.longitude)
+    if (restaurant.cuisine) setCuisine(restaurant.cuisine)
+    setCategories(ALL_CATEGORIES.map(c => c.value).filter(c => restaurant.categories.includes(c)))
+    setValidationErrors(prev => { const next = new Set(prev); next.delete('name'); return next })
+    setLookupResults([])
+    setExistingResults([])
   }
 
   const clearSelectedPlace = () => {
     setSelectedPlace(null)
+    setMatchedRestaurant(null)
     setLatitude(null)
     setLongitude(null)
     setNameQuery('')
   }
 
+  // Reuse the matching restaurant row if there is one, otherwise insert a new one
+  const resolveRestaurantId = async (name: string): Promise<string> => {
+    const placeId = selectedPlace?.placeId || null
+    const address = selectedPlace?.address || null
+    const existing = matchedRestaurant ?? findMatchingRestaurant(
+      await fetchExistingRestaurants(name, placeId ? [placeId] : []),
+      { name, placeId, lat: latitude, lng: longitude }
+    )
+
+    if (!existing) {
+      const { data: restaurant, error: restaurantError } = await supabase
+        .from('restaurants')
+        .insert({
+          name,
+          cuisine: cuisine || '',
+          categories,
+          latitude: latitude,
+          longitude: longitude,
+          place_id: placeId,
+          address,
+        })
+        .select()
+        .single()
+
+      // Someone else added the same place since we looked; use their row
+      if (restaurantError?.code === '23505' && placeId) {
+        const { data: raced, error: racedError } = await supabase
+          .from('restaurants')
+          .select('id')
+          .eq('place_id', placeId)
+          .single()
+        if (racedError) throw racedError
+        return raced.id
+      }
+      if (restaurantError) throw restaurantError
+      return restaurant.id
+    }
+
+    // Fill in anything the existing row is missing rather than overwriting it
+    const mergedCategories = [...new Set([...existing.categories, ...categories])]
+    const updates = {
+      ...(mergedCategories.length !== existing.categories.length ? { categories: mergedCategories } : {}),
+      ...(!existing.cuisine && cuisine ? { cuisine } : {}),
+      ...(!existing.place_id && placeId ? { place_id: placeId } : {}),
+      ...(!existing.address && address ? { address } : {}),
+      ...(existing.latitude === null && latitude !== null ? { latitude, longitude } : {}),
+    }
+    if (Object.keys(updates).length > 0) {
+      const { error: updateError } = await supabase.from('restaurants').update(updates).eq('id', existing.id)
+      if (updateError) throw updateError
+    }
+
+    return existing.id
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -302,29 +412,21 @@ export function AddReview({ userId, organisationId, availableCuisines = [], onAd
     setError(null)
 
     try {
-      const { data: restaurant, error: restaurantError } = await supabase
-        .from('restaurants')
-        .insert({
-          name,
-          cuisine: cuisine || '',
-          categories,
-          latitude: latitude,
-          longitude: longitude,
-        })
-        .select()
-        .single()
-
-      if (restaurantError) throw restaurantError
+      const restaurantId = await resolveRestaurantId(name)
 
       // Only add review if overall rating is provided (required)
       if (overallRating) {
+        const sharing = normaliseOrgSharing(orgSharing, userOrgs.map(o => o.id))
         const { data: review, error: reviewError } = await supabase.from('reviews').insert({
-          restaurant_id: restaurant.id,
+          restaurant_id: restaurantId,
           user_id: userId,
           rating: parseInt(overallRating),
+          value_rating: valueRating,
+          taste_rating: tasteRating,
           comment: comment || null,
           dish: dish || null,
           organisation_id: organisationId || null,
+          org_sharing: sharing.sharing,
         }).select().single()
 
         if (reviewError) throw reviewError
@@ -357,21 +459,47 @@ export function AddReview({ userId, organisationId, availableCuisines = [], onAd
           const { error: tagError } = await supabase.from('review_tags').insert(tagInserts)
           if (tagError) throw tagError
         }
+
+        // Record which orgs this review is shared with
+        if (review && sharing.organisationIds.length > 0) {
+          const { error: visibilityError } = await supabase.from('review_visibility').insert(
+            sharing.organisationIds.map(orgId => ({ review_id: review.id, organisation_id: orgId }))
+          )
+          if (visibilityError) throw visibilityError
+        }
+
+        // Add scores for the organisation's extra dimensions
+        const scoredDimensions = dimensions.filter(d => dimensionRatings[d.id] != null)
+        if (review && scoredDimensions.length > 0) {
+          const dimensionInserts = scoredDimensions.map(d => ({
+            review_id: review.id,
+            dimension_id: d.id,
+            rating: dimensionRatings[d.id]!,
+          }))
+          const { error: dimensionError } = await supabase.from('review_dimension_ratings').insert(dimensionInserts)
+          if (dimensionError) throw dimensionError
+        }
       }
 
       // Reset form
       setNameQuery('')
       setSelectedPlace(null)
+      setMatchedRestaurant(null)
       setCuisine('')
       setCategories([])
       setLatitude(null)
       setLongitude(null)
       setOverallRating('')
+      setValueRating(null)
+      setTasteRating(null)
+      setDimensionRatings({})
       setSelectedTags([])
       setComment('')
       setDish('')
+      setOrgSharing({ sharing: 'all', organisationIds: [] })
       photoRef.current?.reset()
       setLookupResults([])
+      setExistingResults([])
       setIsOpen(false)
       onAdded()
     } catch (err) {
@@ -397,16 +525,23 @@ export function AddReview({ userId, organisationId, availableCuisines = [], onAd
                 {/* Place name */}
                 <div className="receipt-place" style={validationErrors.has('name') ? { border: '1px solid var(--poor)', padding: '8px', marginLeft: '-8px', marginRight: '-8px' } : undefined}>
                   {selectedPlace ? (
-                    <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '8px' }}>
-                      <h3>{selectedPlace.name}</h3>
-                      <button
-                        type="button"
-                        onClick={clearSelectedPlace}
-                        style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '16px', color: '#666', lineHeight: 1, fontFamily: 'inherit' }}
-                      >
-                        &times;
-                      </button>
-                    </div>
+                    <>
+                      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '8px' }}>
+                        <h3>{selectedPlace.name}</h3>
+                        <button
+                          type="button"
+                          onClick={clearSelectedPlace}
+                          style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '16px', color: '#666', lineHeight: 1, fontFamily: 'inherit' }}
+                        >
+                          &times;
+                        </button>
+                      </div>
+                      {matchedRestaurant && (
+                        <div style={{ textAlign: 'center', color: '#666', fontSize: '11px', marginTop: '4px' }} data-testid="existing-restaurant-note">
+                          {reviewedByLabel(matchedRestaurant)}
+                        </div>
+                      )}
+                    </>
                   ) : (
                     <div style={{ position: 'relative' }}>
                       <input
@@ -417,8 +552,20 @@ export function AddReview({ userId, organisationId, availableCuisines = [], onAd
                         placeholder="Search for a restaurant..."
                         autoComplete="off"
                       />
-                      {lookupResults.length > 0 && (
+                      {(existingResults.length > 0 || lookupResults.length > 0) && (
                         <div className="receipt-autocomplete">
+                          {existingResults.map((restaurant) => (
+                            <button
+                              key={restaurant.id}
+                              type="button"
+                              className="receipt-autocomplete-item"
+                              onClick={() => selectExisting(restaurant)}
+                            >
+                              <div className="item-name">{restaurant.name}</div>
+                              {restaurant.address && <div className="item-address">{restaurant.address}</div>}
+                              <div className="item-existing">{reviewedByLabel(restaurant)}</div>
+                            </button>
+                          ))}
                           {lookupResults.map((result) => (
                             <button
                               key={result.placeId}
@@ -428,6 +575,7 @@ export function AddReview({ userId, organisationId, availableCuisines = [], onAd
                             >
                               <div className="item-name">{result.name}</div>
                               <div className="item-address">{result.address}</div>
+                              {result.existing && <div className="item-existing">{reviewedByLabel(result.existing)}</div>}
                             </button>
                           ))}
                         </div>
@@ -450,7 +598,7 @@ export function AddReview({ userId, organisationId, availableCuisines = [], onAd
                       attributionControl={false}
                       style={{ height: '100%', width: '100%' }}
                     >
-                      <TileLayer url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png" />
+                      <MapTiles />
                       <Marker position={[latitude, longitude]} icon={pinIcon} />
                     </MapContainer>
                   </div>
@@ -510,6 +658,20 @@ export function AddReview({ userId, organisationId, availableCuisines = [], onAd
                 <div className="receipt-dashes" />
                 <div className="receipt-section-label">Optional Details</div>
 
+                <ReceiptScoreRow label="Value" value={valueRating} onChange={setValueRating} />
+                <ReceiptScoreRow label="Taste" value={tasteRating} onChange={setTasteRating} />
+                {dimensions.map((dimension) => (
+                  <div key={dimension.id} className="receipt-dimension" data-testid="dimension-rating">
+                    <RatingSlider
+                      label={dimension.label}
+                      mode="score"
+                      max={dimension.scale_max}
+                      value={dimensionRatings[dimension.id] ?? null}
+                      onChange={(v) => setDimensionRatings(prev => ({ ...prev, [dimension.id]: v }))}
+                    />
+                  </div>
+                ))}
+
                 {/* Photo zone */}
                 <PhotoUpload ref={photoRef} onError={setError} />
 
@@ -527,6 +689,8 @@ export function AddReview({ userId, organisationId, availableCuisines = [], onAd
                   />
                 </div>
 
+                <ReceiptShareRow orgs={userOrgs} value={orgSharing} onChange={setOrgSharing} />
+
                 {/* Dish */}
                 <div className="receipt-row" style={{ alignItems: 'flex-start', marginBottom: '10px' }}>
                   <span className="receipt-label" style={{ paddingTop: '8px', minWidth: '80px' }}>Dish</span>
@@ -1,15 +1,33 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { supabase } from '../lib/supabase'
-import type { RestaurantWithReviews, Organisation, OrganisationWithMembership, OfficeLocation, RestaurantCategory, Tag } from '../lib/database.types'
+import type { RestaurantSummary, ReviewWithTags, Organisation, OrganisationWithMembership, Office, Tag, OrgSharing, RatingDimension, ReviewDimensionRating } from '../lib/database.types'
 import { MapView } from './MapView'
+import { GlobeView } from './GlobeView'
 import { RatingHistogram } from './RatingHistogram'
 import { AddReview } from './AddReview'
 import { PhotoUpload } from './PhotoUpload'
 import type { PhotoUploadHandle } from './PhotoUpload'
+import { ReceiptScoreRow } from './ReceiptScoreRow'
+import { ReceiptShareRow } from './ReceiptShareRow'
 import { TopNav } from './TopNav'
 import { FilterBar } from './FilterBar'
+import { RestaurantSearch } from './RestaurantSearch'
+import { RecommendationsShelf } from './RecommendationsShelf'
+import { LunchDecider } from './LunchDecider'
 import { useFilterStore } from '../lib/store'
-import { getRatingClass, getRatingLabel } from '../lib/ratings'
+import { getRatingClass, getRatingLabel, averageRatings } from '../lib/ratings'
+import { getDirectionsUrl } from '../lib/restaurants'
+import { averageByDimension } from '../lib/dimensions'
+import { canViewReviewDetails, normaliseOrgSharing } from '../lib/visibility'
+import { summaryScope, summaryFilters, distanceFilters, toRestaurantSummary, toRestaurantStats, nextPageCursor, EMPTY_STATS, PAGE_SIZE, MAP_MARKER_LIMIT } from '../lib/summaries'
+import type { RestaurantStats, SummaryCursor, SummaryOrder } from '../lib/summaries'
+import { resolveOffice, toOfficeLocation } from '../lib/offices'
+import { parseTileConfig } from '../lib/tiles'
+import { syncFiltersWithUrl } from '../lib/filter-params'
+import { presetFilters } from '../lib/presets'
+import { DEFAULT_WALKING_SPEED_KMH, walkingDistance, walkingMinutes, formatDistance } from '../lib/geo'
+import type { OrgSharingChoice } from '../lib/visibility'
+import type { City } from '../lib/cities'
 import type { User } from '@supabase/supabase-js'
 
 interface DashboardProps {
@@ -23,26 +41,51 @@ interface ReviewUser {
   avatarUrl: string | null
 }
 
-// Inline review form component - simplified, visibility is derived from org membership
+// Sharing as stored on a review; new reviews go to all of my orgs
+function sharingOf(sharing?: OrgSharing | null, organisationIds?: string[] | null): OrgSharingChoice {
+  return { sharing: sharing || 'all', organisationIds: organisationIds || [] }
+}
+
+// Rings drawn around the office when no walking limit is picked
+const WALK_RING_MINUTES = [5, 10, 15]
+
+// Table headers that switch the sort order
+const sortHeaderStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  padding: 0,
+  cursor: 'pointer',
+  font: 'inherit',
+  color: 'inherit',
+  textTransform: 'inherit',
+  letterSpacing: 'inherit',
+}
+
+// Inline review form component - visibility follows profile privacy and the review's org sharing
 function InlineReviewForm({
   restaurantId,
   userId,
   existingReview,
+  userOrgs,
   availableTags,
   onSaved,
   onTagCreated
 }: {
   restaurantId: string
   userId: string
-  existingReview?: { id: string; rating: number | null; comment: string | null; dish?: string | null; photo_url?: string | null; tags?: Tag[] }
+  existingReview?: { id: string; rating: number | null; value_rating?: number | null; taste_rating?: number | null; comment: string | null; dish?: string | null; photo_url?: string | null; org_sharing?: OrgSharing | null; shared_organisation_ids?: string[] | null; tags?: Tag[] }
+  userOrgs: { id: string; name: string }[]
   availableTags: Tag[]
   onSaved: () => void
   onTagCreated?: (tag: Tag) => void
 }) {
   const [overallRating, setOverallRating] = useState(existingReview?.rating?.toString() || '')
+  const [valueRating, setValueRating] = useState<number | null>(existingReview?.value_rating ?? null)
+  const [tasteRating, setTasteRating] = useState<number | null>(existingReview?.taste_rating ?? null)
   const [selectedTags, setSelectedTags] = useState<string[]>(existingReview?.tags?.map(t => t.id) || [])
   const [comment, setComment] = useState(existingReview?.comment || '')
   const [dish, setDish] = useState(existingReview?.dish || '')
+  const [orgSharing, setOrgSharing] = useState<OrgSharingChoice>(sharingOf(existingReview?.org_sharing, existingReview?.shared_organisation_ids))
   const [saving, setSaving] = useState(false)
   const [creatingTag, setCreatingTag] = useState(false)
   const [localTags, setLocalTags] = useState<Tag[]>([]) // Track newly created tags locally
@@ -70,10 +113,13 @@ function InlineReviewForm({
   // Sync state when existingReview changes (e.g., after data refresh)
   useEffect(() => {
     setOverallRating(existingReview?.rating?.toString() || '')
+    setValueRating(existingReview?.value_rating ?? null)
+    setTasteRating(existingReview?.taste_rating ?? null)
     setSelectedTags(existingReview?.tags?.map(t => t.id) || [])
     setComment(existingReview?.comment || '')
     setDish(existingReview?.dish || '')
-  }, [existingReview?.id, existingReview?.rating, existingReview?.tags, existingReview?.comment, existingReview?.dish])
+    setOrgSharing(sharingOf(existingReview?.org_sharing, existingReview?.shared_organisation_ids))
+  }, [existingReview?.id, existingReview?.rating, existingReview?.value_rating, existingReview?.taste_rating, existingReview?.tags, existingReview?.comment, existingReview?.dish, existingReview?.org_sharing, existingReview?.shared_organisation_ids])
 
   // Resize textarea when comment changes or on mount
   useEffect(() => {
@@ -137,10 +183,14 @@ function InlineReviewForm({
     setError(null)
 
     try {
+      const sharing = normaliseOrgSharing(orgSharing, userOrgs.map(o => o.id))
       const reviewData = {
         rating: parseInt(overallRating),
+        value_rating: valueRating,
+        taste_rating: tasteRating,
         comment: comment || null,
         dish: dish || null,
+        org_sharing: sharing.sharing,
       }
 
       let reviewId: string
@@ -154,8 +204,9 @@ function InlineReviewForm({
         if (error) throw error
         reviewId = existingReview.id
 
-        // Remove old tags
+        // Remove old tags and sharing
         await supabase.from('review_tags').delete().eq('review_id', reviewId)
+        await supabase.from('review_visibility').delete().eq('review_id', reviewId)
       } else {
         // Insert new review
         const { data: newReview, error } = await supabase
@@ -200,6 +251,14 @@ function InlineReviewForm({
         if (tagError) throw tagError
       }
 
+      // Record which orgs this review is shared with
+      if (sharing.organisationIds.length > 0) {
+        const { error: visibilityError } = await supabase.from('review_visibility').insert(
+          sharing.organisationIds.map(orgId => ({ review_id: reviewId, organisation_id: orgId }))
+        )
+        if (visibilityError) throw visibilityError
+      }
+
       onSaved()
     } catch (err) {
       console.error('Review save error:', err)
@@ -263,6 +322,9 @@ function InlineReviewForm({
         )}
       </div>
 
+      <ReceiptScoreRow label="Value" value={valueRating} onChange={setValueRating} />
+      <ReceiptScoreRow label="Taste" value={tasteRating} onChange={setTasteRating} />
+
       <div className="receipt-dashes" />
 
       {/* Photo */}
@@ -300,6 +362,8 @@ function InlineReviewForm({
         />
       </div>
 
+      <ReceiptShareRow orgs={userOrgs} value={orgSharing} onChange={setOrgSharing} />
+
       {/* Tags */}
       <div className="receipt-row" style={{ alignItems: 'flex-start' }}>
         <span className="receipt-label" style={{ paddingTop: '4px' }}>Tags</span>
@@ -398,39 +462,65 @@ function InlineReviewForm({
 
 export function Dashboard({ organisationSlug }: DashboardProps) {
   const [user, setUser] = useState<User | null>(null)
-  const [restaurants, setRestaurants] = useState<RestaurantWithReviews[]>([])
+  // One page at a time for the table, the current viewport for the map
+  const [restaurants, setRestaurants] = useState<RestaurantSummary[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [mapRestaurants, setMapRestaurants] = useState<RestaurantSummary[]>([])
+  const [showGlobe, setShowGlobe] = useState(false)
+  const [worldRestaurants, setWorldRestaurants] = useState<RestaurantSummary[]>([])
+  const [mapBounds, setMapBounds] = useState<[number, number, number, number] | null>(null)
+  const [stats, setStats] = useState<RestaurantStats>(EMPTY_STATS)
+  const [sortBy, setSortBy] = useState<SummaryOrder>('score')
+  const [walkingSpeedKmh, setWalkingSpeedKmh] = useState(DEFAULT_WALKING_SPEED_KMH)
   const [users, setUsers] = useState<ReviewUser[]>([])
   const [availableTags, setAvailableTags] = useState<Tag[]>([])
   const [loading, setLoading] = useState(true)
-  const [selectedRestaurant, setSelectedRestaurant] = useState<RestaurantWithReviews | null>(null)
+  const [selectedRestaurant, setSelectedRestaurant] = useState<RestaurantSummary | null>(null)
+  // Full reviews are only loaded for the restaurant whose popup is open
+  const [popupReviews, setPopupReviews] = useState<ReviewWithTags[]>([])
+  const [popupReviewsVersion, setPopupReviewsVersion] = useState(0)
   const [selectedPhotoReviewId, setSelectedPhotoReviewId] = useState<string | null>(null)
   const [addReviewOpen, setAddReviewOpen] = useState(false)
 
   // Organisation state
   const [currentOrg, setCurrentOrg] = useState<Organisation | null>(null)
-  const [_currentOrgMemberIds, setCurrentOrgMemberIds] = useState<Set<string>>(new Set())
   const [userOrgs, setUserOrgs] = useState<OrganisationWithMembership[]>([])
   const [_userOrgIds, setUserOrgIds] = useState<Set<string>>(new Set())
   const [_isAdmin, setIsAdmin] = useState(false)
-  const [officeLocation, setOfficeLocation] = useState<OfficeLocation | null>(null)
+  const [offices, setOffices] = useState<Office[]>([])
+  const [homeOfficeIds, setHomeOfficeIds] = useState<Map<string, string | null>>(new Map())
+  const [pickedOfficeId, setPickedOfficeId] = useState<string | null>(null)
 
   const {
     selectedCategories,
     minOverallRating,
+    minValueRating,
+    minTasteRating,
     socialFilter,
     selectedUserIds,
     selectedTagIds,
     selectedCuisines,
-    highlightedRestaurantId: _highlightedRestaurantId,
+    selectedBounds,
+    selectedRegion,
+    maxWalkMinutes,
+    calibrateRatings,
+    highlightedRestaurantId,
     setHighlightedRestaurantId,
+    setSelectedBounds,
+    setMapFocus,
   } = useFilterStore()
 
+  // Filters live in the query string so links can be shared
+  useEffect(() => syncFiltersWithUrl(), [])
+
   // Following state
   const [followingIds, setFollowingIds] = useState<Set<string>>(new Set())
-  const [followerIds, setFollowerIds] = useState<Set<string>>(new Set())
   const [followingUsers, setFollowingUsers] = useState<{ id: string; name: string }[]>([])
   const [orgMembers, setOrgMembers] = useState<{ id: string; name: string }[]>([])
   const [orgMembersByOrgId, setOrgMembersByOrgId] = useState<Map<string, Set<string>>>(new Map())
+  const [popupDimensions, setPopupDimensions] = useState<RatingDimension[]>([])
+  const [popupDimensionRatings, setPopupDimensionRatings] = useState<ReviewDimensionRating[]>([])
 
   // Fetch user's following list with names
   const fetchFollowing = useCallback(async (userId: string) => {
@@ -460,36 +550,25 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
     }
   }, [])
 
-  // Fetch user's followers list
-  const fetchFollowers = useCallback(async (userId: string) => {
-    const { data: follows } = await supabase
-      .from('user_follows')
-      .select('follower_id')
-      .eq('following_id', userId)
-
-    if (follows && follows.length > 0) {
-      setFollowerIds(new Set(follows.map(f => f.follower_id)))
-    } else {
-      setFollowerIds(new Set())
-    }
-  }, [])
-
   // Fetch user's organisations
   const fetchUserOrgs = useCallback(async (userId: string) => {
     // First get memberships
     const { data: memberships, error: memberError } = await supabase
       .from('organisation_members')
-      .select('organisation_id, role')
+      .select('organisation_id, role, office_id')
       .eq('user_id', userId)
 
     if (memberError || !memberships || memberships.length === 0) {
       setUserOrgs([])
       setUserOrgIds(new Set())
+      setHomeOfficeIds(new Map())
       setIsAdmin(false)
       setOrgMembers([])
       return
     }
 
+    setHomeOfficeIds(new Map(memberships.map(m => [m.organisation_id, m.office_id])))
+
     // Then fetch the organisations
     const orgIds = memberships.map(m => m.organisation_id)
     const { data: orgsData } = await supabase
@@ -550,163 +629,172 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
     }
   }, [organisationSlug])
 
-  const fetchData = useCallback(async (currentUserId?: string | null) => {
+  const fetchData = useCallback(async () => {
     // Fetch current organisation if slug is provided
-    let office: OfficeLocation | null = null
-    let visibleReviewerIds = new Set<string>()
-
     if (organisationSlug) {
-      // Org view: show reviews from members of this specific org
       const { data: orgData } = await supabase
         .from('organisations')
         .select('*')
         .eq('slug', organisationSlug)
         .single()
 
-      if (orgData) {
-        setCurrentOrg(orgData)
-        office = orgData.office_location as OfficeLocation | null
-        setOfficeLocation(office)
-
-        // Fetch members of this org - their reviews will be visible
-        const { data: members } = await supabase
-          .from('organisation_members')
-          .select('user_id')
-          .eq('organisation_id', orgData.id)
-
-        if (members) {
-          visibleReviewerIds = new Set(members.map(m => m.user_id))
-        }
-      }
+      if (orgData) setCurrentOrg(orgData)
     } else {
-      // Global view - show reviews from all orgs the user is a member of
       setCurrentOrg(null)
-      setOfficeLocation(null)
-
-      if (currentUserId) {
-        // Get all orgs the user is in
-        const { data: userMemberships } = await supabase
-          .from('organisation_members')
-          .select('organisation_id')
-          .eq('user_id', currentUserId)
-
-        if (userMemberships && userMemberships.length > 0) {
-          const userOrgIdsList = userMemberships.map(m => m.organisation_id)
-
-          // Get all members of those orgs
-          const { data: allOrgMembers } = await supabase
-            .from('organisation_members')
-            .select('user_id')
-            .in('organisation_id', userOrgIdsList)
-
-          if (allOrgMembers) {
-            visibleReviewerIds = new Set(allOrgMembers.map(m => m.user_id))
-          }
-        }
-      }
     }
-    setCurrentOrgMemberIds(visibleReviewerIds)
 
     // Fetch all tags
     const { data: tagsData } = await supabase.from('tags').select('*').order('name')
     if (tagsData) setAvailableTags(tagsData)
+  }, [organisationSlug])
 
-    // Fetch all restaurants with reviews
-    const { data: restaurantsData } = await supabase
-      .from('restaurants')
-      .select('*, reviews(*)')
-      .order('name')
-
-    // Fetch all review_tags with tag details
-    const { data: reviewTagsData } = await supabase
-      .from('review_tags')
-      .select('review_id, tag_id, tags(*)')
-
-    // Build a map of review_id -> tags
-    const reviewTagsMap = new Map<string, Tag[]>()
-    if (reviewTagsData) {
-      for (const rt of reviewTagsData) {
-        if (!reviewTagsMap.has(rt.review_id)) {
-          reviewTagsMap.set(rt.review_id, [])
-        }
-        if (rt.tags) {
-          reviewTagsMap.get(rt.review_id)!.push(rt.tags as Tag)
-        }
-      }
+  // Determine active office location (from current org OR from social filter org)
+  const activeOrg = socialFilter !== 'everyone' && socialFilter !== 'following' && socialFilter !== 'just_me'
+    ? userOrgs.find(o => o.slug === socialFilter)
+    : null
+  const officeOrgId = currentOrg?.id || activeOrg?.id || null
+
+  // Offices of that org; a pick on the map only lasts while the org stays the same
+  useEffect(() => {
+    setPickedOfficeId(null)
+    if (!officeOrgId) {
+      setOffices([])
+      return
     }
+    supabase
+      .from('office_locations')
+      .select('*')
+      .eq('organisation_id', officeOrgId)
+      .order('position')
+      .then(({ data }) => setOffices(data || []))
+  }, [officeOrgId])
+
+  const orgOffices = useMemo(() => offices.filter(o => o.organisation_id === officeOrgId), [offices, officeOrgId])
+  const globeOffices = useMemo(() => orgOffices.map(o => ({ name: o.name, ...toOfficeLocation(o) })), [orgOffices])
+  const activeOffice = resolveOffice(orgOffices, officeOrgId ? homeOfficeIds.get(officeOrgId) ?? null : null, pickedOfficeId)
+  const activeOfficeLocation = activeOffice ? toOfficeLocation(activeOffice) : null
+  const activeOrgName = currentOrg?.name || activeOrg?.name || null
+  const officeLabel = activeOffice && orgOffices.length > 1
+    ? `${activeOrgName} · ${activeOffice.name}`
+    : activeOrgName
+  const showOffice = !!currentOrg || !!activeOrg
 
-    if (restaurantsData) {
-      const withCalculations = restaurantsData.map((r) => {
-        // Mark each review with whether the reviewer is an org member (for visibility)
-        // and attach their tags
-        const reviews = (r.reviews || []).map(rev => ({
-          ...rev,
-          isOrgMember: rev.user_id ? visibleReviewerIds.has(rev.user_id) : false,
-          tags: reviewTagsMap.get(rev.id) || []
-        }))
+  // Walks start from the office of the org being viewed
+  const walkOrigin = showOffice ? activeOfficeLocation : null
+  const walkRings = walkOrigin
+    ? (maxWalkMinutes !== null ? [maxWalkMinutes] : WALK_RING_MINUTES).map(minutes => ({
+        minutes,
+        metres: walkingDistance(minutes, walkingSpeedKmh),
+      }))
+    : []
+  const order: SummaryOrder = (sortBy === 'distance' && !walkOrigin) || (sortBy === 'for_you' && !user) ? 'score' : sortBy
+
+  // Aggregates per restaurant for the current social filter and filters, computed in the database
+  const queryKey = JSON.stringify({
+    ...summaryScope({ socialFilter, selectedUserIds, signedIn: !!user, userOrgs }),
+    ...summaryFilters({ minOverallRating, minValueRating, minTasteRating, selectedTagIds, selectedCuisines, selectedCategories, selectedBounds, selectedRegion, calibrateRatings }),
+    ...distanceFilters(walkOrigin, maxWalkMinutes, walkingSpeedKmh),
+  })
 
-        // Calculate average rating
-        const ratings = reviews
-          .filter((rev) => rev.rating !== null)
-          .map((rev) => rev.rating as number)
-        const avgRating = ratings.length > 0
-          ? ratings.reduce((a, b) => a + b, 0) / ratings.length
-          : null
-
-        // Calculate top tags (by frequency across all reviews)
-        const tagCounts = new Map<string, { tag: Tag; count: number }>()
-        for (const rev of reviews) {
-          for (const tag of rev.tags || []) {
-            const existing = tagCounts.get(tag.id)
-            if (existing) {
-              existing.count++
-            } else {
-              tagCounts.set(tag.id, { tag, count: 1 })
-            }
-          }
-        }
-        const topTags = Array.from(tagCounts.values())
-          .sort((a, b) => b.count - a.count)
-          .slice(0, 2)
+  // The table loads a page at a time; a new query starts again from the first page
+  const pageRequestRef = useRef(0)
+  const fetchPage = useCallback(async (cursor?: SummaryCursor) => {
+    const request = cursor ? pageRequestRef.current : ++pageRequestRef.current
+    const { data, error } = await supabase.rpc('restaurant_summaries', {
+      ...JSON.parse(queryKey),
+      ...cursor,
+      sort_by: order,
+      page_size: PAGE_SIZE,
+    })
+    if (request !== pageRequestRef.current) return
+    if (error) {
+      console.error('Failed to load restaurants:', error)
+    } else {
+      const page = (data || []).map(toRestaurantSummary)
+      setRestaurants(prev => cursor ? [...prev, ...page] : page)
+      setHasMore(page.length === PAGE_SIZE)
+    }
+    setLoading(false)
+  }, [queryKey, order])
 
-        return {
-          ...r,
-          reviews,
-          avgRating,
-          topTags,
-        }
-      })
-      setRestaurants(withCalculations)
-
-      // Fetch profiles to get display names
-      const userIds = new Set<string>()
-      for (const restaurant of withCalculations) {
-        for (const review of restaurant.reviews) {
-          if (review.user_id) {
-            userIds.add(review.user_id)
-          }
-        }
-      }
+  const fetchStats = useCallback(async () => {
+    const { data, error } = await supabase.rpc('restaurant_stats', JSON.parse(queryKey))
+    if (error) {
+      console.error('Failed to load stats:', error)
+    } else {
+      setStats(toRestaurantStats(data?.[0]))
+    }
+  }, [queryKey])
+
+  // The map only asks for the restaurants inside its viewport
+  const mapRequestRef = useRef(0)
+  const fetchMapRestaurants = useCallback(async () => {
+    if (!mapBounds) return
+    const request = ++mapRequestRef.current
+    const { data, error } = await supabase.rpc('restaurant_summaries', {
+      ...JSON.parse(queryKey),
+      bounds: mapBounds,
+      page_size: MAP_MARKER_LIMIT,
+    })
+    if (request !== mapRequestRef.current) return
+    if (error) {
+      console.error('Failed to load map restaurants:', error)
+    } else {
+      setMapRestaurants((data || []).map(toRestaurantSummary))
+    }
+  }, [queryKey, mapBounds])
 
-      if (userIds.size > 0) {
-        const { data: profiles } = await supabase
-          .from('profiles')
-          .select('id, display_name, is_private, avatar_url')
-          .in('id', Array.from(userIds))
+  useEffect(() => {
+    fetchPage()
+  }, [fetchPage])
 
-        if (profiles) {
-          setUsers(profiles.map(p => ({
-            id: p.id,
-            email: p.display_name || p.id.slice(0, 8),
-            isPrivate: p.is_private || false,
-            avatarUrl: p.avatar_url || null
-          })))
-        }
+  useEffect(() => {
+    fetchStats()
+  }, [fetchStats])
+
+  useEffect(() => {
+    fetchMapRestaurants()
+  }, [fetchMapRestaurants])
+
+  // The globe shows everywhere the filters match, whatever the map is looking at
+  const worldRequestRef = useRef(0)
+  useEffect(() => {
+    if (!showGlobe) return
+    const request = ++worldRequestRef.current
+    const { bounds: _bounds, region: _region, ...worldwide } = JSON.parse(queryKey)
+    supabase.rpc('restaurant_summaries', worldwide).then(({ data, error }) => {
+      if (request !== worldRequestRef.current) return
+      if (error) {
+        console.error('Failed to load restaurants worldwide:', error)
+      } else {
+        setWorldRestaurants((data || []).map(toRestaurantSummary))
       }
-    }
+    })
+  }, [showGlobe, queryKey])
 
-    setLoading(false)
-  }, [organisationSlug])
+  // Picking a city on the globe filters to it and moves the map there
+  const handleCityClick = (city: City) => {
+    setSelectedBounds(city.bounds)
+    setMapFocus(city.bounds)
+    setShowGlobe(false)
+  }
+
+  const loadMore = async () => {
+    const last = restaurants[restaurants.length - 1]
+    if (!last) return
+    setLoadingMore(true)
+    await fetchPage(nextPageCursor(last))
+    setLoadingMore(false)
+  }
+
+  // After a review is saved: new tags, new aggregates, and the open popup's reviews
+  const refreshData = useCallback(() => {
+    fetchData()
+    fetchPage()
+    fetchStats()
+    fetchMapRestaurants()
+    setPopupReviewsVersion(v => v + 1)
+  }, [fetchData, fetchPage, fetchStats, fetchMapRestaurants])
 
   useEffect(() => {
     let isMounted = true
@@ -717,10 +805,9 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
       if (data.user) {
         fetchUserOrgs(data.user.id)
         fetchFollowing(data.user.id)
-        fetchFollowers(data.user.id)
       }
       // Fetch data after auth check completes (whether logged in or not)
-      fetchData(data.user?.id)
+      fetchData()
     })
 
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
@@ -731,15 +818,13 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
         if (session?.user) {
           fetchUserOrgs(session.user.id)
           fetchFollowing(session.user.id)
-          fetchFollowers(session.user.id)
-          fetchData(session.user.id)
+          fetchData()
         } else {
           setUserOrgs([])
           setUserOrgIds(new Set())
           setIsAdmin(false)
           setFollowingIds(new Set())
-          setFollowerIds(new Set())
-          fetchData(null)
+          fetchData()
         }
       }
     })
@@ -748,12 +833,12 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
       isMounted = false
       subscription.unsubscribe()
     }
-  }, [fetchData, fetchUserOrgs, fetchFollowing, fetchFollowers])
+  }, [fetchData, fetchUserOrgs, fetchFollowing])
 
   // Keyboard navigation for photo lightbox
   useEffect(() => {
     if (!selectedPhotoReviewId || !selectedRestaurant) return
-    const photosInReviews = selectedRestaurant.reviews.filter(r => r.photo_url)
+    const photosInReviews = popupReviews.filter(r => r.photo_url)
     const handleKeyDown = (e: KeyboardEvent) => {
       const currentIdx = photosInReviews.findIndex(r => r.id === selectedPhotoReviewId)
       if (e.key === 'ArrowRight' && currentIdx < photosInReviews.length - 1) {
@@ -766,191 +851,155 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
     }
     document.addEventListener('keydown', handleKeyDown)
     return () => document.removeEventListener('keydown', handleKeyDown)
-  }, [selectedPhotoReviewId, selectedRestaurant])
+  }, [selectedPhotoReviewId, selectedRestaurant, popupReviews])
+
+  // The signed-in user's walking pace, for the walking filter
+  const userId = user?.id
+  useEffect(() => {
+    if (!userId) {
+      setWalkingSpeedKmh(DEFAULT_WALKING_SPEED_KMH)
+      return
+    }
+    supabase
+      .from('profiles')
+      .select('walking_speed_kmh')
+      .eq('id', userId)
+      .single()
+      .then(({ data }) => {
+        if (data) setWalkingSpeedKmh(Number(data.walking_speed_kmh))
+      })
+  }, [userId])
+
+  // The user's default preset, unless they arrived on a link with filters of its own
+  useEffect(() => {
+    if (!userId || window.location.search) return
+    supabase
+      .from('filter_presets')
+      .select('query')
+      .eq('user_id', userId)
+      .eq('is_default', true)
+      .single()
+      .then(({ data }) => {
+        if (data && !window.location.search) useFilterStore.setState(presetFilters(data))
+      })
+  }, [userId])
 
   // Keep selectedRestaurant in sync when restaurants data refreshes
   useEffect(() => {
     if (selectedRestaurant) {
       const updated = restaurants.find(r => r.id === selectedRestaurant.id)
+        || mapRestaurants.find(r => r.id === selectedRestaurant.id)
       if (updated && updated !== selectedRestaurant) {
         setSelectedRestaurant(updated)
       }
     }
-  }, [restaurants, selectedRestaurant])
+  }, [restaurants, mapRestaurants, selectedRestaurant])
 
-  // Determine which reviews are "relevant" based on social filter
-  const getRelevantReviews = (reviews: typeof restaurants[0]['reviews']) => {
-    if (selectedUserIds.length > 0) {
-      return reviews.filter(rev => rev.user_id && selectedUserIds.includes(rev.user_id))
-    }
-    if (socialFilter === 'everyone' || !user) {
-      return reviews
-    }
-    if (socialFilter === 'just_me') {
-      return reviews.filter(rev => rev.user_id === user.id)
-    }
-    if (socialFilter === 'following') {
-      return reviews.filter(rev => rev.user_id && followingIds.has(rev.user_id))
-    }
-    if (socialFilter === 'followers') {
-      return reviews.filter(rev => rev.user_id && followerIds.has(rev.user_id))
-    }
-    // Organisation filter
-    const org = userOrgs.find(o => o.slug === socialFilter)
-    if (org) {
-      const orgMemberIds = orgMembersByOrgId.get(org.id)
-      if (orgMemberIds) {
-        return reviews.filter(rev => rev.user_id && orgMemberIds.has(rev.user_id))
-      }
-    }
-    return reviews
-  }
-
-  // Filter restaurants and recalculate averages based on social filter
-  const filteredRestaurants = restaurants.map(r => {
-    const relevantReviews = getRelevantReviews(r.reviews)
-
-    // Recalculate averages from relevant reviews only
-    const ratings = relevantReviews
-      .filter(rev => rev.rating !== null)
-      .map(rev => rev.rating as number)
-    const filteredAvgRating = ratings.length > 0
-      ? ratings.reduce((a, b) => a + b, 0) / ratings.length
-      : null
-
-    // Recalculate top tags from relevant reviews
-    const tagCounts = new Map<string, { tag: Tag; count: number }>()
-    for (const rev of relevantReviews) {
-      for (const tag of rev.tags || []) {
-        const existing = tagCounts.get(tag.id)
-        if (existing) {
-          existing.count++
-        } else {
-          tagCounts.set(tag.id, { tag, count: 1 })
-        }
-      }
-    }
-    const filteredTopTags = Array.from(tagCounts.values())
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 2)
-
-    return {
-      ...r,
-      filteredAvgRating,
-      filteredTopTags,
-      relevantReviewCount: relevantReviews.length,
-    }
-  }).filter(r => {
-    // Category filter
-    if (selectedCategories.length > 0) {
-      const restaurantCategories = (r.categories || []) as RestaurantCategory[]
-      const hasMatchingCategory = selectedCategories.some(cat => restaurantCategories.includes(cat))
-      if (!hasMatchingCategory) return false
-    }
-
-    // Must have relevant reviews when social filter is active
-    if (selectedUserIds.length > 0 || (socialFilter !== 'everyone' && user)) {
-      if (r.relevantReviewCount === 0) return false
-    }
+  // Load the open restaurant's reviews, their tags and reviewer profiles
+  const selectedRestaurantId = selectedRestaurant?.id ?? null
 
-    // Overall rating filter (use filtered average)
-    if (minOverallRating !== null && r.filteredAvgRating !== null) {
-      if (r.filteredAvgRating < minOverallRating) return false
+  useEffect(() => {
+    if (!selectedRestaurantId) {
+      setPopupReviews([])
+      return
     }
 
-    // Tag filter - restaurant must have at least one review with ALL selected tags
-    if (selectedTagIds.length > 0) {
-      const restaurantTagIds = new Set<string>()
-      for (const review of r.reviews) {
-        for (const tag of review.tags || []) {
-          restaurantTagIds.add(tag.id)
-        }
+    let cancelled = false
+    async function fetchPopupReviews() {
+      const { data: reviews } = await supabase
+        .from('visible_reviews')
+        .select('*')
+        .eq('restaurant_id', selectedRestaurantId!)
+      if (cancelled || !reviews) return
+
+      const reviewIds = reviews.map(r => r.id)
+      const reviewerIds = [...new Set(reviews.map(r => r.user_id).filter((id): id is string => !!id))]
+      const [{ data: reviewTagsData }, { data: profiles }] = await Promise.all([
+        supabase.from('review_tags').select('review_id, tags(*)').in('review_id', reviewIds),
+        supabase.from('profiles').select('id, display_name, is_private, avatar_url').in('id', reviewerIds),
+      ])
+      if (cancelled) return
+
+      const reviewTagsMap = new Map<string, Tag[]>()
+      for (const rt of reviewTagsData || []) {
+        if (!reviewTagsMap.has(rt.review_id)) reviewTagsMap.set(rt.review_id, [])
+        if (rt.tags) reviewTagsMap.get(rt.review_id)!.push(rt.tags as Tag)
       }
-      const hasAllSelectedTags = selectedTagIds.every(tagId => restaurantTagIds.has(tagId))
-      if (!hasAllSelectedTags) return false
-    }
 
-    // Cuisine filter
-    if (selectedCuisines.length > 0) {
-      if (!r.cuisine || !selectedCuisines.includes(r.cuisine)) return false
+      setUsers((profiles || []).map(p => ({
+        id: p.id,
+        email: p.display_name || p.id.slice(0, 8),
+        isPrivate: p.is_private || false,
+        avatarUrl: p.avatar_url || null
+      })))
+      setPopupReviews(reviews.map(rev => ({ ...rev, tags: reviewTagsMap.get(rev.id) || [] })))
     }
+    fetchPopupReviews()
+    return () => { cancelled = true }
+  }, [selectedRestaurantId, popupReviewsVersion])
+
+  // Markers in view, plus the highlighted table row so the map can pan to it
+  const highlightedRow = restaurants.find(r => r.id === highlightedRestaurantId)
+  const mapMarkers = highlightedRow && !mapRestaurants.some(r => r.id === highlightedRow.id)
+    ? [...mapRestaurants, highlightedRow]
+    : mapRestaurants
+
+  // A place from a shared link may be off screen: move the map there so its marker loads and opens
+  const locatedRestaurantRef = useRef<string | null>(null)
+  const highlightedOnMap = mapMarkers.some(r => r.id === highlightedRestaurantId)
+  useEffect(() => {
+    if (!highlightedRestaurantId || highlightedOnMap || locatedRestaurantRef.current === highlightedRestaurantId) return
+    locatedRestaurantRef.current = highlightedRestaurantId
+    supabase
+      .from('restaurants')
+      .select('latitude, longitude')
+      .eq('id', highlightedRestaurantId)
+      .single()
+      .then(({ data }) => {
+        if (!data || data.latitude === null || data.longitude === null) return
+        const lat = Number(data.latitude)
+        const lng = Number(data.longitude)
+        setMapFocus([lng - 0.003, lat - 0.002, lng + 0.003, lat + 0.002])
+      })
+  }, [highlightedRestaurantId, highlightedOnMap, setMapFocus])
 
-    return true
-  }).sort((a, b) => {
-    // Sort by overall rating (descending)
-    const aRating = a.filteredAvgRating ?? 0
-    const bRating = b.filteredAvgRating ?? 0
-    if (aRating === 0 && bRating === 0) return 0
-    if (aRating === 0) return 1
-    if (bRating === 0) return -1
-    return bRating - aRating
-  })
-
-  // Determine active office location (from current org OR from social filter org)
-  const activeOrg = socialFilter !== 'everyone' && socialFilter !== 'following' && socialFilter !== 'just_me'
-    ? userOrgs.find(o => o.slug === socialFilter)
-    : null
-  const activeOfficeLocation = currentOrg?.office_location as OfficeLocation | null
-    || (activeOrg?.office_location as OfficeLocation | null)
-    || officeLocation
-  const activeOrgName = currentOrg?.name || activeOrg?.name || null
-  const showOffice = !!currentOrg || !!activeOrg
+  // Extra rating dimensions come from the org being viewed, scored by its members only
+  const dimensionOrgId = currentOrg?.id || activeOrg?.id || null
+  const selectedReviewIds = popupReviews.map(r => r.id).join(',')
 
-  // Helper to check if a review is visible (for stats calculation)
-  // Same logic as isReviewVisible - based on profile privacy
-  const isReviewVisibleForStats = (review: { user_id: string | null }): boolean => {
-    if (!review.user_id) return false
-    const reviewer = users.find(u => u.id === review.user_id)
-    if (!reviewer) return false
-    // Public profiles visible to all
-    if (!reviewer.isPrivate) return true
-    // Private profiles: own reviews
-    if (user && review.user_id === user.id) return true
-    // Private profiles: followers can see
-    if (followingIds.has(review.user_id)) return true
-    // Private profiles: org members can see
-    for (const [_orgId, memberIds] of orgMembersByOrgId) {
-      if (memberIds.has(review.user_id) && user && memberIds.has(user.id)) {
-        return true
-      }
+  useEffect(() => {
+    if (!dimensionOrgId || !selectedReviewIds) {
+      setPopupDimensions([])
+      setPopupDimensionRatings([])
+      return
     }
-    return false
-  }
-
-  // Calculate stats based only on visible reviews
-  const getVisibleStats = () => {
-    let totalVisibleReviews = 0
-    const restaurantVisibleRatings: { id: string; avgRating: number }[] = []
 
-    for (const r of restaurants) {
-      const visibleReviews = r.reviews.filter(rev => isReviewVisibleForStats(rev))
-      totalVisibleReviews += visibleReviews.length
-
-      const ratings = visibleReviews
-        .filter(rev => rev.rating !== null)
-        .map(rev => rev.rating as number)
-
-      if (ratings.length > 0) {
-        const avg = ratings.reduce((a, b) => a + b, 0) / ratings.length
-        restaurantVisibleRatings.push({ id: r.id, avgRating: avg })
+    let cancelled = false
+    async function fetchDimensionRatings() {
+      const { data: dimensions } = await supabase
+        .from('rating_dimensions')
+        .select('*')
+        .eq('organisation_id', dimensionOrgId!)
+        .order('position')
+      if (cancelled) return
+      setPopupDimensions(dimensions || [])
+      if (!dimensions || dimensions.length === 0) {
+        setPopupDimensionRatings([])
+        return
       }
-    }
-
-    const avgRating = restaurantVisibleRatings.length > 0
-      ? restaurantVisibleRatings.reduce((sum, r) => sum + r.avgRating, 0) / restaurantVisibleRatings.length
-      : 0
 
-    return {
-      total: restaurants.length,
-      reviews: totalVisibleReviews,
-      avgRating,
-      topRated: restaurantVisibleRatings.filter(r => r.avgRating >= 8).length,
+      const { data: ratings } = await supabase
+        .from('review_dimension_ratings')
+        .select('*')
+        .in('review_id', selectedReviewIds.split(','))
+      if (!cancelled) setPopupDimensionRatings(ratings || [])
     }
-  }
+    fetchDimensionRatings()
+    return () => { cancelled = true }
+  }, [dimensionOrgId, selectedReviewIds])
 
-  const stats = getVisibleStats()
 
-  const handleRowClick = (restaurant: RestaurantWithReviews) => {
+  const handleRowClick = (restaurant: RestaurantSummary) => {
     setSelectedRestaurant(restaurant)
     setAddReviewOpen(false)
     setSelectedPhotoReviewId(null)
@@ -964,41 +1013,27 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
     document.body.style.overflow = ''
   }
 
-  const handleMapClick = (e: React.MouseEvent, restaurant: RestaurantWithReviews) => {
+  const handleMapClick = (e: React.MouseEvent, restaurant: RestaurantSummary) => {
     e.stopPropagation()
     setHighlightedRestaurantId(restaurant.id)
     document.querySelector('.map-container')?.scrollIntoView({ behavior: 'smooth', block: 'center' })
   }
 
+  // Search results and recommendations open like a shared link: the map moves to the place and highlights it
+  const showOnMap = (restaurant: { id: string }) => {
+    setHighlightedRestaurantId(restaurant.id)
+    document.querySelector('.map-container')?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }
+
   // Check if a review's details (name, comment, tags) should be visible
   // Visibility is based on profile privacy:
   // - Public profile: visible to everyone
   // - Private profile: visible to followers, org members, and themselves
   const isReviewVisible = (reviewUserId: string | null): boolean => {
-    // If reviewer not found, hide their details
+    // Masked rows from visible_reviews have no reviewer
     if (!reviewUserId) return false
-
-    // Check if reviewer exists in our users list
     const reviewer = users.find(u => u.id === reviewUserId)
-    if (!reviewer) return false
-
-    // Public profiles are visible to everyone
-    if (!reviewer.isPrivate) return true
-
-    // Private profiles: own reviews are always visible
-    if (user && reviewUserId === user.id) return true
-
-    // Private profiles: followers can see
-    if (followingIds.has(reviewUserId)) return true
-
-    // Private profiles: org members can see (shares any org with viewer)
-    for (const [_orgId, memberIds] of orgMembersByOrgId) {
-      if (memberIds.has(reviewUserId) && user && memberIds.has(user.id)) {
-        return true
-      }
-    }
-
-    return false
+    return canViewReviewDetails(reviewer, { id: user?.id ?? null, followingIds, orgMembersByOrgId })
   }
 
   if (loading) {
@@ -1031,10 +1066,10 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
       {/* Stats - compact inline */}
       <div className="container" style={{ paddingTop: '24px', paddingBottom: '24px', borderBottom: '1px solid var(--border)' }}>
         <div className="stats-row" data-testid="stats-row" style={{ display: 'flex', gap: '32px', fontSize: '13px', color: 'var(--text-muted)' }}>
-          <span data-testid="stat-places"><strong style={{ color: 'var(--text)', fontWeight: 500 }}>{stats.total}</strong> places</span>
-          <span data-testid="stat-reviews"><strong style={{ color: 'var(--text)', fontWeight: 500 }}>{stats.reviews}</strong> reviews</span>
-          <span data-testid="stat-avg-rating"><strong style={{ color: 'var(--text)', fontWeight: 500 }}>{stats.avgRating > 0 ? stats.avgRating.toFixed(1) : '—'}</strong> avg rating</span>
-          <span data-testid="stat-top-rated"><strong style={{ color: 'var(--great)', fontWeight: 500 }}>{stats.topRated}</strong> top rated</span>
+          <span data-testid="stat-places"><strong style={{ color: 'var(--text)', fontWeight: 500 }}>{stats.placeCount}</strong> places</span>
+          <span data-testid="stat-reviews"><strong style={{ color: 'var(--text)', fontWeight: 500 }}>{stats.reviewCount}</strong> reviews</span>
+          <span data-testid="stat-avg-rating"><strong style={{ color: 'var(--text)', fontWeight: 500 }}>{stats.avgRating !== null ? stats.avgRating.toFixed(1) : '—'}</strong> avg rating</span>
+          <span data-testid="stat-top-rated"><strong style={{ color: 'var(--great)', fontWeight: 500 }}>{stats.topRatedCount}</strong> top rated</span>
         </div>
       </div>
 
@@ -1042,23 +1077,60 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
       <section style={{ padding: '60px 0 40px' }}>
         <div className="container">
           <div style={{ marginBottom: '24px' }}>
-            <h2>The Neighbourhood</h2>
+            <div style={{ display: 'flex', alignItems: 'baseline', justifyContent: 'space-between', gap: '16px' }}>
+              <h2>The Neighbourhood</h2>
+              <button
+                type="button"
+                className={`chip sm ${showGlobe ? 'active' : ''}`}
+                onClick={() => setShowGlobe(!showGlobe)}
+                data-testid="toggle-globe"
+              >
+                Worldwide
+              </button>
+            </div>
             <p style={{ color: 'var(--text-secondary)', marginTop: '8px' }}>
-              Click a marker for details, or find a place in the list below
+              {showGlobe
+                ? "Everywhere we've eaten. Pick a city to see it on the map"
+                : 'Click a marker for details, or find a place in the list below'}
             </p>
           </div>
+          {showGlobe && (
+            <div style={{ marginBottom: '24px' }}>
+              <GlobeView restaurants={worldRestaurants} offices={globeOffices} onCityClick={handleCityClick} />
+            </div>
+          )}
           <MapView
-            restaurants={filteredRestaurants}
+            restaurants={mapMarkers}
             officeLocation={activeOfficeLocation}
             showOfficeMarker={showOffice}
-            orgName={activeOrgName}
+            orgName={officeLabel}
             onRestaurantClick={handleRowClick}
+            onBoundsChange={setMapBounds}
+            walkRings={walkRings}
+            offices={orgOffices}
+            activeOfficeId={activeOffice?.id || null}
+            onOfficeChange={setPickedOfficeId}
+            tiles={parseTileConfig((currentOrg || activeOrg)?.map_tiles)}
+            showAreaFilters
           />
         </div>
       </section>
 
       {/* Filters and Add Place */}
       <div className="container">
+        <RestaurantSearch onSelect={showOnMap} />
+        {user && (
+          <LunchDecider
+            userId={user.id}
+            people={[
+              ...followingUsers,
+              ...orgMembers.filter(m => !followingUsers.some(f => f.id === m.id)),
+            ]}
+            walkOrigin={walkOrigin}
+            walkingSpeedKmh={walkingSpeedKmh}
+            onSelect={showOnMap}
+          />
+        )}
         <FilterBar
           userOrgs={userOrgs}
           isSignedIn={!!user}
@@ -1067,24 +1139,31 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
             ...orgMembers.filter(m => !followingUsers.some(f => f.id === m.id)).map(u => ({ id: u.id, name: u.name, source: 'org_member' as const }))
           ]}
           availableTags={availableTags}
-          availableCuisines={[...new Set(restaurants.map(r => r.cuisine).filter(Boolean))].sort()}
+          availableCuisines={stats.cuisines}
+          walkOrigin={walkOrigin ? officeLabel || 'the office' : null}
+          walkingSpeedKmh={walkingSpeedKmh}
+          presetsUserId={userId}
           rightActions={
             user && (
               <AddReview
                 userId={user.id}
                 organisationId={currentOrg?.id}
-                availableCuisines={[...new Set(restaurants.map(r => r.cuisine).filter(Boolean))].sort()}
-                onAdded={fetchData}
+                userOrgs={userOrgs}
+                availableCuisines={stats.cuisines}
+                onAdded={refreshData}
               />
             )
           }
         />
       </div>
 
+      {/* Recommendations - signed in only */}
+      {user && <RecommendationsShelf userId={user.id} onSelect={showOnMap} />}
+
       {/* Histogram - below filters */}
       <section style={{ paddingBottom: '40px' }}>
         <div className="container">
-          <RatingHistogram restaurants={filteredRestaurants} />
+          <RatingHistogram counts={stats.ratingCounts} calibrated={calibrateRatings} />
         </div>
       </section>
 
@@ -1096,14 +1175,44 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
               <tr>
                 <th style={{ paddingLeft: '16px' }}>Name</th>
                 <th className="hide-mobile">Cuisine</th>
-                <th>Rating</th>
+                <th>
+                  <button
+                    onClick={() => setSortBy('score')}
+                    style={order === 'score' ? sortHeaderStyle : { ...sortHeaderStyle, color: 'var(--text-muted)' }}
+                    title="Averages weighted by how many reviews they rest on"
+                  >
+                    Rating{order === 'score' && ' ↓'}
+                  </button>
+                  <button
+                    onClick={() => setSortBy('rating')}
+                    style={{ ...(order === 'rating' ? sortHeaderStyle : { ...sortHeaderStyle, color: 'var(--text-muted)' }), marginLeft: '12px' }}
+                    title="Plain averages, however few reviews"
+                  >
+                    Average{order === 'rating' && ' ↓'}
+                  </button>
+                  {user && (
+                    <button
+                      onClick={() => setSortBy('for_you')}
+                      style={{ ...(order === 'for_you' ? sortHeaderStyle : { ...sortHeaderStyle, color: 'var(--text-muted)' }), marginLeft: '12px' }}
+                      title="The ratings we'd expect from you, going by reviewers who rate like you"
+                    >
+                      For you{order === 'for_you' && ' ↓'}
+                    </button>
+                  )}
+                </th>
+                {walkOrigin && (
+                  <th className="hide-mobile" data-testid="distance-column">
+                    <button onClick={() => setSortBy('distance')} style={sortBy === 'distance' ? sortHeaderStyle : { ...sortHeaderStyle, color: 'var(--text-muted)' }}>
+                      Walk{sortBy === 'distance' && ' ↑'}
+                    </button>
+                  </th>
+                )}
                 <th className="hide-mobile">Tags</th>
-                <th></th>
                 <th className="hide-mobile"></th>
               </tr>
             </thead>
             <tbody>
-              {filteredRestaurants.map((restaurant) => (
+              {restaurants.map((restaurant) => (
                 <tr
                   key={restaurant.id}
                   data-testid={`restaurant-row-${restaurant.name.toLowerCase().replace(/\s+/g, '-')}`}
@@ -1121,18 +1230,38 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
                     )}
                   </td>
                   <td>
-                    {restaurant.filteredAvgRating !== null ? (
-                      <span className={`rating-badge ${getRatingClass(restaurant.filteredAvgRating)}`}>
-                        {restaurant.filteredAvgRating.toFixed(1)} — {getRatingLabel(restaurant.filteredAvgRating)}
+                    {restaurant.avgRating !== null ? (
+                      <span className={`rating-badge ${getRatingClass(restaurant.avgRating)}`}>
+                        {restaurant.avgRating.toFixed(1)} — {getRatingLabel(restaurant.avgRating)}
+                        <span
+                          className="rating-count"
+                          title={restaurant.score !== null ? `Ranked as ${restaurant.score.toFixed(1)} once weighted by review count` : undefined}
+                        >
+                          {restaurant.reviewCount} review{restaurant.reviewCount !== 1 ? 's' : ''}
+                        </span>
+                        {order === 'for_you' && restaurant.predictedRating !== null && (
+                          <span className="rating-count" title="The rating we'd expect from you, going by reviewers who rate like you">
+                            ~{restaurant.predictedRating.toFixed(1)} for you
+                          </span>
+                        )}
                       </span>
                     ) : (
                       <span style={{ color: 'var(--text-muted)' }}>—</span>
                     )}
                   </td>
+                  {walkOrigin && (
+                    <td className="hide-mobile mono" style={{ fontSize: '12px', color: 'var(--text-muted)' }}>
+                      {restaurant.distanceMetres !== null && (
+                        <span title={formatDistance(restaurant.distanceMetres)}>
+                          {Math.max(1, Math.round(walkingMinutes(restaurant.distanceMetres, walkingSpeedKmh)))} min
+                        </span>
+                      )}
+                    </td>
+                  )}
                   <td className="hide-mobile">
-                    {restaurant.filteredTopTags && restaurant.filteredTopTags.length > 0 && (
+                    {restaurant.topTags.length > 0 && (
                       <div className="tags-table">
-                        {restaurant.filteredTopTags.map(({ tag, count }) => (
+                        {restaurant.topTags.map(({ tag, count }) => (
                           <span key={tag.id} className="tag-mini">
                             <span className="tag-mini-name">{tag.name}</span>
                             <span className="tag-mini-count">{count}</span>
@@ -1141,9 +1270,6 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
                       </div>
                     )}
                   </td>
-                  <td style={{ color: 'var(--text-muted)', fontSize: '13px' }}>
-                    {restaurant.relevantReviewCount} review{restaurant.relevantReviewCount !== 1 ? 's' : ''}
-                  </td>
                   <td className="hide-mobile" style={{ textAlign: 'right' }}>
                     {restaurant.latitude && restaurant.longitude && (
                       <button
@@ -1171,7 +1297,15 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
             </tbody>
           </table>
 
-          {filteredRestaurants.length === 0 && (
+          {hasMore && (
+            <div style={{ textAlign: 'center', paddingTop: '24px' }}>
+              <button className="btn" onClick={loadMore} disabled={loadingMore}>
+                {loadingMore ? 'Loading...' : `Show more (${restaurants.length} of ${stats.matchCount})`}
+              </button>
+            </div>
+          )}
+
+          {restaurants.length === 0 && (
             <p style={{ textAlign: 'center', padding: '60px 0', color: 'var(--text-muted)' }}>
               No restaurants match the current filters
             </p>
@@ -1196,12 +1330,25 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
       {/* Restaurant Detail Popup — Split Panel */}
       {selectedRestaurant && (() => {
         const restaurant = selectedRestaurant
-        const reviews = restaurant.reviews
+        const reviews = popupReviews
         const sortedReviews = reviews.slice().sort((a, b) => (b.rating || 0) - (a.rating || 0))
         const photosInReviews = reviews.filter(r => r.photo_url)
-        const avgRating = reviews.filter(r => r.rating !== null).length > 0
-          ? reviews.filter(r => r.rating !== null).reduce((sum, r) => sum + (r.rating || 0), 0) / reviews.filter(r => r.rating !== null).length
-          : null
+        const { avgRating, avgValueRating, avgTasteRating } = averageRatings(reviews)
+        const dimensionMemberIds = dimensionOrgId ? orgMembersByOrgId.get(dimensionOrgId) : undefined
+        const dimensionAverages = averageByDimension(
+          popupDimensions,
+          popupDimensionRatings,
+          new Set(reviews.filter(r => r.user_id && dimensionMemberIds?.has(r.user_id)).map(r => r.id))
+        )
+        const dimensionSummary = dimensionAverages.some(d => d.average !== null) && (
+          <div className="popup-dimensions" data-testid="popup-dimensions">
+            {dimensionAverages.map(({ dimension, average }) => (
+              <span key={dimension.id} className="mono" style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                {dimension.label.toLowerCase()} {average !== null ? `${average.toFixed(1)}/${dimension.scale_max}` : '–'}
+              </span>
+            ))}
+          </div>
+        )
         const reviewsPanelRef = { current: null as HTMLDivElement | null }
 
         const _selectedPhotoReview = selectedPhotoReviewId ? photosInReviews.find(r => r.id === selectedPhotoReviewId) : null
@@ -1259,10 +1406,32 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
                             {avgRating.toFixed(1)} — {getRatingLabel(avgRating)}
                           </span>
                         )}
+                        {avgValueRating !== null && (
+                          <span className={`mono ${getRatingClass(avgValueRating)}`} style={{ fontSize: '12px' }} data-testid="popup-avg-value">
+                            value {avgValueRating.toFixed(1)}
+                          </span>
+                        )}
+                        {avgTasteRating !== null && (
+                          <span className={`mono ${getRatingClass(avgTasteRating)}`} style={{ fontSize: '12px' }} data-testid="popup-avg-taste">
+                            taste {avgTasteRating.toFixed(1)}
+                          </span>
+                        )}
                         <span style={{ color: 'var(--text-muted)', fontSize: '12px' }}>
                           {reviews.length} review{reviews.length !== 1 ? 's' : ''}
                         </span>
+                        {(restaurant.address || restaurant.place_id || restaurant.latitude !== null) && (
+                          <a
+                            href={getDirectionsUrl(restaurant)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="directions-link"
+                            data-testid="directions-link"
+                          >
+                            Directions
+                          </a>
+                        )}
                       </div>
+                      {dimensionSummary}
                     </div>
 
                     <div className="split-reviews-list">
@@ -1320,7 +1489,7 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
                           onClick={() => setAddReviewOpen(!addReviewOpen)}
                         >
                           <span className="popup-add-review-label" data-testid="toggle-review-form">
-                            {restaurant.reviews.find(r => r.user_id === user.id) ? 'Edit your review' : 'Add your review'}
+                            {reviews.find(r => r.user_id === user.id) ? 'Edit your review' : 'Add your review'}
                           </span>
                           <svg
                             className={`popup-add-review-chevron ${addReviewOpen ? 'open' : ''}`}
@@ -1334,11 +1503,10 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
                             <InlineReviewForm
                               restaurantId={restaurant.id}
                               userId={user.id}
-                              existingReview={restaurant.reviews.find(r => r.user_id === user.id) as { id: string; rating: number | null; comment: string | null; dish?: string | null; photo_url?: string | null; tags?: Tag[] } | undefined}
+                              existingReview={reviews.find(r => r.user_id === user.id)}
+                              userOrgs={userOrgs}
                               availableTags={availableTags}
-                              onSaved={() => {
-                                fetchData()
-                              }}
+                              onSaved={refreshData}
                               onTagCreated={(tag) => setAvailableTags(prev => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)))}
                             />
                           </div>
@@ -1369,10 +1537,32 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
                           {avgRating.toFixed(1)} — {getRatingLabel(avgRating)}
                         </span>
                       )}
+                      {avgValueRating !== null && (
+                        <span className={`mono ${getRatingClass(avgValueRating)}`} style={{ fontSize: '12px' }} data-testid="popup-avg-value">
+                          value {avgValueRating.toFixed(1)}
+                        </span>
+                      )}
+                      {avgTasteRating !== null && (
+                        <span className={`mono ${getRatingClass(avgTasteRating)}`} style={{ fontSize: '12px' }} data-testid="popup-avg-taste">
+                          taste {avgTasteRating.toFixed(1)}
+                        </span>
+                      )}
                       <span style={{ color: 'var(--text-muted)', fontSize: '12px' }}>
                         {reviews.length} review{reviews.length !== 1 ? 's' : ''}
                       </span>
+                      {(restaurant.address || restaurant.place_id || restaurant.latitude !== null) && (
+                        <a
+                          href={getDirectionsUrl(restaurant)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="directions-link"
+                          data-testid="directions-link"
+                        >
+                          Directions
+                        </a>
+                      )}
                     </div>
+                    {dimensionSummary}
                   </div>
 
                   <div style={{ padding: '0 24px 20px' }}>
@@ -1427,7 +1617,7 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
                         onClick={() => setAddReviewOpen(!addReviewOpen)}
                       >
                         <span className="popup-add-review-label">
-                          {restaurant.reviews.find(r => r.user_id === user.id) ? 'Edit your review' : 'Add your review'}
+                          {reviews.find(r => r.user_id === user.id) ? 'Edit your review' : 'Add your review'}
                         </span>
                         <svg
                           className={`popup-add-review-chevron ${addReviewOpen ? 'open' : ''}`}
@@ -1441,11 +1631,10 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
                           <InlineReviewForm
                             restaurantId={restaurant.id}
                             userId={user.id}
-                            existingReview={restaurant.reviews.find(r => r.user_id === user.id) as { id: string; rating: number | null; comment: string | null; dish?: string | null; photo_url?: string | null; tags?: Tag[] } | undefined}
+                            existingReview={reviews.find(r => r.user_id === user.id)}
+                            userOrgs={userOrgs}
                             availableTags={availableTags}
-                            onSaved={() => {
-                              fetchData()
-                            }}
+                            onSaved={refreshData}
                             onTagCreated={(tag) => setAvailableTags(prev => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)))}
                           />
                         </div>
@@ -1461,12 +1650,12 @@ export function Dashboard({ organisationSlug }: DashboardProps) {
 
       {/* Photo Lightbox */}
       {selectedPhotoReviewId && selectedRestaurant && (() => {
-        const review = selectedRestaurant.reviews.find(r => r.id === selectedPhotoReviewId)
+        const review = popupReviews.find(r => r.id === selectedPhotoReviewId)
         if (!review?.photo_url) return null
         const canSee = isReviewVisible(review.user_id)
         const reviewer = users.find(u => u.id === review.user_id)
         const displayName = canSee ? (reviewer?.email || 'Anonymous') : 'Anonymous'
-        const photosInReviews = selectedRestaurant.reviews.filter(r => r.photo_url)
+        const photosInReviews = popupReviews.filter(r => r.photo_url)
         const currentIdx = photosInReviews.findIndex(r => r.id === selectedPhotoReviewId)
 
         return (
@@ -3,6 +3,8 @@ import { useState, useRef, useEffect } from 'react'
 import { useFilterStore } from '../lib/store'
 import { CategoryChips } from './CategoryChips'
 import { RatingSlider } from './RatingSlider'
+import { FilterPresets } from './FilterPresets'
+import { DEFAULT_WALKING_SPEED_KMH } from '../lib/geo'
 import type { SocialFilter, OrganisationWithMembership, Tag } from '../lib/database.types'
 
 interface SearchableUser {
@@ -18,6 +20,9 @@ interface FilterBarProps {
   searchableUsers?: SearchableUser[]
   availableTags?: Tag[]
   availableCuisines?: string[]
+  walkOrigin?: string | null // name of the office walks start from; no walking filter without one
+  walkingSpeedKmh?: number
+  presetsUserId?: string | null // whose saved filters to offer; none when signed out
 }
 
 const SOCIAL_OPTIONS: { value: SocialFilter; label: string }[] = [
@@ -27,12 +32,18 @@ const SOCIAL_OPTIONS: { value: SocialFilter; label: string }[] = [
   { value: 'just_me', label: 'Just Me' },
 ]
 
-export function FilterBar({ userOrgs = [], isSignedIn = false, rightActions, searchableUsers = [], availableTags = [], availableCuisines = [] }: FilterBarProps) {
+const WALK_MINUTES = [5, 10, 15, 20, 30]
+
+export function FilterBar({ userOrgs = [], isSignedIn = false, rightActions, searchableUsers = [], availableTags = [], availableCuisines = [], walkOrigin = null, walkingSpeedKmh = DEFAULT_WALKING_SPEED_KMH, presetsUserId = null }: FilterBarProps) {
   const {
     selectedCategories,
     setSelectedCategories,
     minOverallRating,
     setMinOverallRating,
+    minValueRating,
+    setMinValueRating,
+    minTasteRating,
+    setMinTasteRating,
     socialFilter,
     setSocialFilter,
     selectedUserIds,
@@ -42,6 +53,10 @@ export function FilterBar({ userOrgs = [], isSignedIn = false, rightActions, sea
     toggleTagId,
     selectedCuisines,
     toggleCuisine,
+    maxWalkMinutes,
+    setMaxWalkMinutes,
+    calibrateRatings,
+    setCalibrateRatings,
     clearFilters,
     hasActiveFilters,
   } = useFilterStore()
@@ -131,16 +146,48 @@ export function FilterBar({ userOrgs = [], isSignedIn = false, rightActions, sea
         </div>
       )}
 
+      {/* Saved presets row - only if signed in */}
+      {presetsUserId && <FilterPresets userId={presetsUserId} />}
+
       {/* Rating filter row - at top with Add Place */}
       <div className="filter-row">
         <span className="filter-row-label">Rating</span>
         <div className="rating-filters">
-          <RatingSlider
-            label="Rating"
-            value={minOverallRating}
-            onChange={setMinOverallRating}
-            compact
-          />
+          <div className="rating-filter">
+            <span className="rating-filter-label">Overall</span>
+            <RatingSlider
+              label="Rating"
+              value={minOverallRating}
+              onChange={setMinOverallRating}
+              compact
+            />
+          </div>
+          <div className="rating-filter" data-testid="min-value-filter">
+            <span className="rating-filter-label">Value</span>
+            <RatingSlider
+              label="Value"
+              value={minValueRating}
+              onChange={setMinValueRating}
+              compact
+            />
+          </div>
+          <div className="rating-filter" data-testid="min-taste-filter">
+            <span className="rating-filter-label">Taste</span>
+            <RatingSlider
+              label="Taste"
+              value={minTasteRating}
+              onChange={setMinTasteRating}
+              compact
+            />
+          </div>
+          <button
+            className={`chip sm ${calibrateRatings ? 'active' : ''}`}
+            onClick={() => setCalibrateRatings(!calibrateRatings)}
+            title="Adjust each review for how harshly or generously its author rates before averaging"
+            data-testid="calibrate-ratings"
+          >
+            Calibrated
+          </button>
         </div>
         <div className="filter-row-actions hide-mobile">
           {rightActions}
@@ -174,6 +221,27 @@ export function FilterBar({ userOrgs = [], isSignedIn = false, rightActions, sea
         </div>
       )}
 
+      {/* Walking distance row - only when there's an office to walk from */}
+      {walkOrigin && (
+        <div className="filter-row" data-testid="walk-filter">
+          <span className="filter-row-label">Walk</span>
+          <div className="social-tabs">
+            {WALK_MINUTES.map((minutes) => (
+              <button
+                key={minutes}
+                className={`chip ${maxWalkMinutes === minutes ? 'active' : ''}`}
+                onClick={() => setMaxWalkMinutes(maxWalkMinutes === minutes ? null : minutes)}
+              >
+                {minutes} min
+              </button>
+            ))}
+          </div>
+          <span className="hide-mobile" style={{ fontSize: '12px', color: 'var(--text-muted)' }}>
+            from {walkOrigin} at {walkingSpeedKmh} km/h
+          </span>
+        </div>
+      )}
+
       {/* Show filter row - only if signed in */}
       {isSignedIn && (
         <div className="filter-row">
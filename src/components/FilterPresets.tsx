@@ -0,0 +1,158 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '../lib/supabase'
+import { useFilterStore } from '../lib/store'
+import { sharedFilters } from '../lib/filter-params'
+import { presetQuery, presetFilters, matchingPreset, validatePresetName } from '../lib/presets'
+import type { FilterPreset } from '../lib/database.types'
+
+interface FilterPresetsProps {
+  userId: string
+}
+
+const linkButtonStyle = { background: 'none', border: 'none', cursor: 'pointer', fontSize: '12px', color: 'var(--text-secondary)' }
+
+export function FilterPresets({ userId }: FilterPresetsProps) {
+  const filters = sharedFilters(useFilterStore())
+  const [presets, setPresets] = useState<FilterPreset[]>([])
+  const [naming, setNaming] = useState(false)
+  const [name, setName] = useState('')
+  const [problem, setProblem] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const fetchPresets = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('filter_presets')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name')
+
+    if (error) {
+      console.error('Failed to load filter presets:', error)
+    } else {
+      setPresets(data || [])
+    }
+  }, [userId])
+
+  useEffect(() => {
+    fetchPresets()
+  }, [fetchPresets])
+
+  const current = matchingPreset(presets, filters)
+
+  const applyPreset = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId)
+    if (preset) useFilterStore.setState(presetFilters(preset))
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const message = validatePresetName(name, presets)
+    setProblem(message)
+    if (message) return
+
+    setSaving(true)
+    const { error } = await supabase.from('filter_presets').insert({
+      user_id: userId,
+      name: name.trim(),
+      query: presetQuery(filters),
+    })
+
+    if (error) {
+      setProblem(error.message)
+    } else {
+      setName('')
+      setNaming(false)
+      await fetchPresets()
+    }
+    setSaving(false)
+  }
+
+  const handleRemove = async (preset: FilterPreset) => {
+    if (!confirm(`Delete the "${preset.name}" preset?`)) return
+
+    setSaving(true)
+    const { error } = await supabase.from('filter_presets').delete().eq('id', preset.id)
+    if (error) setProblem(error.message)
+    await fetchPresets()
+    setSaving(false)
+  }
+
+  // Only one preset can be the default, so the old one is cleared first
+  const handleToggleDefault = async (preset: FilterPreset) => {
+    setSaving(true)
+    if (!preset.is_default) {
+      const { error } = await supabase
+        .from('filter_presets')
+        .update({ is_default: false })
+        .eq('user_id', userId)
+        .eq('is_default', true)
+      if (error) setProblem(error.message)
+    }
+    const { error } = await supabase
+      .from('filter_presets')
+      .update({ is_default: !preset.is_default })
+      .eq('id', preset.id)
+    if (error) setProblem(error.message)
+    await fetchPresets()
+    setSaving(false)
+  }
+
+  return (
+    <div className="filter-row" data-testid="filter-presets">
+      <span className="filter-row-label">Saved</span>
+      <select
+        value={current?.id || ''}
+        onChange={(e) => applyPreset(e.target.value)}
+        disabled={presets.length === 0}
+        aria-label="Saved filters"
+        style={{ fontSize: '13px' }}
+      >
+        <option value="">{presets.length > 0 ? 'Choose saved filters' : 'No saved filters yet'}</option>
+        {presets.map(preset => (
+          <option key={preset.id} value={preset.id}>
+            {preset.name}{preset.is_default ? ' (default)' : ''}
+          </option>
+        ))}
+      </select>
+
+      {current && (
+        <>
+          <button type="button" style={linkButtonStyle} onClick={() => handleToggleDefault(current)} disabled={saving}>
+            {current.is_default ? 'Stop using as default' : 'Use as default'}
+          </button>
+          <button type="button" style={{ ...linkButtonStyle, color: 'var(--poor)' }} onClick={() => handleRemove(current)} disabled={saving}>
+            Delete
+          </button>
+        </>
+      )}
+
+      {naming ? (
+        <form onSubmit={handleSave} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Quick coffee"
+            maxLength={40}
+            style={{ fontSize: '13px', width: '160px' }}
+            autoFocus
+          />
+          <button type="submit" className="chip sm active" disabled={saving || !name.trim()}>
+            {saving ? '...' : 'Save'}
+          </button>
+          <button type="button" style={linkButtonStyle} onClick={() => { setNaming(false); setProblem(null) }}>
+            Cancel
+          </button>
+        </form>
+      ) : (
+        !current && (
+          <button type="button" className="chip sm" onClick={() => setNaming(true)} data-testid="save-preset">
+            Save these filters
+          </button>
+        )
+      )}
+
+      {problem && <span style={{ fontSize: '12px', color: 'var(--poor)' }}>{problem}</span>}
+    </div>
+  )
+}
@@ -1,15 +1,25 @@
 import { useEffect, useRef, useMemo, useState } from 'react'
 import createGlobe from 'cobe'
-import type { RestaurantWithReviews } from '../lib/database.types'
-import { useFilterStore } from '../lib/store'
+import type { RestaurantSummary } from '../lib/database.types'
+import { groupByCity } from '../lib/cities'
+import type { City } from '../lib/cities'
+
+type GlobeOffice = { name: string; lat: number; lng: number }
 
 interface GlobeViewProps {
-  restaurants: RestaurantWithReviews[]
+  restaurants: RestaurantSummary[]
+  offices?: GlobeOffice[]
+  onCityClick?: (city: City) => void
 }
 
-// Runway East London Bridge
-const OFFICE_LAT = 51.5045
-const OFFICE_LNG = -0.0865
+const OFFICE_COLOR: [number, number, number] = [0.66, 0.33, 0.97]
+
+const NO_OFFICES: GlobeOffice[] = []
+
+// Bigger markers for cities with more places, within limits that stay readable
+function citySize(placeCount: number): number {
+  return Math.min(0.15, 0.05 + placeCount * 0.005)
+}
 
 // Convert lat/lng to globe coordinates (phi/theta)
 function locationToAngles(lat: number, lng: number): [number, number] {
@@ -26,7 +36,7 @@ function getRatingColor(rating: number | null): [number, number, number] {
   return [1, 0.35, 0.35] // soft red
 }
 
-export function GlobeView({ restaurants }: GlobeViewProps) {
+export function GlobeView({ restaurants, offices = NO_OFFICES, onCityClick }: GlobeViewProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const pointerInteracting = useRef<number | null>(null)
   const pointerInteractionMovement = useRef(0)
@@ -35,33 +45,25 @@ export function GlobeView({ restaurants }: GlobeViewProps) {
   const [scale, setScale] = useState(1)
   const globeRef = useRef<ReturnType<typeof createGlobe> | null>(null)
 
-  const { highlightedRestaurantId } = useFilterStore()
-
-  // Prepare markers - make them bigger and more visible
-  const markers = useMemo(() => {
-    const points: Array<{ location: [number, number]; size: number; color: [number, number, number] }> = []
-
-    // Add restaurants
-    restaurants
-      .filter(r => r.latitude !== null && r.longitude !== null)
-      .forEach(restaurant => {
-        const isHighlighted = highlightedRestaurantId === restaurant.id
-        points.push({
-          location: [restaurant.latitude!, restaurant.longitude!],
-          size: isHighlighted ? 0.15 : 0.08,
-          color: getRatingColor(restaurant.avgRating)
-        })
-      })
-
-    // Add office marker (purple pulse)
-    points.push({
-      location: [OFFICE_LAT, OFFICE_LNG],
-      size: 0.12,
-      color: [0.66, 0.33, 0.97]
-    })
-
-    return points
-  }, [restaurants, highlightedRestaurantId])
+  const cities = useMemo(() => groupByCity(restaurants, offices), [restaurants, offices])
+
+  // Start over the first office, or the city with the most places
+  const focus = offices[0] || cities[0]?.centre || { lat: 0, lng: 0 }
+  const focusLabel = offices[0]?.name || cities[0]?.name || 'Worldwide'
+
+  // One marker per city, sized by its places and coloured by their average
+  const markers = useMemo(() => [
+    ...cities.map(city => ({
+      location: [city.centre.lat, city.centre.lng] as [number, number],
+      size: citySize(city.placeCount),
+      color: getRatingColor(city.avgRating),
+    })),
+    ...offices.map(office => ({
+      location: [office.lat, office.lng] as [number, number],
+      size: 0.08,
+      color: OFFICE_COLOR,
+    })),
+  ], [cities, offices])
 
   useEffect(() => {
     if (!canvasRef.current) return
@@ -75,8 +77,7 @@ export function GlobeView({ restaurants }: GlobeViewProps) {
     window.addEventListener('resize', onResize)
     onResize()
 
-    // Focus tightly on London
-    const [focusPhi, focusTheta] = locationToAngles(OFFICE_LAT, OFFICE_LNG)
+    const [focusPhi, focusTheta] = locationToAngles(focus.lat, focus.lng)
     phiRef.current = focusPhi
 
     const globe = createGlobe(canvasRef.current, {
@@ -84,15 +85,15 @@ export function GlobeView({ restaurants }: GlobeViewProps) {
       width: width * 2,
       height: 500 * 2,
       phi: focusPhi,
-      theta: focusTheta - 0.15, // Tilt to see London better
+      theta: focusTheta - 0.15, // Tilt to see the focus better
       dark: 1,
       diffuse: 3,
       mapSamples: 40000, // Higher detail
       mapBrightness: 6,
       baseColor: [0.08, 0.08, 0.12],
-      markerColor: [0.66, 0.33, 0.97],
+      markerColor: OFFICE_COLOR,
       glowColor: [0.15, 0.1, 0.25],
-      scale: 4.5, // Zoomed in on London!
+      scale: 4.5,
       offset: [0, 0],
       markers,
       onRender: (state) => {
@@ -156,7 +157,7 @@ export function GlobeView({ restaurants }: GlobeViewProps) {
       canvas.removeEventListener('pointermove', handlePointerMove)
       canvas.removeEventListener('wheel', handleWheel)
     }
-  }, [markers])
+  }, [markers, focus.lat, focus.lng])
 
   const handleZoom = (direction: 'in' | 'out') => {
     const delta = direction === 'in' ? 0.3 : -0.3
@@ -196,9 +197,27 @@ export function GlobeView({ restaurants }: GlobeViewProps) {
         {/* Location badge */}
         <div className="absolute top-4 left-4 glass-subtle px-4 py-2 flex items-center gap-3">
           <div className="w-2 h-2 rounded-full bg-purple-500 animate-pulse"></div>
-          <span className="text-xs font-bold text-white/80 uppercase tracking-wider">London Bridge</span>
+          <span className="text-xs font-bold text-white/80 uppercase tracking-wider">{focusLabel}</span>
         </div>
 
+        {/* Cities, busiest first; picking one shows it on the map */}
+        {cities.length > 0 && (
+          <div className="absolute top-16 left-4 glass-subtle p-3 max-h-64 overflow-y-auto" data-testid="globe-cities">
+            {cities.map(city => (
+              <button
+                key={`${city.name}-${city.centre.lat}`}
+                onClick={() => onCityClick?.(city)}
+                className="w-full flex items-center justify-between gap-4 py-1 text-left text-xs text-white/70 hover:text-white"
+              >
+                <span className="font-semibold">{city.name}</span>
+                <span className="font-mono text-white/40">
+                  {city.placeCount} · {city.avgRating !== null ? city.avgRating.toFixed(1) : '—'}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Legend */}
         <div className="absolute bottom-4 left-4 glass-subtle p-4">
           <div className="text-[10px] font-bold text-white/50 mb-3 uppercase tracking-widest">Rating</div>
@@ -3,8 +3,10 @@ import { supabase } from '../lib/supabase'
 import { MapView } from './MapView'
 import { RatingHistogram } from './RatingHistogram'
 import { getRatingClass } from '../lib/ratings'
+import { toRestaurantSummary, ratingCounts } from '../lib/summaries'
+import { rankByConfidence } from '../lib/ranking'
 import { useFilterStore } from '../lib/store'
-import type { Restaurant, Review, RestaurantWithReviews, Tag, ReviewTag, Profile } from '../lib/database.types'
+import type { VisibleReview, RestaurantSummary, Tag, ReviewTag, Profile } from '../lib/database.types'
 
 interface ReviewFlat {
   id: string
@@ -37,26 +39,39 @@ function timeAgo(dateStr: string): string {
   return `${weeks}w ago`
 }
 
+// Recent comments for the review feed
+const FEED_SIZE = 50
+
 export function LandingPage() {
-  const [restaurants, setRestaurants] = useState<RestaurantWithReviews[]>([])
+  const [restaurants, setRestaurants] = useState<RestaurantSummary[]>([])
+  const [reviews, setReviews] = useState<VisibleReview[]>([])
   const [profiles, setProfiles] = useState<Profile[]>([])
   const [reviewTags, setReviewTags] = useState<Record<string, Tag[]>>({})
-  const [tags, setTags] = useState<Tag[]>([])
   const [loading, setLoading] = useState(true)
   const mapRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
     async function fetchData() {
-      const [restResult, profileResult, tagsResult, reviewTagsResult] = await Promise.all([
-        supabase.from('restaurants').select('*, reviews(*)'),
-        supabase.from('profiles').select('*'),
-        supabase.from('tags').select('*'),
-        supabase.from('review_tags').select('*, tags(*)')
+      const { data: summaryRows } = await supabase.rpc('restaurant_summaries')
+      const summaries = (summaryRows || []).map(toRestaurantSummary)
+      const topRatedIds = rankByConfidence(summaries).slice(0, 3).map(r => r.id)
+
+      // Only the comments the page shows: the latest ones, and quotes for the top rated
+      const [recentResult, quotesResult] = await Promise.all([
+        supabase.from('visible_reviews').select('*').not('comment', 'is', null)
+          .order('created_at', { ascending: false }).limit(FEED_SIZE),
+        supabase.from('visible_reviews').select('*').not('comment', 'is', null)
+          .in('restaurant_id', topRatedIds),
+      ])
+      const byId = new Map<string, VisibleReview>()
+      for (const rev of [...(recentResult.data || []), ...(quotesResult.data || [])]) byId.set(rev.id, rev)
+      const shownReviews = [...byId.values()]
+
+      const reviewerIds = [...new Set(shownReviews.map(r => r.user_id).filter((id): id is string => !!id))]
+      const [profileResult, reviewTagsResult] = await Promise.all([
+        supabase.from('profiles').select('*').in('id', reviewerIds),
+        supabase.from('review_tags').select('*, tags(*)').in('review_id', shownReviews.map(r => r.id)),
       ])
-
-      const rawRestaurants = (restResult.data || []) as (Restaurant & { reviews: Review[] })[]
-      const allProfiles = (profileResult.data || []) as Profile[]
-      const allTags = (tagsResult.data || []) as Tag[]
       const allReviewTags = (reviewTagsResult.data || []) as (ReviewTag & { tags: Tag | null })[]
 
       const tagMap: Record<string, Tag[]> = {}
@@ -65,29 +80,17 @@ export function LandingPage() {
         if (rt.tags) tagMap[rt.review_id].push(rt.tags)
       }
 
-      const processed: RestaurantWithReviews[] = rawRestaurants.map(r => {
-        const reviews = (r.reviews || []).filter((rev: Review) => rev.rating !== null)
-        const avgRating = reviews.length > 0
-          ? reviews.reduce((sum: number, rev: Review) => sum + (rev.rating ?? 0), 0) / reviews.length
-          : null
-        return { ...r, avgRating, reviews: r.reviews || [] }
-      })
-
-      setRestaurants(processed)
-      setProfiles(allProfiles)
-      setTags(allTags)
+      setRestaurants(summaries)
+      setReviews(shownReviews)
+      setProfiles((profileResult.data || []) as Profile[])
       setReviewTags(tagMap)
       setLoading(false)
     }
     fetchData()
   }, [])
 
-  const topRated = useMemo(() => {
-    return [...restaurants]
-      .filter(r => r.avgRating !== null)
-      .sort((a, b) => (b.avgRating || 0) - (a.avgRating || 0))
-      .slice(0, 3)
-  }, [restaurants])
+  // A lone 10 shouldn't beat a place the whole office rates 9
+  const topRated = useMemo(() => rankByConfidence(restaurants).slice(0, 3), [restaurants])
 
   const profileMap = useMemo(() => {
     const m: Record<string, Profile> = {}
@@ -96,30 +99,30 @@ export function LandingPage() {
   }, [profiles])
 
   const allReviews = useMemo((): ReviewFlat[] => {
+    const restaurantMap = new Map(restaurants.map(r => [r.id, r]))
     const flat: ReviewFlat[] = []
-    for (const r of restaurants) {
-      for (const rev of r.reviews) {
-        if (rev.rating === null || !rev.comment) continue
-        const profile = rev.user_id ? profileMap[rev.user_id] : null
-        const name = profile?.display_name || 'Anonymous'
-        flat.push({
-          id: rev.id,
-          rating: rev.rating,
-          comment: rev.comment,
-          created_at: rev.created_at || '',
-          user_id: rev.user_id || '',
-          restaurantName: r.name,
-          restaurantCuisine: r.cuisine,
-          restaurantAvgRating: r.avgRating,
-          restaurantId: r.id,
-          reviewerName: name,
-          reviewerInitials: getInitials(name),
-          tags: reviewTags[rev.id] || []
-        })
-      }
+    for (const rev of reviews) {
+      const r = rev.restaurant_id ? restaurantMap.get(rev.restaurant_id) : undefined
+      if (!r || rev.rating === null || !rev.comment) continue
+      const profile = rev.user_id ? profileMap[rev.user_id] : null
+      const name = profile?.display_name || 'Anonymous'
+      flat.push({
+        id: rev.id,
+        rating: rev.rating,
+        comment: rev.comment,
+        created_at: rev.created_at || '',
+        user_id: rev.user_id || '',
+        restaurantName: r.name,
+        restaurantCuisine: r.cuisine,
+        restaurantAvgRating: r.avgRating,
+        restaurantId: r.id,
+        reviewerName: name,
+        reviewerInitials: getInitials(name),
+        tags: reviewTags[rev.id] || []
+      })
     }
     return flat.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-  }, [restaurants, profileMap, reviewTags])
+  }, [restaurants, reviews, profileMap, reviewTags])
 
   const reviewsByRestaurant = useMemo(() => {
     const map: Record<string, ReviewFlat[]> = {}
@@ -145,7 +148,7 @@ export function LandingPage() {
 
   const stats = useMemo(() => {
     const totalPlaces = restaurants.length
-    const totalReviews = restaurants.reduce((sum, r) => sum + r.reviews.length, 0)
+    const totalReviews = restaurants.reduce((sum, r) => sum + r.reviewCount, 0)
     const rated = restaurants.filter(r => r.avgRating !== null)
     const avgOfAvgs = rated.length > 0
       ? rated.reduce((sum, r) => sum + (r.avgRating || 0), 0) / rated.length
@@ -157,25 +160,25 @@ export function LandingPage() {
   const uniqueReviewers = useMemo(() => {
     const ids = new Set<string>()
     for (const r of restaurants) {
-      for (const rev of r.reviews) {
-        if (rev.user_id) ids.add(rev.user_id)
-      }
+      for (const id of r.reviewerIds) ids.add(id)
     }
     return ids.size
   }, [restaurants])
 
   const tagCounts = useMemo(() => {
-    const counts: Record<string, number> = {}
-    for (const reviewId in reviewTags) {
-      for (const tag of reviewTags[reviewId]) {
-        counts[tag.id] = (counts[tag.id] || 0) + 1
+    const counts = new Map<string, { tag: Tag; count: number }>()
+    for (const r of restaurants) {
+      for (const { tag, count } of r.tagCounts) {
+        const existing = counts.get(tag.id)
+        if (existing) {
+          existing.count += count
+        } else {
+          counts.set(tag.id, { tag, count })
+        }
       }
     }
-    return tags
-      .map(t => ({ tag: t, count: counts[t.id] || 0 }))
-      .filter(t => t.count > 0)
-      .sort((a, b) => b.count - a.count)
-  }, [tags, reviewTags])
+    return [...counts.values()].sort((a, b) => b.count - a.count)
+  }, [restaurants])
 
   const avatarInitials = useMemo(() => {
     const seen = new Set<string>()
@@ -294,6 +297,7 @@ export function LandingPage() {
                 </div>
                 <span className={`card-score ${getRatingClass(r.avgRating || 0)}`}>
                   {(r.avgRating || 0).toFixed(1)}
+                  <span className="card-score-count">{r.reviewCount} review{r.reviewCount !== 1 ? 's' : ''}</span>
                 </span>
               </div>
             )
@@ -348,7 +352,7 @@ export function LandingPage() {
 
           {/* Histogram */}
           <div className="landing-bento-card landing-bento-wide">
-            <RatingHistogram restaurants={restaurants} />
+            <RatingHistogram counts={ratingCounts(restaurants)} />
           </div>
 
           {/* Popular Tags — uses same tag-mini style as the table */}
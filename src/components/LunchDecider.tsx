@@ -0,0 +1,182 @@
+import { useState } from 'react'
+import { supabase } from '../lib/supabase'
+import { getRatingClass } from '../lib/ratings'
+import { CategoryChips } from './CategoryChips'
+import { shortlistArgs, toLunchOption, explainLunchOption, RECENT_DAY_OPTIONS } from '../lib/lunch'
+import type { LunchConstraints, LunchOption } from '../lib/lunch'
+import type { LatLng } from '../lib/geo'
+
+interface LunchDeciderProps {
+  userId: string
+  people: { id: string; name: string }[] // org members and people the user follows
+  walkOrigin: LatLng | null
+  walkingSpeedKmh: number
+  onSelect: (option: LunchOption) => void
+}
+
+const WALK_MINUTES = [5, 10, 15, 20]
+
+export function LunchDecider({ userId, people, walkOrigin, walkingSpeedKmh, onSelect }: LunchDeciderProps) {
+  const [open, setOpen] = useState(false)
+  const [constraints, setConstraints] = useState<LunchConstraints>({
+    attendeeIds: [userId],
+    categories: ['lunch'],
+    maxWalkMinutes: null,
+    recentDays: 7,
+  })
+  const [options, setOptions] = useState<LunchOption[] | null>(null)
+  const [deciding, setDeciding] = useState(false)
+  const [problem, setProblem] = useState<string | null>(null)
+
+  const attendees = [{ id: userId, name: 'Me' }, ...people.filter(p => p.id !== userId)]
+
+  // Any change to the constraints makes the last shortlist stale
+  const update = (changes: Partial<LunchConstraints>) => {
+    setConstraints({ ...constraints, ...changes })
+    setOptions(null)
+  }
+
+  const toggleAttendee = (id: string) => {
+    const { attendeeIds } = constraints
+    update({ attendeeIds: attendeeIds.includes(id) ? attendeeIds.filter(a => a !== id) : [...attendeeIds, id] })
+  }
+
+  const handleDecide = async () => {
+    setDeciding(true)
+    setProblem(null)
+    const { data, error } = await supabase.rpc('lunch_shortlist', shortlistArgs(constraints, walkOrigin, walkingSpeedKmh))
+    if (error) {
+      console.error('Failed to decide on lunch:', error)
+      setProblem(error.message)
+    } else {
+      setOptions((data || []).map(toLunchOption))
+    }
+    setDeciding(false)
+  }
+
+  if (!open) {
+    return (
+      <div className="filter-row" style={{ padding: '16px 0 24px' }}>
+        <button type="button" className="chip" onClick={() => setOpen(true)} data-testid="decide-lunch">
+          Decide for us
+        </button>
+        <span style={{ fontSize: '13px', color: 'var(--text-muted)' }}>
+          Pick who's coming and get a shortlist from everyone's reviews
+        </span>
+      </div>
+    )
+  }
+
+  return (
+    <section data-testid="lunch-decider" className="lunch-decider">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: '16px' }}>
+        <h3 style={{ margin: 0 }}>Where shall we go?</h3>
+        <button
+          type="button"
+          style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '13px', color: 'var(--text-secondary)' }}
+          onClick={() => setOpen(false)}
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="filter-row">
+        <span className="filter-row-label">Who's coming</span>
+        {attendees.map(attendee => (
+          <button
+            key={attendee.id}
+            type="button"
+            className={`chip sm ${constraints.attendeeIds.includes(attendee.id) ? 'active' : ''}`}
+            onClick={() => toggleAttendee(attendee.id)}
+          >
+            {attendee.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="filter-row">
+        <span className="filter-row-label">Kind</span>
+        <CategoryChips selected={constraints.categories} onChange={(categories) => update({ categories })} compact />
+      </div>
+
+      {walkOrigin && (
+        <div className="filter-row">
+          <span className="filter-row-label">Walk</span>
+          {WALK_MINUTES.map(minutes => (
+            <button
+              key={minutes}
+              type="button"
+              className={`chip sm ${constraints.maxWalkMinutes === minutes ? 'active' : ''}`}
+              onClick={() => update({ maxWalkMinutes: constraints.maxWalkMinutes === minutes ? null : minutes })}
+            >
+              {minutes} min
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="filter-row">
+        <span className="filter-row-label">Not been for</span>
+        {RECENT_DAY_OPTIONS.map(days => (
+          <button
+            key={days}
+            type="button"
+            className={`chip sm ${constraints.recentDays === days ? 'active' : ''}`}
+            onClick={() => update({ recentDays: constraints.recentDays === days ? null : days })}
+          >
+            {days} days
+          </button>
+        ))}
+      </div>
+
+      <div className="filter-row">
+        <button
+          type="button"
+          className="chip active"
+          onClick={handleDecide}
+          disabled={deciding || constraints.attendeeIds.length === 0}
+        >
+          {deciding ? 'Deciding...' : 'Decide'}
+        </button>
+        {constraints.attendeeIds.length === 0 && (
+          <span style={{ fontSize: '12px', color: 'var(--text-muted)' }}>Pick at least one person</span>
+        )}
+        {problem && <span style={{ fontSize: '12px', color: 'var(--poor)' }}>{problem}</span>}
+      </div>
+
+      {options && options.length === 0 && (
+        <p style={{ color: 'var(--text-muted)', fontSize: '13px' }}>
+          Nowhere fits. Try a longer walk, another kind of place or fewer days.
+        </p>
+      )}
+
+      {options && options.length > 0 && (
+        <ol className="lunch-shortlist">
+          {options.map(option => (
+            <li key={option.id}>
+              <button type="button" className="lunch-option" onClick={() => onSelect(option)}>
+                <span className="recommendation-header">
+                  <span className="recommendation-name">{option.name}</span>
+                  <span
+                    className={`mono ${getRatingClass(option.groupRating)}`}
+                    title="The group's average, each person's ratings counted once"
+                  >
+                    {option.groupRating.toFixed(1)}
+                  </span>
+                </span>
+                {option.cuisine && <span className="recommendation-cuisine">{option.cuisine}</span>}
+                <span className="recommendation-reason">
+                  {explainLunchOption(option, {
+                    attendeeCount: constraints.attendeeIds.length,
+                    recentDays: constraints.recentDays,
+                    walkingSpeedKmh,
+                  }).join(' · ')}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  )
+}
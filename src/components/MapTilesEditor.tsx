@@ -0,0 +1,125 @@
+import { useState } from 'react'
+import { supabase } from '../lib/supabase'
+import { parseTileConfig, validateTileConfig, TILE_PROVIDERS, MAP_STYLES } from '../lib/tiles'
+import type { MapTileConfig, TileProviderName, MapStyle } from '../lib/tiles'
+import type { Json } from '../lib/database.types'
+
+interface MapTilesEditorProps {
+  organisationId: string
+  value: Json | null // organisations.map_tiles
+  onError?: (message: string) => void
+  onSuccess?: (message: string) => void
+}
+
+const fieldLabelStyle = { display: 'block', fontSize: '11px', textTransform: 'uppercase' as const, letterSpacing: '0.08em', color: 'var(--text-muted)', marginBottom: '8px' }
+
+export function MapTilesEditor({ organisationId, value, onError, onSuccess }: MapTilesEditorProps) {
+  const initial = parseTileConfig(value)
+  const [provider, setProvider] = useState<TileProviderName | ''>(initial.provider || '')
+  const [style, setStyle] = useState<MapStyle | ''>(initial.style || '')
+  const [url, setUrl] = useState(initial.url || '')
+  const [darkUrl, setDarkUrl] = useState(initial.darkUrl || '')
+  const [attribution, setAttribution] = useState(initial.attribution || '')
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    // Blank fields fall back to the site's settings
+    const config: Partial<MapTileConfig> = parseTileConfig({
+      provider: provider || null,
+      style: style || null,
+      ...(provider === 'custom' ? { url, darkUrl, attribution } : {}),
+    })
+    const problem = validateTileConfig(config)
+    if (problem) {
+      onError?.(problem)
+      return
+    }
+
+    setSaving(true)
+    const { error } = await supabase
+      .from('organisations')
+      .update({ map_tiles: Object.keys(config).length > 0 ? { ...config } : null })
+      .eq('id', organisationId)
+
+    if (error) {
+      onError?.(error.message)
+    } else {
+      onSuccess?.('Map settings saved')
+    }
+    setSaving(false)
+  }
+
+  return (
+    <form onSubmit={handleSave}>
+      <div className="settings-form-row">
+        <div>
+          <label style={fieldLabelStyle}>Tiles</label>
+          <select value={provider} onChange={(e) => setProvider(e.target.value as TileProviderName | '')}>
+            <option value="">Site default</option>
+            {TILE_PROVIDERS.map(p => (
+              <option key={p.value} value={p.value}>{p.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label style={fieldLabelStyle}>Style</label>
+          <select value={style} onChange={(e) => setStyle(e.target.value as MapStyle | '')}>
+            <option value="">Site default</option>
+            {MAP_STYLES.map(s => (
+              <option key={s.value} value={s.value}>{s.label}</option>
+            ))}
+          </select>
+        </div>
+        {provider !== 'custom' && (
+          <button type="submit" disabled={saving} className="btn btn-accent settings-form-btn">
+            {saving ? '...' : 'Save'}
+          </button>
+        )}
+      </div>
+
+      {provider === 'custom' && (
+        <>
+          <div style={{ marginTop: '16px' }}>
+            <label style={fieldLabelStyle}>Tile URL</label>
+            <input
+              type="text"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://tiles.example.com/{z}/{x}/{y}.png"
+              className="mono"
+              style={{ width: '100%', maxWidth: '420px' }}
+            />
+          </div>
+          <div style={{ marginTop: '16px' }}>
+            <label style={fieldLabelStyle}>Dark tile URL (optional)</label>
+            <input
+              type="text"
+              value={darkUrl}
+              onChange={(e) => setDarkUrl(e.target.value)}
+              placeholder="Light tiles are inverted when empty"
+              className="mono"
+              style={{ width: '100%', maxWidth: '420px' }}
+            />
+          </div>
+          <div className="settings-form-row" style={{ marginTop: '16px' }}>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <label style={fieldLabelStyle}>Attribution</label>
+              <input
+                type="text"
+                value={attribution}
+                onChange={(e) => setAttribution(e.target.value)}
+                placeholder="© OpenStreetMap"
+                style={{ width: '100%', maxWidth: '280px' }}
+              />
+            </div>
+            <button type="submit" disabled={saving || !url.trim()} className="btn btn-accent settings-form-btn">
+              {saving ? '...' : 'Save'}
+            </button>
+          </div>
+        </>
+      )}
+    </form>
+  )
+}
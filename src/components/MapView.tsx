@@ -1,20 +1,41 @@
-import { useEffect, useRef, useMemo } from 'react'
-import { MapContainer, TileLayer, Marker, Popup, useMap, AttributionControl } from 'react-leaflet'
+import { useEffect, useRef, useMemo, useState, useCallback } from 'react'
+import { MapContainer, TileLayer, Marker, Popup, Polygon, Polyline, Circle, Tooltip, useMap, AttributionControl } from 'react-leaflet'
 import L from 'leaflet'
-import type { RestaurantWithReviews } from '../lib/database.types'
+import type { RestaurantSummary } from '../lib/database.types'
 import { useFilterStore } from '../lib/store'
+import { getRatingClass, getRatingLabel } from '../lib/ratings'
+import type { Bounds, Region } from '../lib/geo'
+import { clusterByGrid, heatWeight, heatColour, CLUSTER_MAX_ZOOM } from '../lib/clusters'
+import { parseTileConfig, tileConfigFromEnv, mergeTileConfigs, resolveTileLayer } from '../lib/tiles'
+import type { MapTileConfig } from '../lib/tiles'
+import { supabase } from '../lib/supabase'
 
 interface MapViewProps {
-  restaurants: RestaurantWithReviews[]
+  restaurants: RestaurantSummary[]
   officeLocation?: { lat: number; lng: number } | null
   showOfficeMarker?: boolean
   orgName?: string | null
-  onRestaurantClick?: (restaurant: RestaurantWithReviews) => void
+  onRestaurantClick?: (restaurant: RestaurantSummary) => void
+  onBoundsChange?: (bounds: Bounds) => void
+  showAreaFilters?: boolean
+  walkRings?: { minutes: number; metres: number }[] // around the office
+  offices?: { id: string; name: string }[]
+  activeOfficeId?: string | null
+  onOfficeChange?: (officeId: string) => void
+  tiles?: Partial<MapTileConfig> // the org's overrides of the site's tile settings
 }
 
 // Default center (London Bridge area) when no office location
 const DEFAULT_CENTER = { lat: 51.5047, lng: -0.0886 }
 
+// Lasso points closer together than this (in pixels) are skipped
+const LASSO_STEP_PX = 8
+
+const AREA_STYLE = { color: '#c45d3e', weight: 2, fillOpacity: 0.06 }
+
+// Reach of each place's heat, in screen pixels
+const HEAT_RADIUS_PX = 40
+
 // Custom marker icons
 const createIcon = (color: string, size: number = 10) => {
   const totalSize = size + 4
@@ -54,21 +75,7 @@ function getRatingColor(rating: number | null): string {
   return '#a64d4d'
 }
 
-function getRatingClass(rating: number): string {
-  if (rating >= 8) return 'rating-great'
-  if (rating >= 6) return 'rating-good'
-  return 'rating-poor'
-}
-
-function getRatingLabel(rating: number): string {
-  const labels: Record<number, string> = {
-    1: 'Avoid', 2: 'Poor', 3: 'Bad', 4: 'Meh', 5: 'Ok',
-    6: 'Decent', 7: 'Good', 8: 'Great', 9: 'Excellent', 10: 'Perfect'
-  }
-  return labels[Math.round(rating)] || ''
-}
-
-function MapController({ highlightedId, restaurants }: { highlightedId: string | null, restaurants: RestaurantWithReviews[] }) {
+function MapController({ highlightedId, restaurants }: { highlightedId: string | null, restaurants: RestaurantSummary[] }) {
   const map = useMap()
   const markersRef = useRef<Map<string, L.Marker>>(new Map())
 
@@ -123,6 +130,301 @@ function MapController({ highlightedId, restaurants }: { highlightedId: string |
   return null
 }
 
+// Reports the visible area on load and whenever the map stops moving
+function BoundsWatcher({ onBoundsChange }: { onBoundsChange: (bounds: Bounds) => void }) {
+  const map = useMap()
+
+  useEffect(() => {
+    const report = () => {
+      const b = map.getBounds()
+      onBoundsChange([b.getWest(), b.getSouth(), b.getEast(), b.getNorth()])
+    }
+    report()
+    map.on('moveend', report)
+    return () => {
+      map.off('moveend', report)
+    }
+  }, [map, onBoundsChange])
+
+  return null
+}
+
+// The site-wide tile settings, loaded once per page
+let siteTilesRequest: Promise<Partial<MapTileConfig>> | null = null
+function fetchSiteTiles(): Promise<Partial<MapTileConfig>> {
+  if (!siteTilesRequest) {
+    siteTilesRequest = Promise.resolve(
+      supabase.from('settings').select('value').eq('key', 'map_tiles').single()
+    ).then(({ data }) => parseTileConfig(data?.value))
+  }
+  return siteTilesRequest
+}
+
+const darkScheme = () => typeof window !== 'undefined' && !!window.matchMedia?.('(prefers-color-scheme: dark)').matches
+
+/**
+ * The base map from the site's tile settings, the org's overrides and the
+ * developer's environment, in that order. If the first tiles fail to load
+ * the map carries on without them rather than showing broken images.
+ */
+export function MapTiles({ tiles }: { tiles?: Partial<MapTileConfig> }) {
+  const map = useMap()
+  const [siteTiles, setSiteTiles] = useState<Partial<MapTileConfig>>({})
+  const [prefersDark, setPrefersDark] = useState(darkScheme)
+  const [failedUrl, setFailedUrl] = useState<string | null>(null)
+  const loadedUrlRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    fetchSiteTiles().then(setSiteTiles)
+  }, [])
+
+  useEffect(() => {
+    const query = window.matchMedia?.('(prefers-color-scheme: dark)')
+    if (!query) return
+    const update = () => setPrefersDark(query.matches)
+    query.addEventListener('change', update)
+    return () => query.removeEventListener('change', update)
+  }, [])
+
+  const layer = resolveTileLayer(mergeTileConfigs(siteTiles, tiles || {}, tileConfigFromEnv()), prefersDark)
+  const offline = !layer.url || layer.url === failedUrl
+
+  useEffect(() => {
+    const container = map.getContainer()
+    container.classList.toggle('map-dark', layer.dark)
+    container.classList.toggle('map-tiles-inverted', layer.invert && !offline)
+    container.classList.toggle('map-offline', offline)
+  }, [map, layer.dark, layer.invert, offline])
+
+  if (offline) {
+    return layer.url ? <div className="map-offline-notice">Map tiles are unavailable</div> : null
+  }
+  return (
+    <TileLayer
+      key={layer.url}
+      url={layer.url!}
+      attribution={layer.attribution}
+      eventHandlers={{
+        tileload: () => { loadedUrlRef.current = layer.url },
+        tileerror: () => {
+          if (loadedUrlRef.current !== layer.url) setFailedUrl(layer.url)
+        },
+      }}
+    />
+  )
+}
+
+// Moves the map to the office when another one is chosen
+function OfficeRecenter({ lat, lng }: { lat: number; lng: number }) {
+  const map = useMap()
+
+  useEffect(() => {
+    map.setView([lat, lng], map.getZoom())
+  }, [map, lat, lng])
+
+  return null
+}
+
+// Moves the map to an area picked elsewhere, such as a city on the globe
+function MapFocus() {
+  const map = useMap()
+  const { mapFocus, setMapFocus } = useFilterStore()
+
+  useEffect(() => {
+    if (!mapFocus) return
+    const [west, south, east, north] = mapFocus
+    map.fitBounds([[south, west], [north, east]])
+    setMapFocus(null)
+  }, [map, mapFocus, setMapFocus])
+
+  return null
+}
+
+// While active, drag on the map to draw a region; it is reported on release
+function LassoTool({ active, onComplete }: { active: boolean; onComplete: (region: Region | null) => void }) {
+  const map = useMap()
+  const [path, setPath] = useState<Region>([])
+
+  useEffect(() => {
+    if (!active) return
+    const container = map.getContainer()
+    map.dragging.disable()
+    container.style.cursor = 'crosshair'
+
+    let points: Region = []
+    let lastPoint: L.Point | null = null
+
+    const start = (e: L.LeafletMouseEvent) => {
+      points = [[e.latlng.lng, e.latlng.lat]]
+      lastPoint = e.containerPoint
+      setPath(points)
+    }
+    const move = (e: L.LeafletMouseEvent) => {
+      if (!lastPoint || lastPoint.distanceTo(e.containerPoint) < LASSO_STEP_PX) return
+      lastPoint = e.containerPoint
+      points = [...points, [e.latlng.lng, e.latlng.lat]]
+      setPath(points)
+    }
+    const end = () => {
+      if (!lastPoint) return
+      lastPoint = null
+      setPath([])
+      onComplete(points.length >= 3 ? points : null)
+    }
+
+    map.on('mousedown', start)
+    map.on('mousemove', move)
+    map.on('mouseup', end)
+    return () => {
+      map.off('mousedown', start)
+      map.off('mousemove', move)
+      map.off('mouseup', end)
+      map.dragging.enable()
+      container.style.cursor = ''
+    }
+  }, [active, map, onComplete])
+
+  if (path.length < 2) return null
+  return <Polyline positions={path.map(([lng, lat]) => [lat, lng] as [number, number])} pathOptions={AREA_STYLE} />
+}
+
+const createClusterIcon = (color: string, count: number) => {
+  const size = count < 10 ? 28 : count < 100 ? 34 : 40
+  return L.divIcon({
+    className: 'custom-marker',
+    html: `<div class="map-cluster" style="width: ${size}px; height: ${size}px; background: ${color};">${count}</div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  })
+}
+
+// Nearby markers merge into one showing how many places and their average rating colour
+function ClusteredMarkers({
+  restaurants,
+  highlightedId,
+  onClick,
+  onRestaurantClick,
+}: {
+  restaurants: RestaurantSummary[]
+  highlightedId: string | null
+  onClick: (id: string) => void
+  onRestaurantClick?: (restaurant: RestaurantSummary) => void
+}) {
+  const map = useMap()
+  const [zoom, setZoom] = useState(map.getZoom())
+
+  useEffect(() => {
+    const update = () => setZoom(map.getZoom())
+    map.on('zoomend', update)
+    return () => {
+      map.off('zoomend', update)
+    }
+  }, [map])
+
+  // The highlighted place always keeps its own marker so its popup can open
+  const clusters = useMemo(() => {
+    if (zoom >= CLUSTER_MAX_ZOOM) return restaurants.map(r => ({ items: [r], centre: null, avgRating: r.avgRating }))
+    const highlighted = restaurants.filter(r => r.id === highlightedId)
+    const rest = restaurants.filter(r => r.id !== highlightedId)
+    return [
+      ...highlighted.map(r => ({ items: [r], centre: null, avgRating: r.avgRating })),
+      ...clusterByGrid(rest, r => map.project([r.latitude!, r.longitude!], zoom), r => r.avgRating),
+    ]
+  }, [map, zoom, restaurants, highlightedId])
+
+  return (
+    <>
+      {clusters.map(cluster => {
+        if (cluster.items.length === 1 || !cluster.centre) {
+          const restaurant = cluster.items[0]
+          return (
+            <RestaurantMarker
+              key={restaurant.id}
+              restaurant={restaurant}
+              isHighlighted={highlightedId === restaurant.id}
+              onClick={onClick}
+              onRestaurantClick={onRestaurantClick}
+            />
+          )
+        }
+        const centre = map.unproject([cluster.centre.x, cluster.centre.y], zoom)
+        const bounds = L.latLngBounds(cluster.items.map(r => [r.latitude!, r.longitude!] as [number, number]))
+        return (
+          <Marker
+            key={`cluster-${cluster.items[0].id}`}
+            position={centre}
+            icon={createClusterIcon(getRatingColor(cluster.avgRating), cluster.items.length)}
+            eventHandlers={{
+              click: () => map.fitBounds(bounds, { padding: [40, 40], maxZoom: CLUSTER_MAX_ZOOM }),
+            }}
+          />
+        )
+      })}
+    </>
+  )
+}
+
+// Paints a heatmap of the places onto a canvas under the markers
+function drawHeat(canvas: HTMLCanvasElement, points: { x: number; y: number; weight: number }[]) {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+  ctx.clearRect(0, 0, canvas.width, canvas.height)
+
+  // Build up intensity in the alpha channel first...
+  for (const { x, y, weight } of points) {
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, HEAT_RADIUS_PX)
+    gradient.addColorStop(0, `rgba(0, 0, 0, ${weight})`)
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)')
+    ctx.fillStyle = gradient
+    ctx.fillRect(x - HEAT_RADIUS_PX, y - HEAT_RADIUS_PX, HEAT_RADIUS_PX * 2, HEAT_RADIUS_PX * 2)
+  }
+
+  // ...then colour each pixel by it
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  const pixels = image.data
+  for (let i = 0; i < pixels.length; i += 4) {
+    const alpha = pixels[i + 3]
+    if (alpha === 0) continue
+    const [r, g, b] = heatColour(alpha / 255)
+    pixels[i] = r
+    pixels[i + 1] = g
+    pixels[i + 2] = b
+    pixels[i + 3] = Math.min(180, alpha * 1.5)
+  }
+  ctx.putImageData(image, 0, 0)
+}
+
+function HeatLayer({ restaurants }: { restaurants: RestaurantSummary[] }) {
+  const map = useMap()
+
+  useEffect(() => {
+    const canvas = L.DomUtil.create('canvas', 'map-heat-layer leaflet-zoom-hide') as HTMLCanvasElement
+    map.getPanes().overlayPane.appendChild(canvas)
+
+    const points = restaurants
+      .map(r => ({ latLng: L.latLng(r.latitude!, r.longitude!), weight: heatWeight(r.avgRating) }))
+      .filter(p => p.weight > 0)
+
+    const draw = () => {
+      const size = map.getSize()
+      canvas.width = size.x
+      canvas.height = size.y
+      L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]))
+      drawHeat(canvas, points.map(p => ({ ...map.latLngToContainerPoint(p.latLng), weight: p.weight })))
+    }
+    draw()
+    map.on('moveend', draw)
+    map.on('resize', draw)
+    return () => {
+      map.off('moveend', draw)
+      map.off('resize', draw)
+      canvas.remove()
+    }
+  }, [map, restaurants])
+
+  return null
+}
+
 // Office marker component
 function OfficeMarker({ name, lat, lng }: { name: string; lat: number; lng: number }) {
   return (
@@ -143,10 +445,10 @@ function RestaurantMarker({
   onClick,
   onRestaurantClick,
 }: {
-  restaurant: RestaurantWithReviews
+  restaurant: RestaurantSummary
   isHighlighted: boolean
   onClick: (id: string) => void
-  onRestaurantClick?: (restaurant: RestaurantWithReviews) => void
+  onRestaurantClick?: (restaurant: RestaurantSummary) => void
 }) {
   return (
     <Marker
@@ -181,7 +483,7 @@ function RestaurantMarker({
             </div>
           )}
           <div className="map-popup-footer">
-            {restaurant.reviews.length} review{restaurant.reviews.length !== 1 ? 's' : ''}
+            {restaurant.reviewCount} review{restaurant.reviewCount !== 1 ? 's' : ''}
             {onRestaurantClick && ' · Click for more'}
           </div>
         </div>
@@ -190,8 +492,35 @@ function RestaurantMarker({
   )
 }
 
-export function MapView({ restaurants, officeLocation, showOfficeMarker = false, orgName, onRestaurantClick }: MapViewProps) {
-  const { highlightedRestaurantId, setHighlightedRestaurantId } = useFilterStore()
+export function MapView({ restaurants, officeLocation, showOfficeMarker = false, orgName, onRestaurantClick, onBoundsChange, showAreaFilters = false, walkRings = [], offices = [], activeOfficeId = null, onOfficeChange, tiles }: MapViewProps) {
+  const {
+    highlightedRestaurantId,
+    setHighlightedRestaurantId,
+    selectedBounds,
+    setSelectedBounds,
+    selectedRegion,
+    setSelectedRegion,
+  } = useFilterStore()
+  const [drawing, setDrawing] = useState(false)
+  const [showHeatmap, setShowHeatmap] = useState(false)
+  const viewportRef = useRef<Bounds | null>(null)
+
+  // "Filter to map area" keeps selectedBounds on the viewport while it's on
+  const filterToArea = selectedBounds !== null
+  const handleBoundsChange = useCallback((bounds: Bounds) => {
+    viewportRef.current = bounds
+    onBoundsChange?.(bounds)
+    if (useFilterStore.getState().selectedBounds) setSelectedBounds(bounds)
+  }, [onBoundsChange, setSelectedBounds])
+
+  const toggleFilterToArea = () => {
+    setSelectedBounds(filterToArea ? null : viewportRef.current)
+  }
+
+  const handleLassoComplete = useCallback((region: Region | null) => {
+    setDrawing(false)
+    if (region) setSelectedRegion(region)
+  }, [setSelectedRegion])
 
   const mapCenter = officeLocation || DEFAULT_CENTER
 
@@ -211,12 +540,29 @@ export function MapView({ restaurants, officeLocation, showOfficeMarker = false,
         attributionControl={false}
       >
         <AttributionControl position="bottomright" prefix={false} />
-        <TileLayer
-          attribution='© OpenStreetMap'
-          url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
-        />
+        <MapTiles tiles={tiles} />
 
         <MapController highlightedId={highlightedRestaurantId} restaurants={restaurants} />
+        <BoundsWatcher onBoundsChange={handleBoundsChange} />
+        <LassoTool active={drawing} onComplete={handleLassoComplete} />
+        {officeLocation && <OfficeRecenter lat={officeLocation.lat} lng={officeLocation.lng} />}
+        <MapFocus />
+
+        {selectedRegion && (
+          <Polygon positions={selectedRegion.map(([lng, lat]) => [lat, lng] as [number, number])} pathOptions={AREA_STYLE} />
+        )}
+
+        {/* Walking range rings around the office */}
+        {showOfficeMarker && officeLocation && walkRings.map(ring => (
+          <Circle
+            key={ring.minutes}
+            center={[officeLocation.lat, officeLocation.lng]}
+            radius={ring.metres}
+            pathOptions={{ color: '#c45d3e', weight: 1, dashArray: '4 4', fill: false }}
+          >
+            <Tooltip sticky>{ring.minutes} min walk</Tooltip>
+          </Circle>
+        ))}
 
         {/* Office marker - only show when in org context */}
         {showOfficeMarker && officeLocation && (
@@ -227,17 +573,68 @@ export function MapView({ restaurants, officeLocation, showOfficeMarker = false,
           />
         )}
 
-        {/* Restaurant markers */}
-        {validRestaurants.map(restaurant => (
-          <RestaurantMarker
-            key={restaurant.id}
-            restaurant={restaurant}
-            isHighlighted={highlightedRestaurantId === restaurant.id}
-            onClick={setHighlightedRestaurantId}
-            onRestaurantClick={onRestaurantClick}
-          />
-        ))}
+        {showHeatmap && <HeatLayer restaurants={validRestaurants} />}
+
+        {/* Restaurant markers, clustered when zoomed out */}
+        <ClusteredMarkers
+          restaurants={validRestaurants}
+          highlightedId={highlightedRestaurantId}
+          onClick={setHighlightedRestaurantId}
+          onRestaurantClick={onRestaurantClick}
+        />
       </MapContainer>
+
+      {showOfficeMarker && offices.length > 1 && onOfficeChange && (
+        <div className="map-office-switcher">
+          <select
+            value={activeOfficeId || ''}
+            onChange={(e) => onOfficeChange(e.target.value)}
+            aria-label="Office"
+            data-testid="office-switcher"
+          >
+            {offices.map(office => (
+              <option key={office.id} value={office.id}>{office.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="map-area-controls">
+        <button
+          type="button"
+          className={`chip sm ${showHeatmap ? 'active' : ''}`}
+          onClick={() => setShowHeatmap(!showHeatmap)}
+          data-testid="toggle-heatmap"
+        >
+          Heatmap
+        </button>
+        {showAreaFilters && (
+          <>
+            <button
+              type="button"
+              className={`chip sm ${filterToArea ? 'active' : ''}`}
+              onClick={toggleFilterToArea}
+              data-testid="filter-to-map-area"
+            >
+              Filter to map area
+            </button>
+            {selectedRegion && !drawing ? (
+              <button type="button" className="chip sm active" onClick={() => setSelectedRegion(null)}>
+                Clear drawn area
+              </button>
+            ) : (
+              <button
+                type="button"
+                className={`chip sm ${drawing ? 'active' : ''}`}
+                onClick={() => setDrawing(!drawing)}
+                data-testid="draw-map-area"
+              >
+                {drawing ? 'Drag around an area' : 'Draw area'}
+              </button>
+            )}
+          </>
+        )}
+      </div>
     </div>
   )
 }
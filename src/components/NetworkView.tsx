@@ -1,8 +1,13 @@
-import { useState, useEffect, useCallback } from 'react'
+import { Fragment, useState, useEffect, useCallback } from 'react'
 import { supabase } from '../lib/supabase'
 import type { User } from '@supabase/supabase-js'
 import type { OrganisationWithMembership, Organisation } from '../lib/database.types'
 import { TopNav } from './TopNav'
+import { getRatingClass } from '../lib/ratings'
+import { ratingSpread, calibrationFor, calibrationTendency, describeCalibration, NO_SPREAD } from '../lib/calibration'
+import type { Calibration } from '../lib/calibration'
+import { ratingsByPlace, compatibility, describeCompatibility } from '../lib/compatibility'
+import { TasteComparison } from './TasteComparison'
 
 type TabType = 'following' | 'followers' | 'requests' | 'find'
 
@@ -16,6 +21,8 @@ interface UserWithStats {
   avgRating: number | null
   lowestRating: number | null
   highestRating: number | null
+  calibration: Calibration | null
+  ratings: Map<string, number> // by restaurant, for taste compatibility
   isFollowing: boolean
   isFollower: boolean
   hasRequestedToFollow: boolean
@@ -29,11 +36,11 @@ interface FollowRequest {
   created_at: string | null
 }
 
-function getRatingClass(rating: number): string {
-  if (rating >= 8) return 'rating-great'
-  if (rating >= 6) return 'rating-good'
-  return 'rating-poor'
-}
+type UserStats = Pick<UserWithStats, 'reviewCount' | 'avgRating' | 'lowestRating' | 'highestRating' | 'calibration' | 'ratings'>
+
+const NO_STATS: UserStats = { reviewCount: 0, avgRating: null, lowestRating: null, highestRating: null, calibration: null, ratings: new Map() }
+
+const TENDENCY_LABELS = { harsh: 'Harsh', generous: 'Generous', typical: 'Typical' }
 
 export function NetworkView() {
   const [user, setUser] = useState<User | null>(null)
@@ -52,37 +59,46 @@ export function NetworkView() {
   const [_followerIds, setFollowerIds] = useState<Set<string>>(new Set())
   const [outgoingRequestIds, setOutgoingRequestIds] = useState<Set<string>>(new Set())
   const [_incomingRequests, setIncomingRequests] = useState<FollowRequest[]>([])
+  const [myRatings, setMyRatings] = useState<Map<string, number>>(new Map())
+  const [comparingId, setComparingId] = useState<string | null>(null)
 
   // Fetch user stats (reviews, ratings)
-  const fetchUserStats = useCallback(async (userIds: string[]): Promise<Map<string, { reviewCount: number; avgRating: number | null; lowestRating: number | null; highestRating: number | null }>> => {
-    const stats = new Map<string, { reviewCount: number; avgRating: number | null; lowestRating: number | null; highestRating: number | null }>()
+  const fetchUserStats = useCallback(async (userIds: string[]): Promise<Map<string, UserStats>> => {
+    const stats = new Map<string, UserStats>()
 
     if (userIds.length === 0) return stats
 
-    const { data: reviews } = await supabase
-      .from('reviews')
-      .select('user_id, rating')
-      .in('user_id', userIds)
+    const [{ data: reviews }, { data: spread }] = await Promise.all([
+      supabase
+        .from('visible_reviews')
+        .select('user_id, restaurant_id, rating')
+        .in('user_id', userIds),
+      supabase.rpc('rating_spread'),
+    ])
+    const site = spread?.[0] ? { count: spread[0].review_count, mean: spread[0].mean, sd: spread[0].sd } : NO_SPREAD
 
     if (reviews) {
       // Group reviews by user
-      const reviewsByUser = new Map<string, number[]>()
+      const reviewsByUser = new Map<string, typeof reviews>()
       for (const review of reviews) {
         if (!review.user_id || review.rating === null) continue
         if (!reviewsByUser.has(review.user_id)) {
           reviewsByUser.set(review.user_id, [])
         }
-        reviewsByUser.get(review.user_id)!.push(review.rating)
+        reviewsByUser.get(review.user_id)!.push(review)
       }
 
       // Calculate stats
       for (const userId of userIds) {
-        const ratings = reviewsByUser.get(userId) || []
+        const userReviews = reviewsByUser.get(userId) || []
+        const ratings = userReviews.map(r => r.rating!)
         stats.set(userId, {
           reviewCount: ratings.length,
           avgRating: ratings.length > 0 ? ratings.reduce((a, b) => a + b, 0) / ratings.length : null,
           lowestRating: ratings.length > 0 ? Math.min(...ratings) : null,
           highestRating: ratings.length > 0 ? Math.max(...ratings) : null,
+          calibration: calibrationFor(ratingSpread(ratings), site),
+          ratings: ratingsByPlace(userReviews),
         })
       }
     }
@@ -115,7 +131,7 @@ export function NetworkView() {
           email: p.email,
           isPrivate: p.is_private || false,
           avatarUrl: p.avatar_url || null,
-          ...stats.get(p.id) || { reviewCount: 0, avgRating: null, lowestRating: null, highestRating: null },
+          ...stats.get(p.id) || NO_STATS,
           isFollowing: true,
           isFollower: false,
           hasRequestedToFollow: false,
@@ -154,7 +170,7 @@ export function NetworkView() {
           email: p.email,
           isPrivate: p.is_private || false,
           avatarUrl: p.avatar_url || null,
-          ...stats.get(p.id) || { reviewCount: 0, avgRating: null, lowestRating: null, highestRating: null },
+          ...stats.get(p.id) || NO_STATS,
           isFollowing: currentFollowingIds.has(p.id),
           isFollower: true,
           hasRequestedToFollow: currentOutgoingRequestIds.has(p.id),
@@ -193,7 +209,7 @@ export function NetworkView() {
           email: p.email,
           isPrivate: p.is_private || false,
           avatarUrl: p.avatar_url || null,
-          ...stats.get(p.id) || { reviewCount: 0, avgRating: null, lowestRating: null, highestRating: null },
+          ...stats.get(p.id) || NO_STATS,
           isFollowing: false,
           isFollower: false,
           hasRequestedToFollow: false,
@@ -238,7 +254,7 @@ export function NetworkView() {
         email: p.email,
         isPrivate: p.is_private || false,
         avatarUrl: p.avatar_url || null,
-        ...stats.get(p.id) || { reviewCount: 0, avgRating: null, lowestRating: null, highestRating: null },
+        ...stats.get(p.id) || NO_STATS,
         isFollowing: followingSet.has(p.id),
         isFollower: false,
         hasRequestedToFollow: outgoingSet.has(p.id),
@@ -457,6 +473,13 @@ export function NetworkView() {
           setIsPrivate(profile.is_private || false)
         }
 
+        // My own ratings, to compare tastes with
+        const { data: myReviews } = await supabase
+          .from('visible_reviews')
+          .select('restaurant_id, rating')
+          .eq('user_id', data.user.id)
+        setMyRatings(ratingsByPlace(myReviews || []))
+
         // First fetch following and outgoing requests (needed for followers)
         const [followingResult, outgoingResult] = await Promise.all([
           supabase.from('user_follows').select('following_id').eq('follower_id', data.user.id),
@@ -667,166 +690,201 @@ export function NetworkView() {
                 <th style={{ textAlign: 'center' }}>Avg</th>
                 <th className="hide-mobile" style={{ textAlign: 'center' }}>Lowest</th>
                 <th className="hide-mobile" style={{ textAlign: 'center' }}>Highest</th>
+                <th style={{ textAlign: 'center' }}>Match</th>
                 <th></th>
               </tr>
             </thead>
             <tbody>
-              {displayUsers.map((person) => (
-                <tr key={person.id}>
-                  <td>
-                    <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
-                      {person.avatarUrl ? (
-                        <img
-                          src={person.avatarUrl}
-                          alt={person.name}
-                          style={{
-                            width: '40px',
-                            height: '40px',
-                            objectFit: 'cover',
-                          }}
-                        />
-                      ) : (
-                        <div style={{
-                          width: '40px',
-                          height: '40px',
-                          background: 'var(--accent-light)',
-                          display: 'flex',
-                          alignItems: 'center',
-                          justifyContent: 'center',
-                          fontWeight: 500,
-                          color: 'var(--accent)',
-                          fontSize: '14px',
-                        }}>
-                          {person.name.slice(0, 2).toUpperCase()}
-                        </div>
-                      )}
-                      <div>
-                        <div style={{ fontWeight: 500, display: 'flex', alignItems: 'center', gap: '8px' }}>
-                          {person.name}
-                          {person.isPrivate && (
-                            <span style={{ fontSize: '10px', color: 'var(--text-muted)' }} title="Private account">
-                              🔒
-                            </span>
+              {displayUsers.map((person) => {
+                const match = compatibility(myRatings, person.ratings)
+                return (
+                  <Fragment key={person.id}>
+                    <tr>
+                      <td>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                          {person.avatarUrl ? (
+                            <img
+                              src={person.avatarUrl}
+                              alt={person.name}
+                              style={{
+                                width: '40px',
+                                height: '40px',
+                                objectFit: 'cover',
+                              }}
+                            />
+                          ) : (
+                            <div style={{
+                              width: '40px',
+                              height: '40px',
+                              background: 'var(--accent-light)',
+                              display: 'flex',
+                              alignItems: 'center',
+                              justifyContent: 'center',
+                              fontWeight: 500,
+                              color: 'var(--accent)',
+                              fontSize: '14px',
+                            }}>
+                              {person.name.slice(0, 2).toUpperCase()}
+                            </div>
                           )}
+                          <div>
+                            <div style={{ fontWeight: 500, display: 'flex', alignItems: 'center', gap: '8px' }}>
+                              {person.name}
+                              {person.isPrivate && (
+                                <span style={{ fontSize: '10px', color: 'var(--text-muted)' }} title="Private account">
+                                  🔒
+                                </span>
+                              )}
+                            </div>
+                          </div>
                         </div>
-                      </div>
-                    </div>
-                  </td>
-                  <td className="hide-mobile" style={{ textAlign: 'center' }}>
-                    <span className="mono">{person.reviewCount}</span>
-                  </td>
-                  <td style={{ textAlign: 'center' }}>
-                    {person.avgRating !== null ? (
-                      <span className={`mono ${getRatingClass(person.avgRating)}`}>
-                        {person.avgRating.toFixed(1)}
-                      </span>
-                    ) : (
-                      <span style={{ color: 'var(--text-muted)' }}>—</span>
-                    )}
-                  </td>
-                  <td className="hide-mobile" style={{ textAlign: 'center' }}>
-                    {person.lowestRating !== null ? (
-                      <span className={`mono ${getRatingClass(person.lowestRating)}`}>
-                        {person.lowestRating}
-                      </span>
-                    ) : (
-                      <span style={{ color: 'var(--text-muted)' }}>—</span>
-                    )}
-                  </td>
-                  <td className="hide-mobile" style={{ textAlign: 'center' }}>
-                    {person.highestRating !== null ? (
-                      <span className={`mono ${getRatingClass(person.highestRating)}`}>
-                        {person.highestRating}
-                      </span>
-                    ) : (
-                      <span style={{ color: 'var(--text-muted)' }}>—</span>
-                    )}
-                  </td>
-                  <td style={{ textAlign: 'right', paddingRight: '16px' }}>
-                    {activeTab === 'following' ? (
-                      <button
-                        onClick={() => handleUnfollow(person.id)}
-                        className="btn"
-                        style={{
-                          padding: '6px 14px',
-                          fontSize: '10px',
-                          borderColor: 'var(--border)',
-                          color: 'var(--text-muted)',
-                        }}
-                      >
-                        Unfollow
-                      </button>
-                    ) : activeTab === 'followers' ? (
-                      <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end', alignItems: 'center' }}>
-                        {person.isFollowing ? (
-                          <span style={{ fontSize: '11px', color: 'var(--text-muted)', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
-                            Following
+                      </td>
+                      <td className="hide-mobile" style={{ textAlign: 'center' }}>
+                        <span className="mono">{person.reviewCount}</span>
+                      </td>
+                      <td style={{ textAlign: 'center' }}>
+                        {person.avgRating !== null ? (
+                          <>
+                            <span className={`mono ${getRatingClass(person.avgRating)}`}>
+                              {person.avgRating.toFixed(1)}
+                            </span>
+                            {person.calibration && (
+                              <span
+                                className="calibration-hint"
+                                title={describeCalibration(person.calibration)}
+                                data-testid="calibration-hint"
+                              >
+                                {TENDENCY_LABELS[calibrationTendency(person.calibration)]}
+                              </span>
+                            )}
+                          </>
+                        ) : (
+                          <span style={{ color: 'var(--text-muted)' }}>—</span>
+                        )}
+                      </td>
+                      <td className="hide-mobile" style={{ textAlign: 'center' }}>
+                        {person.lowestRating !== null ? (
+                          <span className={`mono ${getRatingClass(person.lowestRating)}`}>
+                            {person.lowestRating}
+                          </span>
+                        ) : (
+                          <span style={{ color: 'var(--text-muted)' }}>—</span>
+                        )}
+                      </td>
+                      <td className="hide-mobile" style={{ textAlign: 'center' }}>
+                        {person.highestRating !== null ? (
+                          <span className={`mono ${getRatingClass(person.highestRating)}`}>
+                            {person.highestRating}
                           </span>
-                        ) : person.hasRequestedToFollow ? (
+                        ) : (
+                          <span style={{ color: 'var(--text-muted)' }}>—</span>
+                        )}
+                      </td>
+                      <td style={{ textAlign: 'center' }}>
+                        <button
+                          onClick={() => setComparingId(comparingId === person.id ? null : person.id)}
+                          className="taste-match"
+                          title={describeCompatibility(match)}
+                          data-testid="taste-match"
+                        >
+                          {match.score !== null ? `${match.score}%` : '—'}
+                          <span className="taste-match-toggle">{comparingId === person.id ? '▴' : '▾'}</span>
+                        </button>
+                      </td>
+                      <td style={{ textAlign: 'right', paddingRight: '16px' }}>
+                        {activeTab === 'following' ? (
                           <button
-                            onClick={() => handleCancelRequest(person.id)}
+                            onClick={() => handleUnfollow(person.id)}
                             className="btn"
-                            style={{ padding: '6px 14px', fontSize: '10px', borderColor: 'var(--border)', color: 'var(--text-muted)' }}
+                            style={{
+                              padding: '6px 14px',
+                              fontSize: '10px',
+                              borderColor: 'var(--border)',
+                              color: 'var(--text-muted)',
+                            }}
                           >
-                            Requested
+                            Unfollow
                           </button>
+                        ) : activeTab === 'followers' ? (
+                          <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end', alignItems: 'center' }}>
+                            {person.isFollowing ? (
+                              <span style={{ fontSize: '11px', color: 'var(--text-muted)', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+                                Following
+                              </span>
+                            ) : person.hasRequestedToFollow ? (
+                              <button
+                                onClick={() => handleCancelRequest(person.id)}
+                                className="btn"
+                                style={{ padding: '6px 14px', fontSize: '10px', borderColor: 'var(--border)', color: 'var(--text-muted)' }}
+                              >
+                                Requested
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => handleFollow(person.id, person.isPrivate)}
+                                className="btn btn-accent"
+                                style={{ padding: '6px 14px', fontSize: '10px' }}
+                              >
+                                {person.isPrivate ? 'Request' : 'Follow back'}
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleRemoveFollower(person.id)}
+                              className="btn"
+                              style={{ padding: '6px 14px', fontSize: '10px', borderColor: 'var(--border)', color: 'var(--text-muted)' }}
+                              title="Remove this follower"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        ) : activeTab === 'requests' ? (
+                          <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+                            <button
+                              onClick={() => handleAcceptRequest(person.id)}
+                              className="btn btn-accent"
+                              style={{ padding: '6px 14px', fontSize: '10px' }}
+                            >
+                              Accept
+                            </button>
+                            <button
+                              onClick={() => handleDeclineRequest(person.id)}
+                              className="btn"
+                              style={{ padding: '6px 14px', fontSize: '10px', borderColor: 'var(--border)', color: 'var(--text-muted)' }}
+                            >
+                              Decline
+                            </button>
+                          </div>
                         ) : (
-                          <button
-                            onClick={() => handleFollow(person.id, person.isPrivate)}
-                            className="btn btn-accent"
-                            style={{ padding: '6px 14px', fontSize: '10px' }}
-                          >
-                            {person.isPrivate ? 'Request' : 'Follow back'}
-                          </button>
+                          person.hasRequestedToFollow ? (
+                            <button
+                              onClick={() => handleCancelRequest(person.id)}
+                              className="btn"
+                              style={{ padding: '6px 14px', fontSize: '10px', borderColor: 'var(--border)', color: 'var(--text-muted)' }}
+                            >
+                              Requested
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => handleFollow(person.id, person.isPrivate)}
+                              className="btn btn-accent"
+                              style={{ padding: '6px 14px', fontSize: '10px' }}
+                            >
+                              {person.isPrivate ? 'Request' : 'Follow'}
+                            </button>
+                          )
                         )}
-                        <button
-                          onClick={() => handleRemoveFollower(person.id)}
-                          className="btn"
-                          style={{ padding: '6px 14px', fontSize: '10px', borderColor: 'var(--border)', color: 'var(--text-muted)' }}
-                          title="Remove this follower"
-                        >
-                          Remove
-                        </button>
-                      </div>
-                    ) : activeTab === 'requests' ? (
-                      <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
-                        <button
-                          onClick={() => handleAcceptRequest(person.id)}
-                          className="btn btn-accent"
-                          style={{ padding: '6px 14px', fontSize: '10px' }}
-                        >
-                          Accept
-                        </button>
-                        <button
-                          onClick={() => handleDeclineRequest(person.id)}
-                          className="btn"
-                          style={{ padding: '6px 14px', fontSize: '10px', borderColor: 'var(--border)', color: 'var(--text-muted)' }}
-                        >
-                          Decline
-                        </button>
-                      </div>
-                    ) : (
-                      person.hasRequestedToFollow ? (
-                        <button
-                          onClick={() => handleCancelRequest(person.id)}
-                          className="btn"
-                          style={{ padding: '6px 14px', fontSize: '10px', borderColor: 'var(--border)', color: 'var(--text-muted)' }}
-                        >
-                          Requested
-                        </button>
-                      ) : (
-                        <button
-                          onClick={() => handleFollow(person.id, person.isPrivate)}
-                          className="btn btn-accent"
-                          style={{ padding: '6px 14px', fontSize: '10px' }}
-                        >
-                          {person.isPrivate ? 'Request' : 'Follow'}
-                        </button>
-                      )
+                      </td>
+                    </tr>
+                    {comparingId === person.id && (
+                      <tr className="taste-comparison-row">
+                        <td colSpan={7}>
+                          <TasteComparison name={person.name} mine={myRatings} theirs={person.ratings} />
+                        </td>
+                      </tr>
                     )}
-                  </td>
-                </tr>
-              ))}
+                  </Fragment>
+                )
+              })}
             </tbody>
           </table>
         ) : (
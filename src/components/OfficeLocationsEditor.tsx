@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '../lib/supabase'
+import { validateOffice, parseCoordinates, MAX_OFFICES } from '../lib/offices'
+import type { Office } from '../lib/database.types'
+
+interface OfficeLocationsEditorProps {
+  organisationId: string
+  onError?: (message: string) => void
+  onSuccess?: (message: string) => void
+}
+
+const linkButtonStyle = { background: 'none', border: 'none', cursor: 'pointer', fontSize: '12px', color: 'var(--text-secondary)' }
+
+const fieldLabelStyle = { display: 'block', fontSize: '11px', textTransform: 'uppercase' as const, letterSpacing: '0.08em', color: 'var(--text-muted)', marginBottom: '8px' }
+
+export function OfficeLocationsEditor({ organisationId, onError, onSuccess }: OfficeLocationsEditorProps) {
+  const [offices, setOffices] = useState<Office[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [name, setName] = useState('')
+  const [coordinates, setCoordinates] = useState('')
+
+  const fetchOffices = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('office_locations')
+      .select('*')
+      .eq('organisation_id', organisationId)
+      .order('position')
+
+    if (error) {
+      onError?.(error.message)
+    } else {
+      setOffices(data || [])
+    }
+    setLoading(false)
+  }, [organisationId, onError])
+
+  useEffect(() => {
+    fetchOffices()
+  }, [fetchOffices])
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const problem = validateOffice(name, coordinates, offices)
+    const location = parseCoordinates(coordinates)
+    if (problem || !location) {
+      onError?.(problem || 'Coordinates should look like 51.5047, -0.0886')
+      return
+    }
+
+    setSaving(true)
+    const { error } = await supabase.from('office_locations').insert({
+      organisation_id: organisationId,
+      name: name.trim(),
+      latitude: location.lat,
+      longitude: location.lng,
+      position: offices.length > 0 ? Math.max(...offices.map(o => o.position)) + 1 : 0,
+    })
+
+    if (error) {
+      onError?.(error.message)
+    } else {
+      onSuccess?.(`Added ${name.trim()}`)
+      setName('')
+      setCoordinates('')
+      await fetchOffices()
+    }
+    setSaving(false)
+  }
+
+  const handleRemove = async (office: Office) => {
+    if (!confirm(`Remove ${office.name}? Members based there will fall back to the first office.`)) return
+
+    setSaving(true)
+    const { error } = await supabase.from('office_locations').delete().eq('id', office.id)
+    if (error) {
+      onError?.(error.message)
+    } else {
+      onSuccess?.(`Removed ${office.name}`)
+      await fetchOffices()
+    }
+    setSaving(false)
+  }
+
+  if (loading) {
+    return <p style={{ fontSize: '13px', color: 'var(--text-muted)' }}>Loading...</p>
+  }
+
+  return (
+    <div>
+      {offices.length === 0 ? (
+        <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginBottom: '16px' }}>
+          Add an office to centre the map on it and measure walks from it.
+        </p>
+      ) : (
+        <div style={{ marginBottom: '24px' }}>
+          {offices.map((office, index) => (
+            <div
+              key={office.id}
+              data-testid="office-location"
+              style={{ display: 'flex', alignItems: 'center', gap: '12px', padding: '8px 0', borderBottom: '1px solid var(--border)' }}
+            >
+              <span style={{ flex: 1, fontSize: '14px', fontWeight: 500 }}>
+                {office.name}
+                {index === 0 && (
+                  <span style={{ fontSize: '12px', fontWeight: 400, color: 'var(--text-muted)', marginLeft: '8px' }}>default</span>
+                )}
+              </span>
+              <span className="mono" style={{ fontSize: '12px', color: 'var(--text-muted)' }}>
+                {Number(office.latitude).toFixed(4)}, {Number(office.longitude).toFixed(4)}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleRemove(office)}
+                disabled={saving}
+                style={{ ...linkButtonStyle, color: 'var(--poor)' }}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {offices.length < MAX_OFFICES && (
+        <form onSubmit={handleAdd} className="settings-form-row">
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <label style={fieldLabelStyle}>Office</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. London Bridge"
+              maxLength={60}
+              style={{ width: '100%', maxWidth: '220px' }}
+            />
+          </div>
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <label style={fieldLabelStyle}>Coordinates</label>
+            <input
+              type="text"
+              value={coordinates}
+              onChange={(e) => setCoordinates(e.target.value)}
+              placeholder="51.5047, -0.0886"
+              className="mono"
+              style={{ width: '100%', maxWidth: '220px' }}
+            />
+          </div>
+          <button type="submit" disabled={saving || !name.trim() || !coordinates.trim()} className="btn btn-accent settings-form-btn">
+            {saving ? '...' : 'Add'}
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
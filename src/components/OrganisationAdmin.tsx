@@ -3,6 +3,10 @@ import { supabase } from '../lib/supabase'
 import type { Organisation, OrganisationMember, OrganisationInvite, OrganisationRequest, Profile, OrganisationWithMembership } from '../lib/database.types'
 import type { User } from '@supabase/supabase-js'
 import { TopNav } from './TopNav'
+import { RestaurantMerge } from './RestaurantMerge'
+import { RatingDimensionsEditor } from './RatingDimensionsEditor'
+import { OfficeLocationsEditor } from './OfficeLocationsEditor'
+import { MapTilesEditor } from './MapTilesEditor'
 
 interface OrganisationAdminProps {
   organisationSlug: string
@@ -416,6 +420,7 @@ export function OrganisationAdmin({ organisationSlug }: OrganisationAdminProps)
     slug: o.slug,
     office_location: null,
     tagline: null,
+    map_tiles: null,
     created_at: null,
     role: o.role,
   }))
@@ -681,6 +686,58 @@ export function OrganisationAdmin({ organisationSlug }: OrganisationAdminProps)
           </div>
         </div>
 
+        {/* Offices */}
+        <div className="settings-row">
+          <div className="settings-label">
+            <h2>Offices</h2>
+            <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginTop: '4px' }}>
+              Where your members work from
+            </p>
+          </div>
+          <div className="settings-content">
+            <OfficeLocationsEditor organisationId={org.id} onError={setError} onSuccess={setSuccess} />
+          </div>
+        </div>
+
+        {/* Map tiles */}
+        <div className="settings-row">
+          <div className="settings-label">
+            <h2>Map</h2>
+            <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginTop: '4px' }}>
+              Tiles and style for your members' maps
+            </p>
+          </div>
+          <div className="settings-content">
+            <MapTilesEditor organisationId={org.id} value={org.map_tiles} onError={setError} onSuccess={setSuccess} />
+          </div>
+        </div>
+
+        {/* Rating dimensions */}
+        <div className="settings-row">
+          <div className="settings-label">
+            <h2>Ratings</h2>
+            <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginTop: '4px' }}>
+              Extra things your team rates
+            </p>
+          </div>
+          <div className="settings-content">
+            <RatingDimensionsEditor organisationId={org.id} onError={setError} onSuccess={setSuccess} />
+          </div>
+        </div>
+
+        {/* Duplicate places */}
+        <div className="settings-row">
+          <div className="settings-label">
+            <h2>Places</h2>
+            <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginTop: '4px' }}>
+              Merge duplicate places
+            </p>
+          </div>
+          <div className="settings-content">
+            <RestaurantMerge onError={setError} onSuccess={setSuccess} />
+          </div>
+        </div>
+
         {/* Danger zone */}
         <div className="settings-row" style={{ marginTop: '48px', paddingTop: '48px', borderTop: '1px solid var(--border)' }}>
           <div className="settings-label">
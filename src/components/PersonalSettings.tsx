@@ -1,12 +1,14 @@
 import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '../lib/supabase'
-import type { Organisation, OrganisationInvite, OrganisationRequest, Profile, OrganisationWithMembership } from '../lib/database.types'
+import type { Organisation, OrganisationInvite, OrganisationRequest, Profile, OrganisationWithMembership, Office } from '../lib/database.types'
 import type { User } from '@supabase/supabase-js'
 import { TopNav } from './TopNav'
+import { DEFAULT_WALKING_SPEED_KMH, MIN_WALKING_SPEED_KMH, MAX_WALKING_SPEED_KMH } from '../lib/geo'
 
 interface OrgWithRole extends Organisation {
   role: 'admin' | 'member'
   membershipId: string
+  officeId: string | null
 }
 
 interface InviteWithOrg extends OrganisationInvite {
@@ -21,6 +23,7 @@ interface RequestWithOrg extends OrganisationRequest {
 export function PersonalSettings() {
   const [user, setUser] = useState<User | null>(null)
   const [orgs, setOrgs] = useState<OrgWithRole[]>([])
+  const [offices, setOffices] = useState<Office[]>([])
   const [invites, setInvites] = useState<InviteWithOrg[]>([])
   const [pendingRequests, setPendingRequests] = useState<RequestWithOrg[]>([])
   const [loading, setLoading] = useState(true)
@@ -31,6 +34,8 @@ export function PersonalSettings() {
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null)
   const [saving, setSaving] = useState(false)
   const [savingPrivacy, setSavingPrivacy] = useState(false)
+  const [walkingSpeed, setWalkingSpeed] = useState(String(DEFAULT_WALKING_SPEED_KMH))
+  const [savingWalkingSpeed, setSavingWalkingSpeed] = useState(false)
   const [uploadingAvatar, setUploadingAvatar] = useState(false)
 
   // Search state
@@ -48,7 +53,7 @@ export function PersonalSettings() {
     // Fetch user's profile
     const { data: profile } = await supabase
       .from('profiles')
-      .select('display_name, is_private, avatar_url')
+      .select('display_name, is_private, avatar_url, walking_speed_kmh')
       .eq('id', user.id)
       .single()
 
@@ -56,12 +61,13 @@ export function PersonalSettings() {
       setDisplayName(profile.display_name || '')
       setIsPrivate(profile.is_private || false)
       setAvatarUrl(profile.avatar_url || null)
+      setWalkingSpeed(String(profile.walking_speed_kmh))
     }
 
     // Fetch user's organisations
     const { data: memberships } = await supabase
       .from('organisation_members')
-      .select('id, role, organisation_id, organisations(*)')
+      .select('id, role, organisation_id, office_id, organisations(*)')
       .eq('user_id', user.id)
 
     if (memberships) {
@@ -69,8 +75,18 @@ export function PersonalSettings() {
         ...(m.organisations as Organisation),
         role: m.role as 'admin' | 'member',
         membershipId: m.id,
+        officeId: m.office_id,
       }))
       setOrgs(userOrgs)
+
+      const { data: officeData } = userOrgs.length > 0
+        ? await supabase
+          .from('office_locations')
+          .select('*')
+          .in('organisation_id', userOrgs.map(o => o.id))
+          .order('position')
+        : { data: [] }
+      setOffices(officeData || [])
     }
 
     // Fetch pending invites for user's email
@@ -174,6 +190,33 @@ export function PersonalSettings() {
     setSavingPrivacy(false)
   }
 
+  const handleUpdateWalkingSpeed = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+
+    const speed = Number(walkingSpeed)
+    if (!Number.isFinite(speed) || speed < MIN_WALKING_SPEED_KMH || speed > MAX_WALKING_SPEED_KMH) {
+      setError(`Walking speed must be between ${MIN_WALKING_SPEED_KMH} and ${MAX_WALKING_SPEED_KMH} km/h`)
+      return
+    }
+
+    setSavingWalkingSpeed(true)
+    setError(null)
+    setSuccess(null)
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ walking_speed_kmh: speed })
+      .eq('id', user.id)
+
+    if (error) {
+      setError(error.message)
+    } else {
+      setSuccess('Walking speed updated')
+    }
+    setSavingWalkingSpeed(false)
+  }
+
   const handleAvatarUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!user || !e.target.files || e.target.files.length === 0) return
 
@@ -263,6 +306,21 @@ export function PersonalSettings() {
     }
   }
 
+  const handleHomeOfficeChange = async (org: OrgWithRole, officeId: string | null) => {
+    setError(null)
+    setSuccess(null)
+
+    const { error } = await supabase.rpc('set_home_office', { org_id: org.id, office_uuid: officeId })
+
+    if (error) {
+      setError(error.message)
+    } else {
+      const office = offices.find(o => o.id === officeId)
+      setSuccess(office ? `You're based at ${office.name}` : `Home office cleared for ${org.name}`)
+      setOrgs(orgs.map(o => o.id === org.id ? { ...o, officeId } : o))
+    }
+  }
+
   const handleLeaveOrg = async (membershipId: string, orgName: string) => {
     if (!confirm(`Are you sure you want to leave ${orgName}?`)) return
 
@@ -649,6 +707,40 @@ export function PersonalSettings() {
           </div>
         </div>
 
+        {/* Walking speed */}
+        <div className="settings-row">
+          <div className="settings-label">
+            <h2>Walking</h2>
+            <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginTop: '4px' }}>
+              How far the walking filter reaches
+            </p>
+          </div>
+          <div className="settings-content">
+            <form onSubmit={handleUpdateWalkingSpeed}>
+              <div className="settings-form-row">
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <label style={{ display: 'block', fontSize: '11px', textTransform: 'uppercase', letterSpacing: '0.08em', color: 'var(--text-muted)', marginBottom: '8px' }}>
+                    Pace (km/h)
+                  </label>
+                  <input
+                    type="number"
+                    min={MIN_WALKING_SPEED_KMH}
+                    max={MAX_WALKING_SPEED_KMH}
+                    step="0.1"
+                    value={walkingSpeed}
+                    onChange={(e) => setWalkingSpeed(e.target.value)}
+                    style={{ width: '100%', maxWidth: '120px' }}
+                    data-testid="walking-speed-input"
+                  />
+                </div>
+                <button type="submit" disabled={savingWalkingSpeed} className="btn settings-form-btn">
+                  {savingWalkingSpeed ? '...' : 'Update'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+
         {/* Pending invites */}
         {invites.length > 0 && (
           <div className="settings-row">
@@ -726,6 +818,21 @@ export function PersonalSettings() {
                       }}>
                         {org.role}
                       </span>
+                      {offices.some(o => o.organisation_id === org.id) && (
+                        <div style={{ marginTop: '8px' }}>
+                          <select
+                            value={org.officeId || ''}
+                            onChange={(e) => handleHomeOfficeChange(org, e.target.value || null)}
+                            aria-label={`Home office at ${org.name}`}
+                            style={{ fontSize: '13px' }}
+                          >
+                            <option value="">Home office: not set</option>
+                            {offices.filter(o => o.organisation_id === org.id).map(office => (
+                              <option key={office.id} value={office.id}>Home office: {office.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
                     </div>
                     <button
                       onClick={() => handleLeaveOrg(org.membershipId, org.name)}
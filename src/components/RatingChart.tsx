@@ -13,6 +13,8 @@ import {
 import type { TooltipItem } from 'chart.js'
 import type { RestaurantWithReviews } from '../lib/database.types'
 import { useFilterStore } from '../lib/store'
+import { inMapArea } from '../lib/geo'
+import { calibrationsByUser, calibratedAverage } from '../lib/calibration'
 
 ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend)
 
@@ -61,28 +63,20 @@ const ratingBorderColors = [
 ]
 
 export function RatingChart({ restaurants }: RatingChartProps) {
-  const { selectedUserIds, selectedBounds, selectedRating, setSelectedRating } = useFilterStore()
+  const { selectedUserIds, selectedBounds, selectedRegion, selectedRating, setSelectedRating, calibrateRatings } = useFilterStore()
+
+  // Calibrated averages adjust each review for its author's habits
+  const calibrations = useMemo(() => calibrationsByUser(restaurants.flatMap(r => r.reviews)), [restaurants])
 
   const chartData = useMemo(() => {
     const counts = new Array(10).fill(0)
 
-    restaurants.forEach((r) => {
+    restaurants.forEach((restaurant) => {
+      const r = calibrateRatings ? { ...restaurant, avgRating: calibratedAverage(restaurant.reviews, calibrations) } : restaurant
       if (selectedUserIds.length > 0 && !r.reviews.some((rev) => rev.user_id && selectedUserIds.includes(rev.user_id))) {
         return
       }
-      if (selectedBounds) {
-        const [west, south, east, north] = selectedBounds
-        if (
-          r.latitude === null ||
-          r.longitude === null ||
-          r.longitude < west ||
-          r.longitude > east ||
-          r.latitude < south ||
-          r.latitude > north
-        ) {
-          return
-        }
-      }
+      if (!inMapArea(r, selectedBounds, selectedRegion)) return
 
       if (r.avgRating !== null) {
         const bucket = Math.min(Math.max(Math.round(r.avgRating), 1), 10) - 1
@@ -106,7 +100,7 @@ export function RatingChart({ restaurants }: RatingChartProps) {
         },
       ],
     }
-  }, [restaurants, selectedUserIds, selectedBounds, selectedRating])
+  }, [restaurants, calibrations, calibrateRatings, selectedUserIds, selectedBounds, selectedRegion, selectedRating])
 
   const options = {
     indexAxis: 'y' as const,
@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '../lib/supabase'
+import { validateDimension, DIMENSION_SCALES, MAX_DIMENSIONS } from '../lib/dimensions'
+import type { RatingDimension } from '../lib/database.types'
+
+interface RatingDimensionsEditorProps {
+  organisationId: string
+  onError?: (message: string) => void
+  onSuccess?: (message: string) => void
+}
+
+const linkButtonStyle = { background: 'none', border: 'none', cursor: 'pointer', fontSize: '12px', color: 'var(--text-secondary)' }
+
+const fieldLabelStyle = { display: 'block', fontSize: '11px', textTransform: 'uppercase' as const, letterSpacing: '0.08em', color: 'var(--text-muted)', marginBottom: '8px' }
+
+export function RatingDimensionsEditor({ organisationId, onError, onSuccess }: RatingDimensionsEditorProps) {
+  const [dimensions, setDimensions] = useState<RatingDimension[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [label, setLabel] = useState('')
+  const [scaleMax, setScaleMax] = useState(10)
+
+  const fetchDimensions = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('rating_dimensions')
+      .select('*')
+      .eq('organisation_id', organisationId)
+      .order('position')
+
+    if (error) {
+      onError?.(error.message)
+    } else {
+      setDimensions(data || [])
+    }
+    setLoading(false)
+  }, [organisationId, onError])
+
+  useEffect(() => {
+    fetchDimensions()
+  }, [fetchDimensions])
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const problem = validateDimension(label, scaleMax, dimensions)
+    if (problem) {
+      onError?.(problem)
+      return
+    }
+
+    setSaving(true)
+    const { error } = await supabase.from('rating_dimensions').insert({
+      organisation_id: organisationId,
+      label: label.trim(),
+      scale_max: scaleMax,
+      position: dimensions.length > 0 ? Math.max(...dimensions.map(d => d.position)) + 1 : 0,
+    })
+
+    if (error) {
+      onError?.(error.message)
+    } else {
+      onSuccess?.(`Added ${label.trim()}`)
+      setLabel('')
+      setScaleMax(10)
+      await fetchDimensions()
+    }
+    setSaving(false)
+  }
+
+  const handleRemove = async (dimension: RatingDimension) => {
+    if (!confirm(`Remove ${dimension.label}? Every score given for it will be deleted.`)) return
+
+    setSaving(true)
+    const { error } = await supabase.from('rating_dimensions').delete().eq('id', dimension.id)
+    if (error) {
+      onError?.(error.message)
+    } else {
+      onSuccess?.(`Removed ${dimension.label}`)
+      await fetchDimensions()
+    }
+    setSaving(false)
+  }
+
+  // Swap positions with the neighbour so the order on the review form changes
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const current = dimensions[index]
+    const neighbour = dimensions[index + direction]
+    if (!current || !neighbour) return
+
+    setSaving(true)
+    const [first, second] = await Promise.all([
+      supabase.from('rating_dimensions').update({ position: neighbour.position }).eq('id', current.id),
+      supabase.from('rating_dimensions').update({ position: current.position }).eq('id', neighbour.id),
+    ])
+    const error = first.error || second.error
+    if (error) onError?.(error.message)
+    await fetchDimensions()
+    setSaving(false)
+  }
+
+  if (loading) {
+    return <p style={{ fontSize: '13px', color: 'var(--text-muted)' }}>Loading...</p>
+  }
+
+  return (
+    <div>
+      {dimensions.length === 0 ? (
+        <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginBottom: '16px' }}>
+          Reviews are rated overall, for value and for taste. Add anything else your team cares about.
+        </p>
+      ) : (
+        <div style={{ marginBottom: '24px' }}>
+          {dimensions.map((dimension, index) => (
+            <div
+              key={dimension.id}
+              data-testid="rating-dimension"
+              style={{ display: 'flex', alignItems: 'center', gap: '12px', padding: '8px 0', borderBottom: '1px solid var(--border)' }}
+            >
+              <span style={{ flex: 1, fontSize: '14px', fontWeight: 500 }}>{dimension.label}</span>
+              <span className="mono" style={{ fontSize: '12px', color: 'var(--text-muted)' }}>1–{dimension.scale_max}</span>
+              <button
+                type="button"
+                style={linkButtonStyle}
+                onClick={() => handleMove(index, -1)}
+                disabled={saving || index === 0}
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                style={linkButtonStyle}
+                onClick={() => handleMove(index, 1)}
+                disabled={saving || index === dimensions.length - 1}
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRemove(dimension)}
+                disabled={saving}
+                style={{ ...linkButtonStyle, color: 'var(--poor)' }}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {dimensions.length < MAX_DIMENSIONS && (
+        <form onSubmit={handleAdd} className="settings-form-row">
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <label style={fieldLabelStyle}>Dimension</label>
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Speed"
+              maxLength={40}
+              style={{ width: '100%', maxWidth: '280px' }}
+            />
+          </div>
+          <div>
+            <label style={fieldLabelStyle}>Scale</label>
+            <select value={scaleMax} onChange={(e) => setScaleMax(parseInt(e.target.value))}>
+              {DIMENSION_SCALES.map((max) => (
+                <option key={max} value={max}>1–{max}</option>
+              ))}
+            </select>
+          </div>
+          <button type="submit" disabled={saving || !label.trim()} className="btn btn-accent settings-form-btn">
+            {saving ? '...' : 'Add'}
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
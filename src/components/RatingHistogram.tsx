@@ -1,8 +1,7 @@
-import { useMemo } from 'react'
-import type { RestaurantWithReviews } from '../lib/database.types'
-
 interface RatingHistogramProps {
-  restaurants: RestaurantWithReviews[]
+  // Places per rounded average rating, index 0 for 1 up to index 9 for 10
+  counts: number[]
+  calibrated?: boolean // counts are of calibrated averages
 }
 
 const ratingLabels: Record<number, string> = {
@@ -24,22 +23,9 @@ function getRatingColor(rating: number): string {
   return '#a64d4d'
 }
 
-export function RatingHistogram({ restaurants }: RatingHistogramProps) {
-  const distribution = useMemo(() => {
-    const counts: Record<number, number> = {}
-    for (let i = 1; i <= 10; i++) counts[i] = 0
-
-    restaurants.forEach(r => {
-      if (r.avgRating !== null) {
-        const bucket = Math.round(r.avgRating)
-        if (bucket >= 1 && bucket <= 10) {
-          counts[bucket]++
-        }
-      }
-    })
-
-    return counts
-  }, [restaurants])
+export function RatingHistogram({ counts, calibrated = false }: RatingHistogramProps) {
+  const distribution: Record<number, number> = {}
+  for (let i = 1; i <= 10; i++) distribution[i] = counts[i - 1] || 0
 
   const maxCount = Math.max(...Object.values(distribution), 1)
   const totalReviewed = Object.values(distribution).reduce((a, b) => a + b, 0)
@@ -47,7 +33,17 @@ export function RatingHistogram({ restaurants }: RatingHistogramProps) {
   return (
     <div>
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: '16px' }}>
-        <h3 style={{ margin: 0 }}>Rating Distribution</h3>
+        <h3 style={{ margin: 0 }}>
+          Rating Distribution
+          {calibrated && (
+            <span
+              style={{ marginLeft: '10px', fontSize: '11px', fontWeight: 400, textTransform: 'uppercase', letterSpacing: '0.08em', color: 'var(--text-muted)' }}
+              title="Each review is adjusted for how harshly or generously its author rates before places are averaged"
+            >
+              Calibrated
+            </span>
+          )}
+        </h3>
         <span style={{ color: 'var(--text-muted)', fontSize: '13px' }}>
           {totalReviewed} reviewed
         </span>
@@ -3,11 +3,15 @@ interface RatingSliderProps {
   value: number | null
   onChange: (value: number | null) => void
   compact?: boolean
+  max?: number
+  // 'filter' picks a minimum ("7+"); 'score' picks an exact rating ("7/10")
+  mode?: 'filter' | 'score'
 }
 
-export function RatingSlider({ label, value, onChange, compact = false }: RatingSliderProps) {
-  // Convert value (1-10 or null) to slider value (0-10, where 0 = "Any")
+export function RatingSlider({ label, value, onChange, compact = false, max = 10, mode = 'filter' }: RatingSliderProps) {
+  // Convert value (1-max or null) to slider value (0-max, where 0 = "Any")
   const sliderValue = value ?? 0
+  const emptyLabel = mode === 'score' ? 'Skip' : 'Any'
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const val = parseInt(e.target.value)
@@ -15,22 +19,26 @@ export function RatingSlider({ label, value, onChange, compact = false }: Rating
   }
 
   const getDisplayValue = (v: number | null): string => {
-    if (v === null || v === 0) return 'Any'
-    return `${v}+`
+    if (v === null || v === 0) return emptyLabel
+    return mode === 'score' ? `${v}/${max}` : `${v}+`
   }
 
   // Calculate fill - goes from slider position to RIGHT (showing valid ratings)
-  const fillPercent = (sliderValue / 10) * 100
+  const fillPercent = (sliderValue / max) * 100
+  // A score fills up to the chosen value instead
+  const fillStyle = mode === 'score'
+    ? { left: 0, width: `${fillPercent}%` }
+    : { left: `${fillPercent}%`, right: 0, width: 'auto' }
 
   if (compact) {
     return (
       <div className="slider-container compact">
         <div className="slider-wrapper">
-          <div className="slider-fill-bg" style={{ left: `${fillPercent}%`, right: 0, width: 'auto' }} />
+          <div className="slider-fill-bg" style={fillStyle} />
           <input
             type="range"
             min="0"
-            max="10"
+            max={max}
             step="1"
             value={sliderValue}
             onChange={handleChange}
@@ -46,11 +54,11 @@ export function RatingSlider({ label, value, onChange, compact = false }: Rating
     <div className="slider-container">
       <label className="slider-label">{label}</label>
       <div className="slider-wrapper">
-        <div className="slider-fill-bg" style={{ left: `${fillPercent}%`, right: 0, width: 'auto' }} />
+        <div className="slider-fill-bg" style={fillStyle} />
         <input
           type="range"
           min="0"
-          max="10"
+          max={max}
           step="1"
           value={sliderValue}
           onChange={handleChange}
@@ -58,9 +66,9 @@ export function RatingSlider({ label, value, onChange, compact = false }: Rating
         />
       </div>
       <div className="slider-labels">
-        <span>Any</span>
+        <span>{emptyLabel}</span>
         <span className="slider-value">{getDisplayValue(value)}</span>
-        <span>10</span>
+        <span>{max}</span>
       </div>
     </div>
   )
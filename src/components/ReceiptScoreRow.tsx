@@ -0,0 +1,29 @@
+import { getRatingClass } from '../lib/ratings'
+
+interface ReceiptScoreRowProps {
+  label: string
+  value: number | null
+  onChange: (value: number | null) => void
+}
+
+// Optional 1-10 score on a receipt form; clicking the chosen score clears it
+export function ReceiptScoreRow({ label, value, onChange }: ReceiptScoreRowProps) {
+  return (
+    <div className="receipt-row" style={{ alignItems: 'center' }} data-testid={`score-row-${label.toLowerCase()}`}>
+      <span className="receipt-label" style={{ minWidth: '70px' }}>{label}</span>
+      <div className="receipt-scores">
+        {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((score) => (
+          <button
+            key={score}
+            type="button"
+            className={`receipt-score ${value === score ? `active ${getRatingClass(score)}` : ''}`}
+            onClick={() => onChange(value === score ? null : score)}
+            aria-pressed={value === score}
+          >
+            {score}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import type { OrgSharingChoice } from '../lib/visibility'
+
+interface ReceiptShareRowProps {
+  orgs: { id: string; name: string }[]
+  value: OrgSharingChoice
+  onChange: (value: OrgSharingChoice) => void
+}
+
+// Which of my organisations can see this review's comment, on a receipt form
+export function ReceiptShareRow({ orgs, value, onChange }: ReceiptShareRowProps) {
+  if (orgs.length === 0) return null
+
+  const toggleOrg = (orgId: string) => {
+    const organisationIds = value.organisationIds.includes(orgId)
+      ? value.organisationIds.filter(id => id !== orgId)
+      : [...value.organisationIds, orgId]
+    onChange({ sharing: 'selected', organisationIds })
+  }
+
+  return (
+    <div className="receipt-row" style={{ alignItems: 'flex-start' }} data-testid="share-row">
+      <span className="receipt-label" style={{ paddingTop: '4px', minWidth: '70px' }}>Share</span>
+      <div className="receipt-tags" style={{ justifyContent: 'flex-end', flex: 1 }}>
+        <button
+          type="button"
+          className={`receipt-tag ${value.sharing === 'all' ? 'active' : ''}`}
+          onClick={() => onChange({ sharing: 'all', organisationIds: [] })}
+        >
+          all my orgs
+        </button>
+        {orgs.map((org) => (
+          <button
+            key={org.id}
+            type="button"
+            className={`receipt-tag ${value.sharing === 'selected' && value.organisationIds.includes(org.id) ? 'active' : ''}`}
+            onClick={() => toggleOrg(org.id)}
+          >
+            {org.name}
+          </button>
+        ))}
+        <button
+          type="button"
+          className={`receipt-tag ${value.sharing === 'none' ? 'active' : ''}`}
+          onClick={() => onChange({ sharing: 'none', organisationIds: [] })}
+        >
+          none
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '../lib/supabase'
+import { getRatingClass } from '../lib/ratings'
+import { toRecommendation, explainRecommendation, RECOMMENDATION_LIMIT } from '../lib/recommendations'
+import type { Recommendation } from '../lib/recommendations'
+
+interface RecommendationsShelfProps {
+  userId: string
+  onSelect: (recommendation: Recommendation) => void
+}
+
+export function RecommendationsShelf({ userId, onSelect }: RecommendationsShelfProps) {
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    supabase
+      .rpc('recommended_restaurants', { result_limit: RECOMMENDATION_LIMIT })
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) {
+          console.error('Failed to load recommendations:', error)
+        } else {
+          setRecommendations((data || []).map(toRecommendation))
+        }
+      })
+    return () => { cancelled = true }
+  }, [userId])
+
+  // Nothing to say until the user shares a few places with someone
+  if (recommendations.length === 0) return null
+
+  return (
+    <section data-testid="recommendations" style={{ paddingBottom: '40px' }}>
+      <div className="container">
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: '16px' }}>
+          <h3 style={{ margin: 0 }}>Places you'd probably like</h3>
+          <span style={{ color: 'var(--text-muted)', fontSize: '13px' }}>
+            From reviewers who rate like you
+          </span>
+        </div>
+        <div className="recommendations-shelf">
+          {recommendations.map(recommendation => (
+            <button
+              key={recommendation.id}
+              type="button"
+              className="recommendation-card"
+              onClick={() => onSelect(recommendation)}
+            >
+              <span className="recommendation-header">
+                <span className="recommendation-name">{recommendation.name}</span>
+                <span
+                  className={`mono ${getRatingClass(recommendation.predictedRating)}`}
+                  title="The rating we'd expect from you"
+                >
+                  ~{recommendation.predictedRating.toFixed(1)}
+                </span>
+              </span>
+              {recommendation.cuisine && (
+                <span className="recommendation-cuisine">{recommendation.cuisine}</span>
+              )}
+              <span className="recommendation-reason">{explainRecommendation(recommendation)}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </section>
+  )
+}
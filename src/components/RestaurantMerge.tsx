@@ -0,0 +1,186 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { supabase } from '../lib/supabase'
+import { getRatingClass } from '../lib/ratings'
+import { groupDuplicates, pickSurvivor, previewMerge } from '../lib/restaurants'
+import type { DuplicatePair, MergeableRestaurant, MergeReview } from '../lib/restaurants'
+
+interface RestaurantMergeProps {
+  onError?: (message: string) => void
+  onSuccess?: (message: string) => void
+}
+
+type PreviewReview = MergeReview & { comment: string | null }
+
+export function RestaurantMerge({ onError, onSuccess }: RestaurantMergeProps) {
+  const [restaurants, setRestaurants] = useState<MergeableRestaurant[]>([])
+  const [pairs, setPairs] = useState<DuplicatePair[]>([])
+  const [loading, setLoading] = useState(true)
+  const [merging, setMerging] = useState(false)
+  // Group key (first restaurant id) -> chosen survivor id
+  const [survivorIds, setSurvivorIds] = useState<Record<string, string>>({})
+  const [previewKey, setPreviewKey] = useState<string | null>(null)
+  // Reviews are only loaded for the group being previewed
+  const [previewReviews, setPreviewReviews] = useState<PreviewReview[]>([])
+
+  // The database pairs up likely duplicates; only those rows are loaded here
+  const fetchCandidates = useCallback(async () => {
+    const { data: pairData, error: pairError } = await supabase.rpc('find_duplicate_restaurants', {})
+    if (pairError) {
+      onError?.(pairError.message)
+      setLoading(false)
+      return
+    }
+
+    const ids = [...new Set((pairData || []).flatMap(p => [p.restaurant_id, p.duplicate_id]))]
+    if (ids.length === 0) {
+      setPairs([])
+      setRestaurants([])
+      setLoading(false)
+      return
+    }
+
+    const { data, error } = await supabase
+      .from('restaurants')
+      .select('id, name, place_id, latitude, longitude, cuisine, categories, address, created_at, reviews:visible_reviews(count)')
+      .in('id', ids)
+      .order('created_at')
+
+    if (error) {
+      onError?.(error.message)
+    } else {
+      setPairs(pairData || [])
+      setRestaurants((data || []).map(({ reviews, ...restaurant }) => ({
+        ...restaurant,
+        review_count: reviews[0]?.count ?? 0,
+      })))
+    }
+    setLoading(false)
+  }, [onError])
+
+  useEffect(() => {
+    fetchCandidates()
+  }, [fetchCandidates])
+
+  const groups = useMemo(() => groupDuplicates(restaurants, pairs), [restaurants, pairs])
+
+  const togglePreview = async (key: string, group: MergeableRestaurant[]) => {
+    if (previewKey === key) {
+      setPreviewKey(null)
+      return
+    }
+
+    const { data, error } = await supabase
+      .from('visible_reviews')
+      .select('id, restaurant_id, user_id, rating, comment, created_at')
+      .in('restaurant_id', group.map(r => r.id))
+
+    if (error) {
+      onError?.(error.message)
+      return
+    }
+    setPreviewReviews(data || [])
+    setPreviewKey(key)
+  }
+
+  const handleMerge = async (group: MergeableRestaurant[], survivor: MergeableRestaurant) => {
+    const duplicates = group.filter(r => r.id !== survivor.id)
+    const names = duplicates.map(r => r.name).join(', ')
+    if (!confirm(`Merge ${names} into ${survivor.name}? The duplicate places will be deleted; their reviews move across.`)) return
+
+    setMerging(true)
+    const { data, error } = await supabase.rpc('merge_restaurants', {
+      survivor_id: survivor.id,
+      duplicate_ids: duplicates.map(r => r.id),
+    })
+
+    if (error) {
+      onError?.(error.message)
+    } else {
+      onSuccess?.(`Merged into ${survivor.name}, ${data} review${data !== 1 ? 's' : ''} moved`)
+      setPreviewKey(null)
+      await fetchCandidates()
+    }
+    setMerging(false)
+  }
+
+  if (loading) {
+    return <p style={{ fontSize: '13px', color: 'var(--text-muted)' }}>Looking for duplicates...</p>
+  }
+
+  if (groups.length === 0) {
+    return <p style={{ fontSize: '13px', color: 'var(--text-muted)' }}>No duplicate places found</p>
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
+      {groups.map((group) => {
+        const key = group[0].id
+        const survivor = group.find(r => r.id === survivorIds[key]) || pickSurvivor(group)
+        const isPreviewing = previewKey === key
+        const preview = isPreviewing ? previewMerge(survivor, group, previewReviews) : null
+
+        return (
+          <div key={key} data-testid="duplicate-group" style={{ paddingBottom: '24px', borderBottom: '1px solid var(--border)' }}>
+            <span style={{ display: 'block', fontSize: '11px', textTransform: 'uppercase', letterSpacing: '0.08em', color: 'var(--text-muted)', marginBottom: '8px' }}>
+              Keep
+            </span>
+            {group.map((restaurant) => (
+              <label key={restaurant.id} style={{ display: 'flex', alignItems: 'baseline', gap: '8px', fontSize: '14px', marginBottom: '6px', cursor: 'pointer' }}>
+                <input
+                  type="radio"
+                  name={`survivor-${key}`}
+                  checked={restaurant.id === survivor.id}
+                  onChange={() => setSurvivorIds(prev => ({ ...prev, [key]: restaurant.id }))}
+                />
+                <span style={{ fontWeight: 500 }}>{restaurant.name}</span>
+                <span style={{ fontSize: '12px', color: 'var(--text-muted)' }}>
+                  {[restaurant.address, `${restaurant.review_count} review${restaurant.review_count !== 1 ? 's' : ''}`].filter(Boolean).join(' · ')}
+                </span>
+              </label>
+            ))}
+
+            <div style={{ display: 'flex', gap: '12px', marginTop: '12px' }}>
+              <button
+                type="button"
+                className="btn"
+                onClick={() => togglePreview(key, group)}
+              >
+                {isPreviewing ? 'Hide preview' : 'Preview'}
+              </button>
+              <button
+                type="button"
+                className="btn btn-accent"
+                disabled={merging}
+                onClick={() => handleMerge(group, survivor)}
+              >
+                {merging ? '...' : 'Merge'}
+              </button>
+            </div>
+
+            {preview && (
+              <div data-testid="merge-preview" style={{ marginTop: '16px', fontSize: '13px' }}>
+                <p style={{ color: 'var(--text-secondary)', marginBottom: '8px' }}>
+                  {[preview.cuisine, preview.categories.join(', ')].filter(Boolean).join(' · ')}
+                  {preview.avgRating !== null && (
+                    <span className={`rating-badge ${getRatingClass(preview.avgRating)}`} style={{ marginLeft: '8px' }}>
+                      {preview.avgRating.toFixed(1)}
+                    </span>
+                  )}
+                </p>
+                <p style={{ color: 'var(--text-muted)', marginBottom: '8px' }}>
+                  All {preview.reviews.length} review{preview.reviews.length !== 1 ? 's' : ''} move to {survivor.name}; no review is deleted
+                </p>
+                {preview.reviews.map((review) => (
+                  <div key={review.id} style={{ display: 'flex', gap: '8px', marginBottom: '4px' }}>
+                    <span className={`mono ${getRatingClass(review.rating || 0)}`}>{review.rating}/10</span>
+                    <span style={{ color: 'var(--text-secondary)' }}>{review.comment || ''}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
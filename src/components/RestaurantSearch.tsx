@@ -0,0 +1,106 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '../lib/supabase'
+import { toSearchQuery, toSearchResult, highlightParts, SEARCH_RESULT_LIMIT } from '../lib/search'
+import type { SearchResult } from '../lib/search'
+import { getRatingClass } from '../lib/ratings'
+
+interface RestaurantSearchProps {
+  onSelect: (result: SearchResult) => void
+}
+
+const MATCH_LABELS = { place: 'Place', review: 'Review', tag: 'Tag' }
+
+export function RestaurantSearch({ onSelect }: RestaurantSearchProps) {
+  const [text, setText] = useState('')
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [searching, setSearching] = useState(false)
+  const [open, setOpen] = useState(false)
+
+  // Debounced search as user types
+  useEffect(() => {
+    const query = toSearchQuery(text)
+    if (!query) {
+      setResults([])
+      return
+    }
+
+    let cancelled = false
+    const timeoutId = setTimeout(async () => {
+      setSearching(true)
+      const { data, error } = await supabase.rpc('search_restaurants', {
+        search: query,
+        result_limit: SEARCH_RESULT_LIMIT,
+      })
+      if (cancelled) return
+      if (error) {
+        console.error('Search failed:', error)
+        setResults([])
+      } else {
+        setResults((data || []).map(toSearchResult))
+      }
+      setSearching(false)
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeoutId)
+    }
+  }, [text])
+
+  const choose = (result: SearchResult) => {
+    setOpen(false)
+    onSelect(result)
+  }
+
+  const query = toSearchQuery(text)
+
+  return (
+    <div
+      className="restaurant-search"
+      data-testid="restaurant-search"
+      onBlur={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setOpen(false) }}
+    >
+      <input
+        type="search"
+        value={text}
+        onChange={(e) => { setText(e.target.value); setOpen(true) }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setOpen(false)
+          if (e.key === 'Enter' && results.length > 0) choose(results[0])
+        }}
+        placeholder="Search places, dishes, comments and tags"
+        aria-label="Search restaurants"
+      />
+
+      {open && query && (
+        <ul className="restaurant-search-results" role="listbox">
+          {results.map(result => (
+            <li key={result.id}>
+              <button type="button" onClick={() => choose(result)}>
+                <span className="restaurant-search-name">
+                  {result.name}
+                  {result.avgRating !== null && (
+                    <span className={`rating-badge ${getRatingClass(result.avgRating)}`}>{result.avgRating.toFixed(1)}</span>
+                  )}
+                </span>
+                <span className="restaurant-search-headline">
+                  <span className="restaurant-search-match">{MATCH_LABELS[result.matchedIn]}</span>
+                  {highlightParts(result.headline).map((part, i) =>
+                    part.match ? <mark key={i}>{part.text}</mark> : <span key={i}>{part.text}</span>
+                  )}
+                </span>
+                {result.mentionCount > 1 && (
+                  <span className="restaurant-search-mentions">{result.mentionCount} reviews mention this</span>
+                )}
+              </button>
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li className="restaurant-search-empty">{searching ? 'Searching…' : 'No matches'}</li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -2,12 +2,15 @@ import { Fragment, useState, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import type { RestaurantWithReviews } from '../lib/database.types'
 import { useFilterStore } from '../lib/store'
+import { inMapArea } from '../lib/geo'
+import { meetsMinimum } from '../lib/ratings'
+import { calibrationsByUser, calibratedAverage } from '../lib/calibration'
 
 interface ReviewTableProps {
   restaurants: RestaurantWithReviews[]
 }
 
-type SortKey = 'name' | 'type' | 'avgRating'
+type SortKey = 'name' | 'type' | 'avgRating' | 'avgValueRating' | 'avgTasteRating'
 type SortDir = 'asc' | 'desc'
 
 const ratingLabels: Record<number, string> = {
@@ -34,10 +37,26 @@ export function ReviewTable({ restaurants }: ReviewTableProps) {
   const [sortDir, setSortDir] = useState<SortDir>('desc')
   const [expandedId, setExpandedId] = useState<string | null>(null)
 
-  const { selectedUserIds, selectedRating, selectedBounds, highlightedRestaurantId, setHighlightedRestaurantId } = useFilterStore()
+  const {
+    selectedUserIds,
+    selectedRating,
+    selectedBounds,
+    selectedRegion,
+    minValueRating,
+    minTasteRating,
+    calibrateRatings,
+    highlightedRestaurantId,
+    setHighlightedRestaurantId,
+  } = useFilterStore()
+
+  // Calibrated averages adjust each review for its author's habits
+  const calibrations = useMemo(() => calibrationsByUser(restaurants.flatMap(r => r.reviews)), [restaurants])
+  const rated = useMemo(() => calibrateRatings
+    ? restaurants.map(r => ({ ...r, avgRating: calibratedAverage(r.reviews, calibrations) }))
+    : restaurants, [restaurants, calibrateRatings, calibrations])
 
   const filteredAndSorted = useMemo(() => {
-    let filtered = restaurants.filter((r) => {
+    let filtered = rated.filter((r) => {
       if (selectedUserIds.length > 0 && !r.reviews.some((rev) => rev.user_id && selectedUserIds.includes(rev.user_id))) {
         return false
       }
@@ -45,19 +64,9 @@ export function ReviewTable({ restaurants }: ReviewTableProps) {
         const avg = r.avgRating
         if (avg === null || Math.round(avg) !== selectedRating) return false
       }
-      if (selectedBounds) {
-        const [west, south, east, north] = selectedBounds
-        if (
-          r.latitude === null ||
-          r.longitude === null ||
-          r.longitude < west ||
-          r.longitude > east ||
-          r.latitude < south ||
-          r.latitude > north
-        ) {
-          return false
-        }
-      }
+      if (!meetsMinimum(r.avgValueRating, minValueRating)) return false
+      if (!meetsMinimum(r.avgTasteRating, minTasteRating)) return false
+      if (!inMapArea(r, selectedBounds, selectedRegion)) return false
       return true
     })
 
@@ -78,6 +87,14 @@ export function ReviewTable({ restaurants }: ReviewTableProps) {
           aVal = a.avgRating
           bVal = b.avgRating
           break
+        case 'avgValueRating':
+          aVal = a.avgValueRating
+          bVal = b.avgValueRating
+          break
+        case 'avgTasteRating':
+          aVal = a.avgTasteRating
+          bVal = b.avgTasteRating
+          break
       }
 
       if (aVal === null) return 1
@@ -86,14 +103,14 @@ export function ReviewTable({ restaurants }: ReviewTableProps) {
       if (aVal > bVal) return sortDir === 'asc' ? 1 : -1
       return 0
     })
-  }, [restaurants, selectedUserIds, selectedRating, selectedBounds, sortKey, sortDir])
+  }, [rated, selectedUserIds, selectedRating, selectedBounds, selectedRegion, minValueRating, minTasteRating, sortKey, sortDir])
 
   const handleSort = (key: SortKey) => {
     if (sortKey === key) {
       setSortDir(sortDir === 'asc' ? 'desc' : 'asc')
     } else {
       setSortKey(key)
-      setSortDir(key === 'avgRating' ? 'desc' : 'asc')
+      setSortDir(key === 'name' || key === 'type' ? 'asc' : 'desc')
     }
   }
 
@@ -118,6 +135,8 @@ export function ReviewTable({ restaurants }: ReviewTableProps) {
                 { key: 'name', label: 'Name' },
                 { key: 'type', label: 'Type' },
                 { key: 'avgRating', label: 'Rating' },
+                { key: 'avgValueRating', label: 'Value' },
+                { key: 'avgTasteRating', label: 'Taste' },
               ].map(({ key, label }) => (
                 <th
                   key={key}
@@ -165,6 +184,15 @@ export function ReviewTable({ restaurants }: ReviewTableProps) {
                         <span className="text-white/30 font-mono">—</span>
                       )}
                     </td>
+                    {[restaurant.avgValueRating, restaurant.avgTasteRating].map((avg, i) => (
+                      <td key={i}>
+                        {avg !== null ? (
+                          <span className={`font-mono text-xs font-semibold ${getRatingClass(avg)}`}>{avg.toFixed(1)}</span>
+                        ) : (
+                          <span className="text-white/30 font-mono">—</span>
+                        )}
+                      </td>
+                    ))}
                   </motion.tr>
 
                   <AnimatePresence>
@@ -175,7 +203,7 @@ export function ReviewTable({ restaurants }: ReviewTableProps) {
                         exit={{ opacity: 0, height: 0 }}
                         transition={{ duration: 0.2 }}
                       >
-                        <td colSpan={3} className="!p-0">
+                        <td colSpan={5} className="!p-0">
                           <motion.div
                             initial={{ opacity: 0 }}
                             animate={{ opacity: 1 }}
@@ -214,7 +242,7 @@ export function ReviewTable({ restaurants }: ReviewTableProps) {
 
             {filteredAndSorted.length === 0 && (
               <tr>
-                <td colSpan={3} className="text-center py-12 text-white/30">
+                <td colSpan={5} className="text-center py-12 text-white/30">
                   No restaurants match the current filters
                 </td>
               </tr>
@@ -0,0 +1,79 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '../lib/supabase'
+import { getRatingClass } from '../lib/ratings'
+import { compareRatings, compatibility, describeCompatibility, DISAGREEMENT } from '../lib/compatibility'
+
+interface TasteComparisonProps {
+  name: string // the other person
+  mine: Map<string, number>
+  theirs: Map<string, number>
+}
+
+const formatRating = (rating: number) => (Number.isInteger(rating) ? String(rating) : rating.toFixed(1))
+
+export function TasteComparison({ name, mine, theirs }: TasteComparisonProps) {
+  const comparisons = compareRatings(mine, theirs)
+  const match = compatibility(mine, theirs)
+  const [placeNames, setPlaceNames] = useState<Map<string, string>>(new Map())
+  const sharedIds = comparisons.map(c => c.restaurantId).join(',')
+
+  useEffect(() => {
+    if (!sharedIds) return
+    supabase
+      .from('restaurants')
+      .select('id, name')
+      .in('id', sharedIds.split(','))
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Failed to load place names:', error)
+        } else {
+          setPlaceNames(new Map((data || []).map(r => [r.id, r.name])))
+        }
+      })
+  }, [sharedIds])
+
+  if (comparisons.length === 0) {
+    return (
+      <p style={{ margin: 0, fontSize: '13px', color: 'var(--text-muted)' }}>
+        You and {name} haven't rated any of the same places yet.
+      </p>
+    )
+  }
+
+  const disagreements = comparisons.filter(c => Math.abs(c.difference) >= DISAGREEMENT)
+
+  return (
+    <div data-testid="taste-comparison">
+      <p style={{ margin: '0 0 12px', fontSize: '13px', color: 'var(--text-secondary)' }}>
+        {describeCompatibility(match)}
+        {disagreements.length > 0 && ` · ${disagreements.length} big disagreement${disagreements.length !== 1 ? 's' : ''}`}
+      </p>
+      <table className="taste-comparison">
+        <thead>
+          <tr>
+            <th>Place</th>
+            <th style={{ textAlign: 'center' }}>You</th>
+            <th style={{ textAlign: 'center' }}>{name}</th>
+            <th style={{ textAlign: 'center' }}>Difference</th>
+          </tr>
+        </thead>
+        <tbody>
+          {comparisons.map(c => (
+            <tr key={c.restaurantId} className={Math.abs(c.difference) >= DISAGREEMENT ? 'disagreement' : ''}>
+              <td>{placeNames.get(c.restaurantId) || '…'}</td>
+              <td style={{ textAlign: 'center' }}>
+                <span className={`mono ${getRatingClass(c.mine)}`}>{formatRating(c.mine)}</span>
+              </td>
+              <td style={{ textAlign: 'center' }}>
+                <span className={`mono ${getRatingClass(c.theirs)}`}>{formatRating(c.theirs)}</span>
+              </td>
+              <td className="mono" style={{ textAlign: 'center', color: 'var(--text-muted)' }}>
+                {c.difference === 0 ? '=' : `${c.difference > 0 ? '+' : '−'}${formatRating(Math.abs(c.difference))}`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+// How many ratings' worth of the site's distribution every reviewer starts with
+export const CALIBRATION_PRIOR = 3
+
+export type RatingSpread = {
+  count: number
+  mean: number | null
+  sd: number | null // population standard deviation
+}
+
+// A reviewer's distribution, pulled towards the site's by CALIBRATION_PRIOR ratings
+export type Calibration = {
+  count: number
+  mean: number
+  sd: number
+  site: { mean: number; sd: number }
+}
+
+export const NO_SPREAD: RatingSpread = { count: 0, mean: null, sd: null }
+
+export function ratingSpread(ratings: number[]): RatingSpread {
+  if (ratings.length === 0) return NO_SPREAD
+  const mean = ratings.reduce((a, b) => a + b, 0) / ratings.length
+  const variance = ratings.reduce((sum, r) => sum + (r - mean) ** 2, 0) / ratings.length
+  return { count: ratings.length, mean, sd: Math.sqrt(variance) }
+}
+
+// Null when there is nothing to calibrate against: no ratings on either side, or no spread on the site
+export function calibrationFor(own: RatingSpread, site: RatingSpread): Calibration | null {
+  if (own.count === 0 || own.mean === null || site.mean === null || !site.sd) return null
+  const n = own.count
+  const weight = CALIBRATION_PRIOR + n
+  return {
+    count: n,
+    mean: (CALIBRATION_PRIOR * site.mean + n * own.mean) / weight,
+    sd: Math.sqrt((CALIBRATION_PRIOR * site.sd ** 2 + n * (own.sd || 0) ** 2) / weight),
+    site: { mean: site.mean, sd: site.sd },
+  }
+}
+
+/**
+ * The rating on the site's scale: as many spreads from the site mean as it
+ * was from the reviewer's, kept within 1–10. Mirrored by calibrate_rating in
+ * the database.
+ */
+export function calibrateRating(rating: number, calibration: Calibration | null | undefined): number {
+  if (!calibration) return rating
+  const { mean, sd, site } = calibration
+  const calibrated = site.mean + ((rating - mean) / sd) * site.sd
+  return Math.min(10, Math.max(1, calibrated))
+}
+
+// The average of reviews once each is calibrated against its author
+export function calibratedAverage(
+  reviews: { user_id: string | null; rating: number | null }[],
+  calibrations: Map<string, Calibration>
+): number | null {
+  const ratings = reviews
+    .filter((r): r is { user_id: string | null; rating: number } => r.rating !== null)
+    .map(r => calibrateRating(r.rating, r.user_id ? calibrations.get(r.user_id) : null))
+  return ratings.length > 0 ? ratings.reduce((a, b) => a + b, 0) / ratings.length : null
+}
+
+export function calibrationsByUser(
+  reviews: { user_id: string | null; rating: number | null }[],
+  site: RatingSpread = ratingSpread(reviews.flatMap(r => (r.rating === null ? [] : [r.rating])))
+): Map<string, Calibration> {
+  const ratingsByUser = new Map<string, number[]>()
+  for (const review of reviews) {
+    if (!review.user_id || review.rating === null) continue
+    if (!ratingsByUser.has(review.user_id)) ratingsByUser.set(review.user_id, [])
+    ratingsByUser.get(review.user_id)!.push(review.rating)
+  }
+  const calibrations = new Map<string, Calibration>()
+  for (const [userId, ratings] of ratingsByUser) {
+    const calibration = calibrationFor(ratingSpread(ratings), site)
+    if (calibration) calibrations.set(userId, calibration)
+  }
+  return calibrations
+}
+
+export type CalibrationTendency = 'harsh' | 'generous' | 'typical'
+
+// Half a point from the site mean is enough to notice
+export function calibrationTendency(calibration: Calibration): CalibrationTendency {
+  const offset = calibration.mean - calibration.site.mean
+  if (offset <= -0.5) return 'harsh'
+  if (offset >= 0.5) return 'generous'
+  return 'typical'
+}
+
+// Tooltip text, e.g. "Rates 1.4 below the average reviewer: their 6 counts as 7.2 when calibrated"
+export function describeCalibration(calibration: Calibration): string {
+  const offset = calibration.mean - calibration.site.mean
+  const example = Math.round(calibration.mean)
+  const asCalibrated = calibrateRating(example, calibration).toFixed(1)
+  const basis = `Based on ${calibration.count} rating${calibration.count !== 1 ? 's' : ''}`
+  if (Math.abs(offset) < 0.05) {
+    return `Rates like the average reviewer, so calibration barely changes their ratings. ${basis}.`
+  }
+  const direction = offset < 0 ? 'below' : 'above'
+  return `Rates ${Math.abs(offset).toFixed(1)} ${direction} the average reviewer: their ${example} counts as ${asCalibrated} when calibrated. ${basis}.`
+}
@@ -0,0 +1,109 @@
+import { haversineDistance } from './geo'
+import type { Bounds, LatLng } from './geo'
+import { averageRating } from './ratings'
+
+// Places within this distance of a city's first place belong to that city
+export const CITY_RADIUS_METRES = 30000
+
+// Smallest area a city filters to, in degrees, so a one-place city still has a neighbourhood
+const MIN_CITY_SPAN = 0.02
+
+export interface City {
+  name: string
+  centre: LatLng
+  placeCount: number
+  reviewCount: number
+  avgRating: number | null // mean of the places' averages
+  bounds: Bounds
+}
+
+type Place = {
+  latitude: number | null
+  longitude: number | null
+  address: string | null
+  avgRating: number | null
+  reviewCount: number
+}
+
+type NamedLocation = LatLng & { name: string }
+
+const hasDigit = (token: string) => /\d/.test(token)
+
+/**
+ * Best guess at the town in a one-line address. Handles the shapes our
+ * geocoders produce: "6 Southwark St, London SE1 1TQ", "12 Rue X, 75001 Paris,
+ * France" and Photon's "street, district, city, postcode".
+ */
+export function cityFromAddress(address: string | null): string | null {
+  if (!address) return null
+  const parts = address.split(',').map(p => p.trim()).filter(Boolean)
+  if (parts.length < 2) return null
+
+  // A part mixing a postcode with words is the town with its postcode
+  for (const part of parts.slice(1).reverse()) {
+    const tokens = part.split(/\s+/)
+    const words = tokens.filter(t => !hasDigit(t))
+    if (words.length > 0 && words.length < tokens.length) return words.join(' ')
+  }
+
+  // Otherwise the last part without digits, skipping a trailing country
+  const named = parts.slice(1).filter(p => !hasDigit(p))
+  if (named.length === 0) return null
+  const last = parts[parts.length - 1]
+  const endsWithCountry = parts.length >= 3 && !hasDigit(last) && named.length >= 2
+  return endsWithCountry ? named[named.length - 2] : named[named.length - 1]
+}
+
+function mostCommon(values: string[]): string | null {
+  const counts = new Map<string, number>()
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1)
+  let best: string | null = null
+  for (const [value, count] of counts) {
+    if (best === null || count > counts.get(best)!) best = value
+  }
+  return best
+}
+
+/**
+ * Groups places into cities by distance, busiest city first. A city is named
+ * after the town most of its addresses give, else an office in it.
+ */
+export function groupByCity(places: Place[], offices: NamedLocation[] = []): City[] {
+  const groups: { centre: LatLng; places: Place[] }[] = []
+  for (const place of places) {
+    if (place.latitude === null || place.longitude === null) continue
+    const at = { lat: Number(place.latitude), lng: Number(place.longitude) }
+    const group = groups.find(g => haversineDistance(g.centre, at) <= CITY_RADIUS_METRES)
+    if (group) {
+      group.places.push(place)
+    } else {
+      groups.push({ centre: at, places: [place] })
+    }
+  }
+
+  return groups
+    .map(({ centre, places: members }) => {
+      const lats = members.map(p => Number(p.latitude))
+      const lngs = members.map(p => Number(p.longitude))
+      const [west, east] = [Math.min(...lngs), Math.max(...lngs)]
+      const [south, north] = [Math.min(...lats), Math.max(...lats)]
+      const padLng = Math.max(0, MIN_CITY_SPAN - (east - west)) / 2
+      const padLat = Math.max(0, MIN_CITY_SPAN - (north - south)) / 2
+
+      const office = offices.find(o => haversineDistance(o, centre) <= CITY_RADIUS_METRES)
+      const town = mostCommon(members.map(p => cityFromAddress(p.address)).filter((c): c is string => c !== null))
+
+      return {
+        name: town || office?.name || `${centre.lat.toFixed(2)}, ${centre.lng.toFixed(2)}`,
+        centre: {
+          lat: lats.reduce((a, b) => a + b, 0) / lats.length,
+          lng: lngs.reduce((a, b) => a + b, 0) / lngs.length,
+        },
+        placeCount: members.length,
+        reviewCount: members.reduce((sum, p) => sum + p.reviewCount, 0),
+        avgRating: averageRating(members.map(p => p.avgRating)),
+        bounds: [west - padLng, south - padLat, east + padLng, north + padLat] as Bounds,
+      }
+    })
+    .sort((a, b) => b.placeCount - a.placeCount || a.name.localeCompare(b.name))
+}
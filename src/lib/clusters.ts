@@ -0,0 +1,65 @@
+import { averageRating } from './ratings'
+
+// Markers within this many screen pixels of each other share a cluster
+export const CLUSTER_CELL_PX = 60
+
+// From this zoom level (street level) every place gets its own marker
+export const CLUSTER_MAX_ZOOM = 17
+
+export type ScreenPoint = { x: number; y: number }
+
+export interface Cluster<T> {
+  items: T[]
+  centre: ScreenPoint // mean position of the members, in the same pixels as the input
+  avgRating: number | null // mean of the members' averages, unrated places left out
+}
+
+/**
+ * Groups items by the grid cell their screen position falls in. Positions
+ * should be projected at the current zoom (map.project), so the grid stays
+ * put while panning and only changes on zoom.
+ */
+export function clusterByGrid<T>(
+  items: T[],
+  position: (item: T) => ScreenPoint,
+  rating: (item: T) => number | null,
+  cellPx: number = CLUSTER_CELL_PX
+): Cluster<T>[] {
+  const cells = new Map<string, { items: T[]; x: number; y: number }>()
+  for (const item of items) {
+    const { x, y } = position(item)
+    const key = `${Math.floor(x / cellPx)}:${Math.floor(y / cellPx)}`
+    const cell = cells.get(key)
+    if (cell) {
+      cell.items.push(item)
+      cell.x += x
+      cell.y += y
+    } else {
+      cells.set(key, { items: [item], x, y })
+    }
+  }
+
+  return [...cells.values()].map(cell => ({
+    items: cell.items,
+    centre: { x: cell.x / cell.items.length, y: cell.y / cell.items.length },
+    avgRating: averageRating(cell.items.map(rating)),
+  }))
+}
+
+/**
+ * How much heat a place adds to the heatmap. Only places rated above 5 count,
+ * so clusters of mediocre lunches don't outshine a street of good ones.
+ */
+export function heatWeight(avgRating: number | null): number {
+  if (avgRating === null) return 0
+  return Math.min(1, Math.max(0, (avgRating - 5) / 5))
+}
+
+// Heat colour for an intensity from 0 to 1: the "good" amber up to the "great" green
+const HEAT_LOW = [184, 134, 11]
+const HEAT_HIGH = [45, 122, 79]
+
+export function heatColour(intensity: number): [number, number, number] {
+  const t = Math.min(1, Math.max(0, intensity))
+  return [0, 1, 2].map(i => Math.round(HEAT_LOW[i] + (HEAT_HIGH[i] - HEAT_LOW[i]) * t)) as [number, number, number]
+}
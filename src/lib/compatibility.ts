@@ -0,0 +1,86 @@
+// Places two people must both have rated before they can be compared, and before correlation means anything
+export const MIN_OVERLAP = 2
+export const MIN_CORRELATION_OVERLAP = 3
+
+// Differences this large count as a disagreement in the side-by-side comparison
+export const DISAGREEMENT = 2
+
+export type Compatibility = {
+  overlap: number // places both have rated
+  correlation: number | null // Pearson, -1 to 1; null with too few places or no variation
+  meanDifference: number | null // average absolute rating difference
+  score: number | null // 0 to 100
+}
+
+export type RatingComparison = {
+  restaurantId: string
+  mine: number
+  theirs: number
+  difference: number // theirs minus mine
+}
+
+// One rating per place, averaging anyone who reviewed a place more than once
+export function ratingsByPlace(reviews: { restaurant_id: string | null; rating: number | null }[]): Map<string, number> {
+  const totals = new Map<string, { sum: number; count: number }>()
+  for (const { restaurant_id, rating } of reviews) {
+    if (!restaurant_id || rating === null) continue
+    const total = totals.get(restaurant_id) || { sum: 0, count: 0 }
+    totals.set(restaurant_id, { sum: total.sum + rating, count: total.count + 1 })
+  }
+  return new Map([...totals].map(([id, { sum, count }]) => [id, sum / count]))
+}
+
+// The places both have rated, biggest disagreement first
+export function compareRatings(mine: Map<string, number>, theirs: Map<string, number>): RatingComparison[] {
+  const comparisons: RatingComparison[] = []
+  for (const [restaurantId, rating] of mine) {
+    const other = theirs.get(restaurantId)
+    if (other === undefined) continue
+    comparisons.push({ restaurantId, mine: rating, theirs: other, difference: other - rating })
+  }
+  return comparisons.sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference))
+}
+
+function pearson(pairs: RatingComparison[]): number | null {
+  const n = pairs.length
+  const meanMine = pairs.reduce((sum, p) => sum + p.mine, 0) / n
+  const meanTheirs = pairs.reduce((sum, p) => sum + p.theirs, 0) / n
+  let covariance = 0
+  let varMine = 0
+  let varTheirs = 0
+  for (const { mine, theirs } of pairs) {
+    covariance += (mine - meanMine) * (theirs - meanTheirs)
+    varMine += (mine - meanMine) ** 2
+    varTheirs += (theirs - meanTheirs) ** 2
+  }
+  if (varMine === 0 || varTheirs === 0) return null
+  return covariance / Math.sqrt(varMine * varTheirs)
+}
+
+/**
+ * How well two people's ratings line up on the places both have rated.
+ * The score averages agreement (full when ratings match, none once they
+ * differ by 3 on average) with correlation (do they like the same places
+ * better, whatever their scale), when there are enough places for it.
+ */
+export function compatibility(mine: Map<string, number>, theirs: Map<string, number>): Compatibility {
+  const pairs = compareRatings(mine, theirs)
+  const overlap = pairs.length
+  if (overlap < MIN_OVERLAP) return { overlap, correlation: null, meanDifference: null, score: null }
+
+  const meanDifference = pairs.reduce((sum, p) => sum + Math.abs(p.difference), 0) / overlap
+  const correlation = overlap >= MIN_CORRELATION_OVERLAP ? pearson(pairs) : null
+  const agreement = Math.max(0, 1 - meanDifference / 3)
+  const blended = correlation === null ? agreement : (agreement + Math.max(0, correlation)) / 2
+  return { overlap, correlation, meanDifference, score: Math.round(blended * 100) }
+}
+
+// Tooltip text, e.g. "6 places in common · usually 1.2 apart · correlation 0.81"
+export function describeCompatibility({ overlap, correlation, meanDifference }: Compatibility): string {
+  if (meanDifference === null) {
+    return overlap === 0 ? 'No places in common yet' : `Only ${overlap} place in common so far`
+  }
+  const parts = [`${overlap} places in common`, `usually ${meanDifference.toFixed(1)} apart`]
+  if (correlation !== null) parts.push(`correlation ${correlation.toFixed(2)}`)
+  return parts.join(' · ')
+}
@@ -16,6 +16,7 @@ export type Database = {
           slug: string
           office_location: Json | null
           tagline: string | null
+          map_tiles: Json | null
           created_at: string | null
         }
         Insert: {
@@ -24,6 +25,7 @@ export type Database = {
           slug: string
           office_location?: Json | null
           tagline?: string | null
+          map_tiles?: Json | null
           created_at?: string | null
         }
         Update: {
@@ -32,6 +34,7 @@ export type Database = {
           slug?: string
           office_location?: Json | null
           tagline?: string | null
+          map_tiles?: Json | null
           created_at?: string | null
         }
         Relationships: []
@@ -42,6 +45,7 @@ export type Database = {
           organisation_id: string
           user_id: string
           role: 'admin' | 'member'
+          office_id: string | null
           created_at: string | null
         }
         Insert: {
@@ -49,6 +53,7 @@ export type Database = {
           organisation_id: string
           user_id: string
           role?: 'admin' | 'member'
+          office_id?: string | null
           created_at?: string | null
         }
         Update: {
@@ -56,6 +61,7 @@ export type Database = {
           organisation_id?: string
           user_id?: string
           role?: 'admin' | 'member'
+          office_id?: string | null
           created_at?: string | null
         }
         Relationships: [
@@ -146,6 +152,8 @@ export type Database = {
           cuisine: string
           type: string | null
           categories: string[]
+          place_id: string | null
+          created_by: string | null
         }
         Insert: {
           address?: string | null
@@ -157,6 +165,8 @@ export type Database = {
           cuisine: string
           type?: string | null
           categories?: string[]
+          place_id?: string | null
+          created_by?: string | null
         }
         Update: {
           address?: string | null
@@ -168,6 +178,8 @@ export type Database = {
           cuisine?: string
           type?: string | null
           categories?: string[]
+          place_id?: string | null
+          created_by?: string | null
         }
         Relationships: []
       }
@@ -182,6 +194,9 @@ export type Database = {
           organisation_id: string | null
           dish: string | null
           photo_url: string | null
+          value_rating: number | null
+          taste_rating: number | null
+          org_sharing: OrgSharing
         }
         Insert: {
           comment?: string | null
@@ -193,6 +208,9 @@ export type Database = {
           organisation_id?: string | null
           dish?: string | null
           photo_url?: string | null
+          value_rating?: number | null
+          taste_rating?: number | null
+          org_sharing?: OrgSharing
         }
         Update: {
           comment?: string | null
@@ -204,6 +222,9 @@ export type Database = {
           organisation_id?: string | null
           dish?: string | null
           photo_url?: string | null
+          value_rating?: number | null
+          taste_rating?: number | null
+          org_sharing?: OrgSharing
         }
         Relationships: [
           {
@@ -240,6 +261,42 @@ export type Database = {
         }
         Relationships: []
       }
+      review_visibility: {
+        Row: {
+          id: string
+          review_id: string
+          organisation_id: string
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          review_id: string
+          organisation_id: string
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          review_id?: string
+          organisation_id?: string
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_visibility_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_visibility_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       review_tags: {
         Row: {
           id: string
@@ -276,6 +333,115 @@ export type Database = {
           },
         ]
       }
+      office_locations: {
+        Row: {
+          id: string
+          organisation_id: string
+          name: string
+          latitude: number
+          longitude: number
+          position: number
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          organisation_id: string
+          name: string
+          latitude: number
+          longitude: number
+          position?: number
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          organisation_id?: string
+          name?: string
+          latitude?: number
+          longitude?: number
+          position?: number
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "office_locations_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rating_dimensions: {
+        Row: {
+          id: string
+          organisation_id: string
+          label: string
+          scale_max: number
+          position: number
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          organisation_id: string
+          label: string
+          scale_max?: number
+          position?: number
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          organisation_id?: string
+          label?: string
+          scale_max?: number
+          position?: number
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rating_dimensions_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_dimension_ratings: {
+        Row: {
+          review_id: string
+          dimension_id: string
+          rating: number
+          created_at: string | null
+        }
+        Insert: {
+          review_id: string
+          dimension_id: string
+          rating: number
+          created_at?: string | null
+        }
+        Update: {
+          review_id?: string
+          dimension_id?: string
+          rating?: number
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_dimension_ratings_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_dimension_ratings_dimension_id_fkey"
+            columns: ["dimension_id"]
+            isOneToOne: false
+            referencedRelation: "rating_dimensions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           id: string
@@ -284,6 +450,7 @@ export type Database = {
           display_name: string | null
           is_private: boolean
           avatar_url: string | null
+          walking_speed_kmh: number
           created_at: string | null
         }
         Insert: {
@@ -293,6 +460,7 @@ export type Database = {
           display_name?: string | null
           is_private?: boolean
           avatar_url?: string | null
+          walking_speed_kmh?: number
           created_at?: string | null
         }
         Update: {
@@ -302,6 +470,7 @@ export type Database = {
           display_name?: string | null
           is_private?: boolean
           avatar_url?: string | null
+          walking_speed_kmh?: number
           created_at?: string | null
         }
         Relationships: []
@@ -327,6 +496,33 @@ export type Database = {
         }
         Relationships: []
       }
+      filter_presets: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          query: string
+          is_default: boolean
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          query?: string
+          is_default?: boolean
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          query?: string
+          is_default?: boolean
+          created_at?: string | null
+        }
+        Relationships: []
+      }
       settings: {
         Row: {
           key: string
@@ -365,13 +561,208 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      visible_reviews: {
+        Row: {
+          id: string
+          restaurant_id: string | null
+          rating: number | null
+          value_rating: number | null
+          taste_rating: number | null
+          created_at: string | null
+          user_id: string | null
+          organisation_id: string | null
+          comment: string | null
+          dish: string | null
+          photo_url: string | null
+          org_sharing: OrgSharing | null
+          shared_organisation_ids: string[] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
       accept_follow_request: {
         Args: { requester: string }
         Returns: boolean
       }
+      set_home_office: {
+        Args: { org_id: string; office_uuid: string | null }
+        Returns: undefined
+      }
+      can_view_review: {
+        Args: { review_uuid: string; reviewer: string; sharing: string }
+        Returns: boolean
+      }
+      can_view_review_details: {
+        Args: { reviewer: string }
+        Returns: boolean
+      }
+      merge_restaurants: {
+        Args: { survivor_id: string; duplicate_ids: string[] }
+        Returns: number
+      }
+      find_duplicate_restaurants: {
+        Args: { radius_m?: number }
+        Returns: { restaurant_id: string; duplicate_id: string }[]
+      }
+      is_site_admin: {
+        Args: Record<string, never>
+        Returns: boolean
+      }
+      restaurant_summaries: {
+        Args: {
+          scope?: string
+          scope_org_id?: string
+          scope_user_ids?: string[]
+          min_rating?: number
+          min_value_rating?: number
+          min_taste_rating?: number
+          with_tag_ids?: string[]
+          with_cuisines?: string[]
+          with_categories?: string[]
+          bounds?: number[]
+          region?: string
+          origin_lat?: number
+          origin_lng?: number
+          max_distance_m?: number
+          sort_by?: string
+          page_size?: number
+          after_rank?: number
+          after_name?: string
+          after_id?: string
+          calibrated?: boolean
+        }
+        Returns: {
+          id: string
+          name: string
+          cuisine: string
+          categories: string[]
+          latitude: number | null
+          longitude: number | null
+          address: string | null
+          place_id: string | null
+          created_at: string | null
+          review_count: number
+          avg_rating: number | null
+          avg_value_rating: number | null
+          avg_taste_rating: number | null
+          tag_counts: Json
+          reviewer_ids: string[]
+          last_reviewed_at: string | null
+          distance_m: number | null
+          score: number | null
+          predicted_rating: number | null
+          sort_rank: number
+        }[]
+      }
+      predicted_ratings: {
+        Args: Record<string, never>
+        Returns: {
+          restaurant_id: string
+          predicted_rating: number
+          weight: number
+          reviewers: Json
+        }[]
+      }
+      recommended_restaurants: {
+        Args: { result_limit?: number }
+        Returns: {
+          id: string
+          name: string
+          cuisine: string
+          latitude: number | null
+          longitude: number | null
+          predicted_rating: number
+          weight: number
+          reviewers: Json
+        }[]
+      }
+      rating_spread: {
+        Args: Record<string, never>
+        Returns: {
+          review_count: number
+          mean: number | null
+          sd: number | null
+        }[]
+      }
+      search_restaurants: {
+        Args: { search: string; result_limit?: number }
+        Returns: {
+          id: string
+          name: string
+          cuisine: string
+          address: string | null
+          latitude: number | null
+          longitude: number | null
+          avg_rating: number | null
+          mention_count: number
+          rank: number
+          matched_in: string
+          headline: string
+        }[]
+      }
+      restaurant_stats: {
+        Args: {
+          scope?: string
+          scope_org_id?: string
+          scope_user_ids?: string[]
+          min_rating?: number
+          min_value_rating?: number
+          min_taste_rating?: number
+          with_tag_ids?: string[]
+          with_cuisines?: string[]
+          with_categories?: string[]
+          bounds?: number[]
+          region?: string
+          origin_lat?: number
+          origin_lng?: number
+          max_distance_m?: number
+          calibrated?: boolean
+        }
+        Returns: {
+          place_count: number
+          review_count: number
+          avg_rating: number | null
+          top_rated_count: number
+          match_count: number
+          rating_counts: number[]
+          cuisines: string[]
+        }[]
+      }
+      lunch_shortlist: {
+        Args: {
+          attendee_ids: string[]
+          with_categories?: string[]
+          origin_lat?: number
+          origin_lng?: number
+          max_distance_m?: number
+          veto_rating?: number
+          recent_days?: number
+          result_limit?: number
+        }
+        Returns: {
+          id: string
+          name: string
+          cuisine: string
+          categories: string[]
+          latitude: number | null
+          longitude: number | null
+          distance_m: number | null
+          group_rating: number
+          score: number
+          rated_by: number
+          last_visited_at: string | null
+          attendee_ratings: Json
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -394,12 +785,22 @@ export type UserFollow = Database['public']['Tables']['user_follows']['Row']
 export type FollowRequest = Database['public']['Tables']['follow_requests']['Row']
 export type Tag = Database['public']['Tables']['tags']['Row']
 export type ReviewTag = Database['public']['Tables']['review_tags']['Row']
+export type ReviewVisibility = Database['public']['Tables']['review_visibility']['Row']
+export type RatingDimension = Database['public']['Tables']['rating_dimensions']['Row']
+export type Office = Database['public']['Tables']['office_locations']['Row']
+export type FilterPreset = Database['public']['Tables']['filter_presets']['Row']
+export type ReviewDimensionRating = Database['public']['Tables']['review_dimension_ratings']['Row']
+// A review as read through visible_reviews, with details masked where not permitted
+export type VisibleReview = Database['public']['Views']['visible_reviews']['Row']
 
 // Category type
 export type RestaurantCategory = 'lunch' | 'dinner' | 'coffee' | 'brunch' | 'pub'
 
+// Which of the reviewer's organisations can see a review's comment
+export type OrgSharing = 'all' | 'selected' | 'none'
+
 // Review with tags
-export type ReviewWithTags = Review & {
+export type ReviewWithTags = VisibleReview & {
   profile?: Profile | null
   isOrgMember?: boolean
   tags?: Tag[]
@@ -408,9 +809,27 @@ export type ReviewWithTags = Review & {
 export type RestaurantWithReviews = Restaurant & {
   reviews: ReviewWithTags[]
   avgRating: number | null
+  avgValueRating: number | null
+  avgTasteRating: number | null
   topTags?: { tag: Tag; count: number }[]
 }
 
+// Per-restaurant aggregates from restaurant_summaries, for a social scope
+export type RestaurantSummary = Omit<Restaurant, 'type' | 'created_by'> & {
+  reviewCount: number
+  avgRating: number | null
+  avgValueRating: number | null
+  avgTasteRating: number | null
+  tagCounts: { tag: Tag; count: number }[]
+  topTags: { tag: Tag; count: number }[]
+  reviewerIds: string[]
+  lastReviewedAt: string | null
+  distanceMetres: number | null // from the office, when one is known
+  score: number | null // average weighted by review count, see lib/ranking.ts
+  predictedRating: number | null // the viewer's, when sorting "For you"
+  sortRank: number
+}
+
 export type OrganisationWithMembership = Organisation & {
   role: 'admin' | 'member'
 }
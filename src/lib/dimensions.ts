@@ -0,0 +1,60 @@
+import type { RatingDimension, ReviewDimensionRating } from './database.types'
+
+export const DIMENSION_SCALES = [5, 10]
+export const MAX_DIMENSIONS = 6
+
+// Returns a message for the admin form, or null if the dimension can be saved
+export function validateDimension(
+  label: string,
+  scaleMax: number,
+  existing: Pick<RatingDimension, 'id' | 'label'>[],
+  editingId: string | null = null
+): string | null {
+  const trimmed = label.trim()
+  if (!trimmed) return 'Give the dimension a name'
+  if (trimmed.length > 40) return 'Keep the name under 40 characters'
+  if (['overall', 'rating', 'value', 'taste'].includes(trimmed.toLowerCase())) {
+    return `"${trimmed}" is already rated on every review`
+  }
+  if (!Number.isInteger(scaleMax) || scaleMax < 2 || scaleMax > 10) return 'Scale must be between 2 and 10'
+
+  const others = existing.filter(d => d.id !== editingId)
+  if (others.some(d => d.label.trim().toLowerCase() === trimmed.toLowerCase())) {
+    return `There is already a "${trimmed}" dimension`
+  }
+  if (!editingId && others.length >= MAX_DIMENSIONS) {
+    return `Organisations can have up to ${MAX_DIMENSIONS} dimensions`
+  }
+  return null
+}
+
+export interface DimensionAverage {
+  dimension: RatingDimension
+  average: number | null
+  count: number
+}
+
+/**
+ * Average each dimension over the given reviews only, so the popup can show
+ * what this org's reviewers think. Dimensions nobody scored are kept with a
+ * null average so the list doesn't jump around between restaurants.
+ */
+export function averageByDimension(
+  dimensions: RatingDimension[],
+  ratings: Pick<ReviewDimensionRating, 'review_id' | 'dimension_id' | 'rating'>[],
+  reviewIds: Set<string>
+): DimensionAverage[] {
+  return dimensions
+    .slice()
+    .sort((a, b) => a.position - b.position)
+    .map(dimension => {
+      const scores = ratings
+        .filter(r => r.dimension_id === dimension.id && reviewIds.has(r.review_id))
+        .map(r => r.rating)
+      return {
+        dimension,
+        average: scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null,
+        count: scores.length,
+      }
+    })
+}
@@ -0,0 +1,159 @@
+import type { RestaurantCategory } from './database.types'
+import type { Bounds, Region } from './geo'
+import { useFilterStore } from './store'
+import type { FilterState } from './store'
+
+// The part of the filter store a dashboard link carries
+export type SharedFilters = Pick<
+  FilterState,
+  | 'selectedCategories'
+  | 'minOverallRating'
+  | 'minValueRating'
+  | 'minTasteRating'
+  | 'socialFilter'
+  | 'selectedUserIds'
+  | 'selectedTagIds'
+  | 'selectedCuisines'
+  | 'selectedBounds'
+  | 'selectedRegion'
+  | 'maxWalkMinutes'
+  | 'highlightedRestaurantId'
+  | 'calibrateRatings'
+>
+
+export const NO_SHARED_FILTERS: SharedFilters = {
+  selectedCategories: [],
+  minOverallRating: null,
+  minValueRating: null,
+  minTasteRating: null,
+  socialFilter: 'everyone',
+  selectedUserIds: [],
+  selectedTagIds: [],
+  selectedCuisines: [],
+  selectedBounds: null,
+  selectedRegion: null,
+  maxWalkMinutes: null,
+  highlightedRestaurantId: null,
+  calibrateRatings: false,
+}
+
+const CATEGORIES: RestaurantCategory[] = ['lunch', 'dinner', 'coffee', 'brunch', 'pub']
+
+// Five decimals is about a metre, plenty for a map area
+const round = (n: number) => Math.round(n * 1e5) / 1e5
+
+export function sharedFilters(state: SharedFilters): SharedFilters {
+  return Object.fromEntries(
+    Object.keys(NO_SHARED_FILTERS).map(key => [key, state[key as keyof SharedFilters]])
+  ) as SharedFilters
+}
+
+/**
+ * The query string for a set of filters, e.g.
+ * ?category=lunch&min=8&social=stackone&tag=…&calibrated=1&place=…
+ * Lists repeat their parameter; defaults are left out.
+ */
+export function filtersToSearch(filters: SharedFilters): string {
+  const params = new URLSearchParams()
+  filters.selectedCategories.forEach(c => params.append('category', c))
+  if (filters.minOverallRating !== null) params.set('min', String(filters.minOverallRating))
+  if (filters.minValueRating !== null) params.set('value', String(filters.minValueRating))
+  if (filters.minTasteRating !== null) params.set('taste', String(filters.minTasteRating))
+  if (filters.socialFilter !== 'everyone') params.set('social', filters.socialFilter)
+  filters.selectedUserIds.forEach(id => params.append('user', id))
+  filters.selectedTagIds.forEach(id => params.append('tag', id))
+  filters.selectedCuisines.forEach(c => params.append('cuisine', c))
+  if (filters.maxWalkMinutes !== null) params.set('walk', String(filters.maxWalkMinutes))
+  if (filters.selectedBounds) params.set('bounds', filters.selectedBounds.map(round).join(','))
+  if (filters.selectedRegion) params.set('area', filters.selectedRegion.map(([lng, lat]) => `${round(lng)},${round(lat)}`).join(';'))
+  if (filters.calibrateRatings) params.set('calibrated', '1')
+  if (filters.highlightedRestaurantId) params.set('place', filters.highlightedRestaurantId)
+  const search = params.toString()
+  return search ? `?${search}` : ''
+}
+
+function parseRating(value: string | null): number | null {
+  if (value === null) return null
+  const rating = parseFloat(value)
+  return rating >= 1 && rating <= 10 ? rating : null
+}
+
+function parseBounds(value: string | null): Bounds | null {
+  const numbers = value?.split(',').map(Number)
+  if (!numbers || numbers.length !== 4 || numbers.some(n => !Number.isFinite(n))) return null
+  const [west, south, east, north] = numbers
+  return west < east && south < north ? [west, south, east, north] : null
+}
+
+function parseRegion(value: string | null): Region | null {
+  const points = value?.split(';').map(pair => pair.split(',').map(Number))
+  if (!points || points.length < 3) return null
+  if (points.some(p => p.length !== 2 || p.some(n => !Number.isFinite(n)))) return null
+  return points as Region
+}
+
+// Reads a query string back into filters; anything malformed is left at its default
+export function filtersFromSearch(search: string): SharedFilters {
+  const params = new URLSearchParams(search)
+  const walk = parseInt(params.get('walk') || '', 10)
+  return {
+    selectedCategories: params.getAll('category').filter((c): c is RestaurantCategory => CATEGORIES.includes(c as RestaurantCategory)),
+    minOverallRating: parseRating(params.get('min')),
+    minValueRating: parseRating(params.get('value')),
+    minTasteRating: parseRating(params.get('taste')),
+    socialFilter: params.get('social') || 'everyone',
+    selectedUserIds: params.getAll('user'),
+    selectedTagIds: params.getAll('tag'),
+    selectedCuisines: params.getAll('cuisine'),
+    selectedBounds: parseBounds(params.get('bounds')),
+    selectedRegion: parseRegion(params.get('area')),
+    maxWalkMinutes: walk > 0 ? walk : null,
+    highlightedRestaurantId: params.get('place') || null,
+    calibrateRatings: params.get('calibrated') === '1',
+  }
+}
+
+// Panning the map or picking a place replaces the history entry; other changes add one
+function historyKey(filters: SharedFilters): string {
+  return filtersToSearch({
+    ...filters,
+    selectedBounds: filters.selectedBounds && [0, 0, 1, 1],
+    highlightedRestaurantId: null,
+  })
+}
+
+/**
+ * Keeps the filter store and the address bar in step: loads the filters from
+ * the URL, writes every change back, and follows back and forward. Returns a
+ * function that stops syncing.
+ */
+export function syncFiltersWithUrl(): () => void {
+  const urlFor = (search: string) => `${window.location.pathname}${search}${window.location.hash}`
+
+  const restore = () => {
+    const filters = filtersFromSearch(window.location.search)
+    window.history.replaceState(window.history.state, '', urlFor(filtersToSearch(filters)))
+    useFilterStore.setState(filters)
+  }
+  restore()
+
+  let previous = sharedFilters(useFilterStore.getState())
+  const unsubscribe = useFilterStore.subscribe(state => {
+    const current = sharedFilters(state)
+    const search = filtersToSearch(current)
+    if (search !== window.location.search) {
+      if (historyKey(current) === historyKey(previous)) {
+        window.history.replaceState(window.history.state, '', urlFor(search))
+      } else {
+        window.history.pushState(null, '', urlFor(search))
+      }
+    }
+    previous = current
+  })
+
+  window.addEventListener('popstate', restore)
+  return () => {
+    unsubscribe()
+    window.removeEventListener('popstate', restore)
+  }
+}
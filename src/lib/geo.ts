@@ -0,0 +1,85 @@
+export type LatLng = {
+  lat: number
+  lng: number
+}
+
+const EARTH_RADIUS_METRES = 6371000
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180
+}
+
+// Great-circle distance between two points, in metres
+export function haversineDistance(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat)
+  const dLng = toRadians(b.lng - a.lng)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_METRES * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+// Restaurant rows store coordinates as nullable latitude/longitude columns
+export function toLatLng(row: { latitude: number | null; longitude: number | null }): LatLng | null {
+  if (row.latitude === null || row.longitude === null) return null
+  return { lat: Number(row.latitude), lng: Number(row.longitude) }
+}
+
+// A map area as [west, south, east, north]
+export type Bounds = [number, number, number, number]
+
+// A drawn area as [lng, lat] vertices, in drawing order
+export type Region = [number, number][]
+
+export function inBounds(point: LatLng, [west, south, east, north]: Bounds): boolean {
+  return point.lng >= west && point.lng <= east && point.lat >= south && point.lat <= north
+}
+
+// Ray casting: count the edges a ray from the point crosses
+export function inRegion(point: LatLng, region: Region): boolean {
+  let inside = false
+  for (let i = 0, j = region.length - 1; i < region.length; j = i++) {
+    const [xi, yi] = region[i]
+    const [xj, yj] = region[j]
+    if ((yi > point.lat) !== (yj > point.lat) && point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// Postgres polygon literal, e.g. ((-0.1,51.5),(0,51.5),(0,51.6))
+export function toPolygonLiteral(region: Region): string {
+  return `(${region.map(([lng, lat]) => `(${lng},${lat})`).join(',')})`
+}
+
+// Whether a restaurant passes the map area filters; places without coordinates never do
+export function inMapArea(
+  row: { latitude: number | null; longitude: number | null },
+  bounds: Bounds | null,
+  region: Region | null
+): boolean {
+  if (!bounds && !region) return true
+  const point = toLatLng(row)
+  if (!point) return false
+  return (!bounds || inBounds(point, bounds)) && (!region || inRegion(point, region))
+}
+
+// A comfortable lunchtime walking pace, and the range profiles accept
+export const DEFAULT_WALKING_SPEED_KMH = 4.8
+export const MIN_WALKING_SPEED_KMH = 2
+export const MAX_WALKING_SPEED_KMH = 10
+
+// Straight-line distance covered in the given minutes
+export function walkingDistance(minutes: number, speedKmh: number): number {
+  return (minutes * speedKmh * 1000) / 60
+}
+
+export function walkingMinutes(metres: number, speedKmh: number): number {
+  return (metres * 60) / (speedKmh * 1000)
+}
+
+export function formatDistance(metres: number): string {
+  if (metres < 1000) return `${Math.round(metres / 10) * 10} m`
+  return `${(metres / 1000).toFixed(1)} km`
+}
@@ -0,0 +1,222 @@
+import { normaliseRestaurantName } from './restaurants'
+
+export type GeocodingProviderName = 'google' | 'photon' | 'fixture'
+
+export interface PlaceSuggestion {
+  placeId: string
+  name: string
+  address: string
+  // Set when the provider already knows the location, so no details call is needed
+  lat?: number
+  lng?: number
+}
+
+export interface PlaceDetails {
+  placeId: string
+  address: string | null
+  lat: number
+  lng: number
+}
+
+export interface GeocodingProvider {
+  name: GeocodingProviderName
+  autocomplete(query: string): Promise<PlaceSuggestion[]>
+  getPlaceDetails(suggestion: PlaceSuggestion): Promise<PlaceDetails | null>
+}
+
+// ─── Google Places ──────────────────────────────────────────────
+
+const GOOGLE_PLACE_TYPES = ['restaurant', 'cafe', 'bar', 'bakery', 'meal_takeaway']
+
+interface GoogleSuggestion {
+  placePrediction: {
+    placeId: string
+    structuredFormat: { mainText: { text: string }; secondaryText?: { text: string } }
+  }
+}
+
+export function createGoogleProvider(apiKey: string): GeocodingProvider {
+  return {
+    name: 'google',
+
+    async autocomplete(query) {
+      const response = await fetch('https://places.googleapis.com/v1/places:autocomplete', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Goog-Api-Key': apiKey,
+        },
+        body: JSON.stringify({
+          input: query,
+          includedPrimaryTypes: GOOGLE_PLACE_TYPES,
+        }),
+      })
+      if (!response.ok) throw new Error('Place search failed')
+
+      const data = await response.json()
+      return ((data.suggestions || []) as GoogleSuggestion[]).map(s => ({
+        placeId: s.placePrediction.placeId,
+        name: s.placePrediction.structuredFormat.mainText.text,
+        address: s.placePrediction.structuredFormat.secondaryText?.text || '',
+      }))
+    },
+
+    async getPlaceDetails(suggestion) {
+      const response = await fetch(
+        `https://places.googleapis.com/v1/places/${suggestion.placeId}?fields=location,formattedAddress`,
+        { headers: { 'X-Goog-Api-Key': apiKey } }
+      )
+      if (!response.ok) throw new Error('Failed to get place details')
+
+      const data = await response.json()
+      if (!data.location) return null
+      return {
+        placeId: suggestion.placeId,
+        // The full address is better than the autocomplete's secondary text
+        address: data.formattedAddress || suggestion.address || null,
+        lat: data.location.latitude,
+        lng: data.location.longitude,
+      }
+    },
+  }
+}
+
+// ─── Photon / Nominatim (OpenStreetMap) ─────────────────────────
+
+// OSM ids are prefixed so they can never collide with a Google place id
+const OSM_PLACE_PREFIX = 'osm:'
+const OSM_TYPE_CODES: Record<string, string> = { N: 'N', W: 'W', R: 'R', node: 'N', way: 'W', relation: 'R' }
+
+interface PhotonFeature {
+  geometry: { coordinates: [number, number] }
+  properties: {
+    osm_type: string
+    osm_id: number
+    name?: string
+    housenumber?: string
+    street?: string
+    district?: string
+    city?: string
+    postcode?: string
+  }
+}
+
+function formatPhotonAddress(p: PhotonFeature['properties']): string {
+  const street = [p.housenumber, p.street].filter(Boolean).join(' ')
+  return [street, p.district, p.city, p.postcode].filter(Boolean).join(', ')
+}
+
+/**
+ * Photon for autocomplete (Nominatim's usage policy forbids it), with
+ * Nominatim's lookup endpoint for the rare suggestion that arrives without
+ * coordinates. Both are free and keyless, so this is the default when no
+ * Google key is configured.
+ */
+export function createPhotonProvider(
+  photonUrl: string = 'https://photon.komoot.io',
+  nominatimUrl: string = 'https://nominatim.openstreetmap.org'
+): GeocodingProvider {
+  return {
+    name: 'photon',
+
+    async autocomplete(query) {
+      const params = new URLSearchParams({ q: query, limit: '8', lang: 'en' })
+      for (const tag of ['amenity:restaurant', 'amenity:cafe', 'amenity:bar', 'amenity:pub', 'amenity:fast_food', 'shop:bakery']) {
+        params.append('osm_tag', tag)
+      }
+
+      const response = await fetch(`${photonUrl}/api/?${params.toString()}`)
+      if (!response.ok) throw new Error('Place search failed')
+
+      const data = await response.json()
+      return ((data.features || []) as PhotonFeature[])
+        .filter(f => f.properties.name && OSM_TYPE_CODES[f.properties.osm_type])
+        .map(f => ({
+          placeId: `${OSM_PLACE_PREFIX}${OSM_TYPE_CODES[f.properties.osm_type]}${f.properties.osm_id}`,
+          name: f.properties.name!,
+          address: formatPhotonAddress(f.properties),
+          lat: f.geometry.coordinates[1],
+          lng: f.geometry.coordinates[0],
+        }))
+    },
+
+    async getPlaceDetails(suggestion) {
+      if (suggestion.lat !== undefined && suggestion.lng !== undefined) {
+        return { placeId: suggestion.placeId, address: suggestion.address || null, lat: suggestion.lat, lng: suggestion.lng }
+      }
+
+      const osmId = suggestion.placeId.replace(OSM_PLACE_PREFIX, '')
+      const response = await fetch(`${nominatimUrl}/lookup?osm_ids=${encodeURIComponent(osmId)}&format=jsonv2`)
+      if (!response.ok) throw new Error('Failed to get place details')
+
+      const [place] = await response.json() as { lat: string; lon: string; display_name: string }[]
+      if (!place) return null
+      return {
+        placeId: suggestion.placeId,
+        address: suggestion.address || place.display_name,
+        lat: parseFloat(place.lat),
+        lng: parseFloat(place.lon),
+      }
+    },
+  }
+}
+
+// ─── Local fixtures ─────────────────────────────────────────────
+
+export type FixturePlace = Required<PlaceSuggestion>
+
+// A handful of real places around the office, enough to exercise the form offline
+export const FIXTURE_PLACES: FixturePlace[] = [
+  { placeId: 'fixture:padella', name: 'Padella', address: '6 Southwark St, London SE1 1TQ', lat: 51.5054, lng: -0.0902 },
+  { placeId: 'fixture:the-rake', name: 'The Rake', address: '14 Winchester Walk, London SE1 9AG', lat: 51.5057, lng: -0.0908 },
+  { placeId: 'fixture:monmouth', name: 'Monmouth Coffee', address: '2 Park St, London SE1 9AB', lat: 51.5052, lng: -0.0905 },
+  { placeId: 'fixture:bao-borough', name: 'BAO Borough', address: '13 Stoney St, London SE1 9AD', lat: 51.5053, lng: -0.0910 },
+  { placeId: 'fixture:arabica', name: 'Arabica Bar & Kitchen', address: '3 Rochester Walk, London SE1 9AF', lat: 51.5049, lng: -0.0913 },
+  { placeId: 'fixture:flat-iron', name: 'Flat Iron London Bridge', address: '112-116 Tooley St, London SE1 2TH', lat: 51.5038, lng: -0.0817 },
+  { placeId: 'fixture:the-market-porter', name: 'The Market Porter', address: '9 Stoney St, London SE1 9AA', lat: 51.5056, lng: -0.0911 },
+  { placeId: 'fixture:pret-london-bridge', name: 'Pret A Manger', address: '1 London Bridge, London SE1 9BG', lat: 51.5065, lng: -0.0880 },
+]
+
+export function createFixtureProvider(places: FixturePlace[] = FIXTURE_PLACES): GeocodingProvider {
+  return {
+    name: 'fixture',
+
+    async autocomplete(query) {
+      const needle = normaliseRestaurantName(query)
+      if (!needle) return []
+      return places.filter(p => normaliseRestaurantName(p.name).includes(needle))
+    },
+
+    async getPlaceDetails(suggestion) {
+      const place = places.find(p => p.placeId === suggestion.placeId)
+      if (!place) return null
+      return { placeId: place.placeId, address: place.address, lat: place.lat, lng: place.lng }
+    },
+  }
+}
+
+// ─── Selection ──────────────────────────────────────────────────
+
+// import.meta.env in the app, process.env in scripts
+interface GeocodingEnv {
+  [key: string]: string | undefined
+  PUBLIC_GEOCODING_PROVIDER?: string
+  PUBLIC_GOOGLE_MAPS_API_KEY?: string
+  PUBLIC_PHOTON_URL?: string
+  PUBLIC_NOMINATIM_URL?: string
+}
+
+/**
+ * Pick a provider from the environment. PUBLIC_GEOCODING_PROVIDER wins when
+ * set; otherwise Google is used if there is a key, and Photon if there isn't.
+ */
+export function getGeocodingProvider(env: GeocodingEnv = import.meta.env as GeocodingEnv): GeocodingProvider {
+  const requested = env.PUBLIC_GEOCODING_PROVIDER as GeocodingProviderName | undefined
+
+  if (requested === 'fixture') return createFixtureProvider()
+  if (requested === 'google' || (!requested && env.PUBLIC_GOOGLE_MAPS_API_KEY)) {
+    if (env.PUBLIC_GOOGLE_MAPS_API_KEY) return createGoogleProvider(env.PUBLIC_GOOGLE_MAPS_API_KEY)
+    console.warn('PUBLIC_GOOGLE_MAPS_API_KEY is not set, falling back to Photon for place search')
+  }
+  return createPhotonProvider(env.PUBLIC_PHOTON_URL || undefined, env.PUBLIC_NOMINATIM_URL || undefined)
+}
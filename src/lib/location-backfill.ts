@@ -0,0 +1,156 @@
+import { haversineDistance, toLatLng } from './geo'
+import type { LatLng } from './geo'
+import { normaliseRestaurantName, MATCH_RADIUS_METRES } from './restaurants'
+import type { MatchableRestaurant } from './restaurants'
+import type { GeocodingProviderName, PlaceDetails, PlaceSuggestion } from './geocoding'
+
+export type BackfillRestaurant = MatchableRestaurant & {
+  address: string | null
+}
+
+export interface LocationUpdate {
+  latitude?: number
+  longitude?: number
+  address?: string
+  place_id?: string
+}
+
+export type BackfillResult =
+  | { id: string; status: 'update'; update: LocationUpdate; note?: string }
+  | { id: string; status: 'unresolved'; reason: string }
+
+// Stored place ids are only meaningful to the provider that issued them
+export function providerOwnsPlaceId(provider: GeocodingProviderName, placeId: string): boolean {
+  if (provider === 'photon') return placeId.startsWith('osm:')
+  if (provider === 'fixture') return placeId.startsWith('fixture:')
+  return !placeId.includes(':')
+}
+
+// Rows missing anything the map or the popup needs
+export function needsLocationBackfill(restaurant: BackfillRestaurant): boolean {
+  return restaurant.latitude === null || restaurant.longitude === null || !restaurant.address
+}
+
+/**
+ * Choose which search result is this restaurant. The names must match the
+ * same way AddReview matches them, then:
+ * - a row that already has coordinates takes the closest result within MATCH_RADIUS_METRES
+ * - otherwise the closest result within maxDistanceMetres of `near` (usually the office)
+ * - with neither, only a single unambiguous name match is accepted
+ */
+export function pickSuggestion(
+  restaurant: BackfillRestaurant,
+  suggestions: PlaceSuggestion[],
+  options: { near?: LatLng | null; maxDistanceMetres?: number } = {}
+): PlaceSuggestion | null {
+  const name = normaliseRestaurantName(restaurant.name)
+  const named = suggestions.filter(s => {
+    const other = normaliseRestaurantName(s.name)
+    return other && (other === name || other.includes(name) || name.includes(other))
+  })
+  if (named.length === 0) return null
+
+  const own = toLatLng(restaurant)
+  const anchor = own ?? options.near ?? null
+  const radius = own ? MATCH_RADIUS_METRES : options.maxDistanceMetres ?? 5000
+
+  if (!anchor) {
+    return named.length === 1 ? named[0] : null
+  }
+
+  let best: { suggestion: PlaceSuggestion; distance: number } | null = null
+  for (const suggestion of named) {
+    // Suggestions without coordinates can't be ranked; details will fill them in
+    if (suggestion.lat === undefined || suggestion.lng === undefined) {
+      if (named.length === 1) return suggestion
+      continue
+    }
+    const distance = haversineDistance(anchor, { lat: suggestion.lat, lng: suggestion.lng })
+    if (distance > radius) continue
+    if (!best || distance < best.distance) best = { suggestion, distance }
+  }
+  return best?.suggestion ?? null
+}
+
+/**
+ * Work out the columns to write. Only empty columns are filled so a rerun
+ * never overwrites something a person typed, and a place id already used by
+ * another row is left off (the unique constraint would reject it) with a note
+ * to merge the two instead.
+ */
+export function planLocationUpdate(
+  restaurant: BackfillRestaurant,
+  details: PlaceDetails,
+  takenPlaceIds: Set<string>
+): BackfillResult {
+  const update: LocationUpdate = {}
+  let note: string | undefined
+
+  if (restaurant.latitude === null || restaurant.longitude === null) {
+    update.latitude = details.lat
+    update.longitude = details.lng
+  }
+  if (!restaurant.address && details.address) {
+    update.address = details.address
+  }
+  if (!restaurant.place_id) {
+    if (takenPlaceIds.has(details.placeId)) {
+      note = `place ${details.placeId} is already on another restaurant; merge them from organisation settings`
+    } else {
+      update.place_id = details.placeId
+    }
+  }
+
+  if (Object.keys(update).length === 0) {
+    return { id: restaurant.id, status: 'unresolved', reason: note ?? 'nothing new found' }
+  }
+  return { id: restaurant.id, status: 'update', update, note }
+}
+
+// One line per changed column, for the dry run
+export function formatLocationDiff(restaurant: BackfillRestaurant, update: LocationUpdate): string[] {
+  const lines: string[] = []
+  if (update.latitude !== undefined || update.longitude !== undefined) {
+    const before = restaurant.latitude !== null && restaurant.longitude !== null
+      ? `${restaurant.latitude}, ${restaurant.longitude}`
+      : 'null'
+    lines.push(`  location: ${before} -> ${update.latitude}, ${update.longitude}`)
+  }
+  if (update.address !== undefined) {
+    lines.push(`  address:  ${restaurant.address || 'null'} -> ${update.address}`)
+  }
+  if (update.place_id !== undefined) {
+    lines.push(`  place_id: ${restaurant.place_id || 'null'} -> ${update.place_id}`)
+  }
+  return lines
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size))
+  }
+  return batches
+}
+
+export interface ProgressEntry {
+  id: string
+  status: 'updated' | 'unresolved'
+  at: string
+  detail?: string
+}
+
+// Progress log is JSON lines; a half-written last line from a crash is ignored
+export function parseProgressLog(contents: string): Map<string, ProgressEntry> {
+  const entries = new Map<string, ProgressEntry>()
+  for (const line of contents.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      const entry = JSON.parse(line) as ProgressEntry
+      if (entry.id) entries.set(entry.id, entry)
+    } catch {
+      continue
+    }
+  }
+  return entries
+}
@@ -0,0 +1,99 @@
+import type { Database, RestaurantCategory } from './database.types'
+import { distanceFilters } from './summaries'
+import { walkingMinutes } from './geo'
+import type { LatLng } from './geo'
+
+type ShortlistArgs = Database['public']['Functions']['lunch_shortlist']['Args']
+type ShortlistRow = Database['public']['Functions']['lunch_shortlist']['Returns'][number]
+
+export const SHORTLIST_SIZE = 5
+export const VETO_RATING = 4
+export const RECENT_DAY_OPTIONS = [3, 7, 14, 30]
+
+// What the group asked for
+export type LunchConstraints = {
+  attendeeIds: string[]
+  categories: RestaurantCategory[]
+  maxWalkMinutes: number | null
+  recentDays: number | null // skip places an attendee went to this recently
+}
+
+// One attendee's verdict on a shortlisted place
+export type AttendeeRating = {
+  id: string
+  name: string
+  rating: number
+  visited_at: string | null
+}
+
+export type LunchOption = {
+  id: string
+  name: string
+  cuisine: string
+  latitude: number | null
+  longitude: number | null
+  distanceM: number | null
+  groupRating: number
+  score: number
+  ratedBy: number
+  lastVisitedAt: string | null
+  attendeeRatings: AttendeeRating[]
+}
+
+// Translate the decider's constraints into lunch_shortlist arguments
+export function shortlistArgs(
+  constraints: LunchConstraints,
+  origin: LatLng | null,
+  walkingSpeedKmh: number
+): ShortlistArgs {
+  const args: ShortlistArgs = {
+    attendee_ids: constraints.attendeeIds,
+    veto_rating: VETO_RATING,
+    result_limit: SHORTLIST_SIZE,
+    ...distanceFilters(origin, constraints.maxWalkMinutes, walkingSpeedKmh),
+  }
+  if (constraints.categories.length > 0) args.with_categories = constraints.categories
+  if (constraints.recentDays !== null) args.recent_days = constraints.recentDays
+  return args
+}
+
+export function toLunchOption(row: ShortlistRow): LunchOption {
+  return {
+    id: row.id,
+    name: row.name,
+    cuisine: row.cuisine,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    distanceM: row.distance_m,
+    groupRating: row.group_rating,
+    score: row.score,
+    ratedBy: row.rated_by,
+    lastVisitedAt: row.last_visited_at,
+    attendeeRatings: (row.attendee_ratings || []) as AttendeeRating[],
+  }
+}
+
+const formatRating = (rating: number) => (Number.isInteger(rating) ? String(rating) : rating.toFixed(1))
+
+const list = (items: string[]) =>
+  items.length === 1 ? items[0] : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+
+/**
+ * Why a place made the shortlist, one reason per entry, e.g.
+ * ["Alex gave it 9 and Sam gave it 8", "2 of 3 of you have rated it", "Nobody rated it 4 or below", ...].
+ */
+export function explainLunchOption(
+  option: LunchOption,
+  { attendeeCount, recentDays, walkingSpeedKmh }: { attendeeCount: number; recentDays: number | null; walkingSpeedKmh: number }
+): string[] {
+  const reasons = [list(option.attendeeRatings.map(a => `${a.name} gave it ${formatRating(a.rating)}`))]
+  if (attendeeCount > 1) {
+    reasons.push(option.ratedBy === attendeeCount
+      ? `All ${attendeeCount} of you have rated it`
+      : `${option.ratedBy} of ${attendeeCount} of you have rated it`)
+  }
+  reasons.push(`Nobody rated it ${VETO_RATING} or below`)
+  if (recentDays !== null) reasons.push(`Nobody has been in the last ${recentDays} days`)
+  if (option.distanceM !== null) reasons.push(`${Math.round(walkingMinutes(option.distanceM, walkingSpeedKmh))} min walk`)
+  return reasons
+}
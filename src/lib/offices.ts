@@ -0,0 +1,50 @@
+import type { Office, OfficeLocation } from './database.types'
+
+export const MAX_OFFICES = 10
+
+// Reads "51.5047, -0.0886", the form most map apps copy coordinates in
+export function parseCoordinates(text: string): OfficeLocation | null {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)$/)
+  if (!match) return null
+  const lat = parseFloat(match[1])
+  const lng = parseFloat(match[2])
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null
+  return { lat, lng }
+}
+
+// Returns a message for the admin form, or null if the office can be saved
+export function validateOffice(
+  name: string,
+  coordinates: string,
+  existing: Pick<Office, 'id' | 'name'>[]
+): string | null {
+  const trimmed = name.trim()
+  if (!trimmed) return 'Give the office a name'
+  if (trimmed.length > 60) return 'Keep the name under 60 characters'
+  if (!parseCoordinates(coordinates)) return 'Coordinates should look like 51.5047, -0.0886'
+  if (existing.some(o => o.name.trim().toLowerCase() === trimmed.toLowerCase())) {
+    return `There is already an office called "${trimmed}"`
+  }
+  if (existing.length >= MAX_OFFICES) return `Organisations can have up to ${MAX_OFFICES} offices`
+  return null
+}
+
+/**
+ * The office the dashboard works from: the one picked on the map, else the
+ * member's home office, else the organisation's first. Picks that no longer
+ * exist (a deleted office, another org's office) are skipped.
+ */
+export function resolveOffice(
+  offices: Office[],
+  homeOfficeId: string | null,
+  pickedOfficeId: string | null = null
+): Office | null {
+  return offices.find(o => o.id === pickedOfficeId)
+    || offices.find(o => o.id === homeOfficeId)
+    || offices[0]
+    || null
+}
+
+export function toOfficeLocation(office: Pick<Office, 'latitude' | 'longitude'>): OfficeLocation {
+  return { lat: Number(office.latitude), lng: Number(office.longitude) }
+}
@@ -0,0 +1,32 @@
+import { filtersToSearch, filtersFromSearch } from './filter-params'
+import type { SharedFilters } from './filter-params'
+import type { FilterPreset } from './database.types'
+
+export const MAX_PRESETS = 20
+
+// A preset is the filters without the place that happened to be open
+export function presetQuery(filters: SharedFilters): string {
+  return filtersToSearch({ ...filters, highlightedRestaurantId: null })
+}
+
+export function presetFilters(preset: Pick<FilterPreset, 'query'>): SharedFilters {
+  return { ...filtersFromSearch(preset.query), highlightedRestaurantId: null }
+}
+
+// The preset the current filters match, if any
+export function matchingPreset<T extends Pick<FilterPreset, 'query'>>(presets: T[], filters: SharedFilters): T | null {
+  const query = presetQuery(filters)
+  return presets.find(p => presetQuery(presetFilters(p)) === query) || null
+}
+
+// Returns a message for the save form, or null if the preset can be saved
+export function validatePresetName(name: string, existing: Pick<FilterPreset, 'name'>[]): string | null {
+  const trimmed = name.trim()
+  if (!trimmed) return 'Give the preset a name'
+  if (trimmed.length > 40) return 'Keep the name under 40 characters'
+  if (existing.some(p => p.name.trim().toLowerCase() === trimmed.toLowerCase())) {
+    return `You already have a preset called "${trimmed}"`
+  }
+  if (existing.length >= MAX_PRESETS) return `You can save up to ${MAX_PRESETS} presets`
+  return null
+}
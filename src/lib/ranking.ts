@@ -0,0 +1,36 @@
+// How many reviews' worth of the overall mean every place starts with
+export const PRIOR_REVIEWS = 3
+
+type Rated = { avgRating: number | null; reviewCount: number }
+
+// The mean of every rating behind the averages, or null if nothing is rated
+export function populationMean(items: Rated[]): number | null {
+  let total = 0
+  let count = 0
+  for (const { avgRating, reviewCount } of items) {
+    if (avgRating === null || reviewCount === 0) continue
+    total += avgRating * reviewCount
+    count += reviewCount
+  }
+  return count > 0 ? total / count : null
+}
+
+/**
+ * Bayesian average: a place's reviews plus PRIOR_REVIEWS reviews at the mean.
+ * One 10 against a mean of 7 scores 7.75; twenty 9s score 8.74. Mirrored by
+ * confidence_score in the database.
+ */
+export function confidenceScore(avgRating: number | null, reviewCount: number, mean: number | null): number | null {
+  if (avgRating === null || reviewCount === 0) return null
+  if (mean === null) return avgRating
+  return (PRIOR_REVIEWS * mean + reviewCount * avgRating) / (PRIOR_REVIEWS + reviewCount)
+}
+
+// Rated items, highest score first, more reviews breaking ties
+export function rankByConfidence<T extends Rated>(items: T[]): (T & { score: number })[] {
+  const mean = populationMean(items)
+  return items
+    .map(item => ({ ...item, score: confidenceScore(item.avgRating, item.reviewCount, mean) }))
+    .filter((item): item is T & { score: number } => item.score !== null)
+    .sort((a, b) => b.score - a.score || b.reviewCount - a.reviewCount)
+}
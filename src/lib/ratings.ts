@@ -11,3 +11,25 @@ export function getRatingLabel(rating: number): string {
   }
   return labels[Math.round(rating)] || ''
 }
+
+// Mean of the ratings that were given; optional ratings are often left empty
+export function averageRating(ratings: (number | null | undefined)[]): number | null {
+  const given = ratings.filter((r): r is number => r !== null && r !== undefined)
+  if (given.length === 0) return null
+  return given.reduce((a, b) => a + b, 0) / given.length
+}
+
+// Averages of each rating dimension across a restaurant's reviews
+export function averageRatings(reviews: { rating: number | null; value_rating?: number | null; taste_rating?: number | null }[]) {
+  return {
+    avgRating: averageRating(reviews.map(r => r.rating)),
+    avgValueRating: averageRating(reviews.map(r => r.value_rating)),
+    avgTasteRating: averageRating(reviews.map(r => r.taste_rating)),
+  }
+}
+
+// A restaurant passes a minimum only if it has an average for that dimension
+export function meetsMinimum(average: number | null, minimum: number | null): boolean {
+  if (minimum === null) return true
+  return average !== null && average >= minimum
+}
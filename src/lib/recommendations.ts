@@ -0,0 +1,70 @@
+import type { Database } from './database.types'
+
+type RecommendationRow = Database['public']['Functions']['recommended_restaurants']['Returns'][number]
+
+export const RECOMMENDATION_LIMIT = 6
+
+// A reviewer with similar taste who rated a recommended place
+export type TasteMatch = {
+  id: string
+  name: string
+  rating: number
+  similarity: number // 0 to 1
+  shared: number // places both have rated
+}
+
+export type Recommendation = {
+  id: string
+  name: string
+  cuisine: string
+  latitude: number | null
+  longitude: number | null
+  predictedRating: number
+  weight: number
+  reviewers: TasteMatch[]
+}
+
+/**
+ * 1 for perfect agreement, falling to 0 once ratings differ by 3 on average,
+ * and discounted while there are few places in common. Mirrored by
+ * taste_similarity in the database.
+ */
+export function tasteSimilarity(meanDifference: number | null, shared: number): number {
+  if (meanDifference === null || shared < 2) return 0
+  return Math.max(0, 1 - meanDifference / 3) * shared / (shared + 2)
+}
+
+// My mean plus how far similar reviewers rated the place from their own means, weighted by similarity
+export function predictRating(myMean: number, neighbours: { similarity: number; deviation: number }[]): number | null {
+  const weight = neighbours.reduce((sum, n) => sum + n.similarity, 0)
+  if (weight <= 0) return null
+  const lift = neighbours.reduce((sum, n) => sum + n.similarity * n.deviation, 0) / weight
+  return Math.min(10, Math.max(1, myMean + lift))
+}
+
+export function toRecommendation(row: RecommendationRow): Recommendation {
+  return {
+    id: row.id,
+    name: row.name,
+    cuisine: row.cuisine,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    predictedRating: row.predicted_rating,
+    weight: row.weight,
+    reviewers: (row.reviewers || []) as TasteMatch[],
+  }
+}
+
+const formatRating = (rating: number) => (Number.isInteger(rating) ? String(rating) : rating.toFixed(1))
+
+// e.g. "Alex gave it 9 and Sam gave it 8. You rate alike on 4 and 3 places you've both tried."
+export function explainRecommendation(recommendation: Recommendation): string {
+  const reviewers = recommendation.reviewers
+  if (reviewers.length === 0) return ''
+  const gave = reviewers.map(r => `${r.name} gave it ${formatRating(r.rating)}`)
+  const shared = reviewers.map(r => r.shared)
+  const list = (items: (string | number)[]) =>
+    items.length === 1 ? String(items[0]) : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+  // Similar reviewers always share at least two places
+  return `${list(gave)}. You rate alike on ${list(shared)} places you've both tried.`
+}
@@ -0,0 +1,218 @@
+import { haversineDistance, toLatLng } from './geo'
+import { providerOwnsPlaceId } from './location-backfill'
+
+// Two rows closer than this are treated as the same venue
+export const MATCH_RADIUS_METRES = 75
+
+export interface MatchableRestaurant {
+  id: string
+  name: string
+  place_id: string | null
+  latitude: number | null
+  longitude: number | null
+}
+
+export interface RestaurantCandidate {
+  name: string
+  placeId?: string | null
+  lat?: number | null
+  lng?: number | null
+}
+
+// Lowercase, strip accents/punctuation and a leading "the" so
+// "The Rake" and "rake" compare equal
+export function normaliseRestaurantName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/['\u2019]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^the /, '')
+}
+
+function namesSimilar(a: string, b: string): boolean {
+  if (!a || !b) return false
+  return a === b || a.includes(b) || b.includes(a)
+}
+
+/**
+ * Find an existing restaurant row for a place the user picked or typed.
+ * - Same Google place id always wins
+ * - Otherwise the normalised names must match (or one contain the other)
+ *   and the two points must be within MATCH_RADIUS_METRES
+ * - Rows without coordinates only match on an exact normalised name,
+ *   and only when the candidate has no coordinates either
+ */
+export function findMatchingRestaurant<T extends MatchableRestaurant>(
+  restaurants: T[],
+  candidate: RestaurantCandidate
+): T | null {
+  if (candidate.placeId) {
+    const byPlaceId = restaurants.find(r => r.place_id === candidate.placeId)
+    if (byPlaceId) return byPlaceId
+  }
+
+  const name = normaliseRestaurantName(candidate.name)
+  if (!name) return null
+
+  const point = candidate.lat != null && candidate.lng != null
+    ? { lat: candidate.lat, lng: candidate.lng }
+    : null
+
+  let best: { restaurant: T; distance: number } | null = null
+
+  for (const restaurant of restaurants) {
+    const otherName = normaliseRestaurantName(restaurant.name)
+    if (!namesSimilar(name, otherName)) continue
+
+    const otherPoint = toLatLng(restaurant)
+    if (!point || !otherPoint) {
+      if (!point && !otherPoint && otherName === name) return restaurant
+      continue
+    }
+
+    const distance = haversineDistance(point, otherPoint)
+    if (distance > MATCH_RADIUS_METRES) continue
+    if (!best || distance < best.distance) {
+      best = { restaurant, distance }
+    }
+  }
+
+  return best?.restaurant ?? null
+}
+
+// Distinct reviewers on a restaurant, for "already reviewed by N people"
+export function countReviewers(reviews: { user_id: string | null }[]): number {
+  return new Set(reviews.map(r => r.user_id).filter(Boolean)).size
+}
+
+export type MergeableRestaurant = MatchableRestaurant & {
+  cuisine: string
+  categories: string[]
+  address: string | null
+  created_at: string | null
+  review_count: number
+}
+
+export interface MergeReview {
+  id: string
+  restaurant_id: string | null
+  user_id: string | null
+  rating: number | null
+  created_at: string | null
+}
+
+// One row of find_duplicate_restaurants: two restaurants that look like the same place
+export interface DuplicatePair {
+  restaurant_id: string
+  duplicate_id: string
+}
+
+/**
+ * Group the restaurants find_duplicate_restaurants paired up. Duplicates are
+ * transitive, so "Padella" ~ "Padella Borough" ~ "Padella Borough Market"
+ * form one group. Groups keep the order the restaurants were given in.
+ */
+export function groupDuplicates<T extends MatchableRestaurant>(restaurants: T[], pairs: DuplicatePair[]): T[][] {
+  const parent = new Map(restaurants.map(r => [r.id, r.id]))
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) {
+      const next = parent.get(parent.get(id)!)!
+      parent.set(id, next)
+      id = next
+    }
+    return id
+  }
+
+  for (const pair of pairs) {
+    if (!parent.has(pair.restaurant_id) || !parent.has(pair.duplicate_id)) continue
+    parent.set(find(pair.duplicate_id), find(pair.restaurant_id))
+  }
+
+  const groups = new Map<string, T[]>()
+  for (const restaurant of restaurants) {
+    const root = find(restaurant.id)
+    if (!groups.has(root)) groups.set(root, [])
+    groups.get(root)!.push(restaurant)
+  }
+
+  return Array.from(groups.values()).filter(group => group.length > 1)
+}
+
+// Keep the row with the most reviews, then one with a place id, then the oldest
+export function pickSurvivor<T extends MergeableRestaurant>(group: T[]): T {
+  return group.slice().sort((a, b) =>
+    b.review_count - a.review_count ||
+    Number(!!b.place_id) - Number(!!a.place_id) ||
+    (a.created_at || '').localeCompare(b.created_at || '')
+  )[0]
+}
+
+export interface MergePreview<T extends MergeableRestaurant, R extends MergeReview> {
+  survivor: T
+  duplicates: T[]
+  cuisine: string
+  categories: string[]
+  reviews: R[]
+  avgRating: number | null
+}
+
+/**
+ * What the merge_restaurants database function will produce, so it can be
+ * shown before anything is changed:
+ * - categories are the union across all rows
+ * - cuisine is the survivor's, or the oldest duplicate's if the survivor has none
+ * - every review moves to the survivor, including a person's reviews of several rows
+ */
+export function previewMerge<T extends MergeableRestaurant, R extends MergeReview>(
+  survivor: T,
+  duplicates: T[],
+  reviews: R[]
+): MergePreview<T, R> {
+  const rows = [survivor, ...duplicates.filter(d => d.id !== survivor.id)]
+  const rowIds = new Set(rows.map(r => r.id))
+
+  const categories = [...new Set(rows.flatMap(r => r.categories))].sort()
+  const fallbackCuisine = rows
+    .slice(1)
+    .sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''))
+    .find(r => r.cuisine)?.cuisine
+  const cuisine = survivor.cuisine || fallbackCuisine || ''
+
+  const merged = reviews.filter(r => r.restaurant_id !== null && rowIds.has(r.restaurant_id))
+
+  const ratings = merged.filter(r => r.rating !== null).map(r => r.rating as number)
+  const avgRating = ratings.length > 0
+    ? ratings.reduce((a, b) => a + b, 0) / ratings.length
+    : null
+
+  return {
+    survivor,
+    duplicates: rows.slice(1),
+    cuisine,
+    categories,
+    reviews: merged,
+    avgRating,
+  }
+}
+
+/**
+ * Google Maps directions link for a restaurant. A Google place id pins the
+ * exact venue; ids from other geocoding providers mean nothing to Google, so
+ * then the destination text (always required by the URL scheme) is all it gets.
+ */
+export function getDirectionsUrl(restaurant: MatchableRestaurant & { address: string | null }): string {
+  const destination = restaurant.latitude !== null && restaurant.longitude !== null && !restaurant.address
+    ? `${restaurant.latitude},${restaurant.longitude}`
+    : [restaurant.name, restaurant.address].filter(Boolean).join(', ')
+
+  const params = new URLSearchParams({ api: '1', destination })
+  if (restaurant.place_id && providerOwnsPlaceId('google', restaurant.place_id)) {
+    params.set('destination_place_id', restaurant.place_id)
+  }
+
+  return `https://www.google.com/maps/dir/?${params.toString()}`
+}
@@ -0,0 +1,57 @@
+import type { Database } from './database.types'
+
+type SearchRow = Database['public']['Functions']['search_restaurants']['Returns'][number]
+
+export const MIN_SEARCH_LENGTH = 2
+export const SEARCH_RESULT_LIMIT = 12
+
+export type SearchMatch = 'place' | 'review' | 'tag'
+
+export type SearchResult = {
+  id: string
+  name: string
+  cuisine: string
+  address: string | null
+  avgRating: number | null
+  mentionCount: number // matching dishes and comments the viewer can read
+  matchedIn: SearchMatch
+  headline: string
+}
+
+export type HeadlinePart = { text: string; match: boolean }
+
+/**
+ * The to_tsquery for what someone typed: every word must match, and the last
+ * one may be a prefix so results appear while typing. Returns null when there
+ * is nothing worth searching for.
+ */
+export function toSearchQuery(text: string): string | null {
+  if (text.trim().length < MIN_SEARCH_LENGTH) return null
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu)
+  if (!words) return null
+  return words.map((word, i) => (i === words.length - 1 ? `${word}:*` : word)).join(' & ')
+}
+
+export function toSearchResult(row: SearchRow): SearchResult {
+  return {
+    id: row.id,
+    name: row.name,
+    cuisine: row.cuisine,
+    address: row.address,
+    avgRating: row.avg_rating,
+    mentionCount: row.mention_count,
+    matchedIn: row.matched_in as SearchMatch,
+    headline: row.headline,
+  }
+}
+
+// Splits a ts_headline on its <mark> tags, so matches can be styled without rendering HTML
+export function highlightParts(headline: string): HeadlinePart[] {
+  const parts: HeadlinePart[] = []
+  headline.split(/(<mark>.*?<\/mark>)/s).forEach(piece => {
+    if (!piece) return
+    const match = piece.startsWith('<mark>') && piece.endsWith('</mark>')
+    parts.push({ text: match ? piece.slice(6, -7) : piece, match })
+  })
+  return parts
+}
@@ -1,36 +1,49 @@
 import { create } from 'zustand'
 import type { Organisation, OrganisationWithMembership, OfficeLocation, RestaurantCategory, SocialFilter } from './database.types'
+import type { Bounds, Region } from './geo'
 
 export interface FilterState {
   // Existing filters
   selectedUserIds: string[]
   selectedRating: number | null
-  selectedBounds: [number, number, number, number] | null // [west, south, east, north]
+  selectedBounds: Bounds | null // the map viewport, while "filter to map area" is on
+  selectedRegion: Region | null // an area drawn on the map
   highlightedRestaurantId: string | null
+  mapFocus: Bounds | null // an area the map should move to, cleared once it has
 
   // New filters
   selectedCategories: RestaurantCategory[]
   minOverallRating: number | null
+  minValueRating: number | null
+  minTasteRating: number | null
   socialFilter: SocialFilter
   selectedTagIds: string[]
   selectedCuisines: string[]
+  maxWalkMinutes: number | null // from the office
+  calibrateRatings: boolean // average ratings after calibrating each reviewer, see lib/calibration.ts
 
   // Existing actions
   setSelectedUserIds: (userIds: string[]) => void
   toggleSelectedUserId: (userId: string) => void
   setSelectedRating: (rating: number | null) => void
-  setSelectedBounds: (bounds: [number, number, number, number] | null) => void
+  setSelectedBounds: (bounds: Bounds | null) => void
+  setSelectedRegion: (region: Region | null) => void
   setHighlightedRestaurantId: (id: string | null) => void
+  setMapFocus: (bounds: Bounds | null) => void
 
   // New actions
   setSelectedCategories: (categories: RestaurantCategory[]) => void
   toggleCategory: (category: RestaurantCategory) => void
   setMinOverallRating: (rating: number | null) => void
+  setMinValueRating: (rating: number | null) => void
+  setMinTasteRating: (rating: number | null) => void
   setSocialFilter: (filter: SocialFilter) => void
   setSelectedTagIds: (tagIds: string[]) => void
   toggleTagId: (tagId: string) => void
   setSelectedCuisines: (cuisines: string[]) => void
   toggleCuisine: (cuisine: string) => void
+  setMaxWalkMinutes: (minutes: number | null) => void
+  setCalibrateRatings: (calibrate: boolean) => void
 
   clearFilters: () => void
   hasActiveFilters: () => boolean
@@ -41,12 +54,18 @@ export const useFilterStore = create<FilterState>((set, get) => ({
   selectedUserIds: [],
   selectedRating: null,
   selectedBounds: null,
+  selectedRegion: null,
   highlightedRestaurantId: null,
+  mapFocus: null,
   selectedCategories: [],
   minOverallRating: null,
+  minValueRating: null,
+  minTasteRating: null,
   socialFilter: 'everyone',
   selectedTagIds: [],
   selectedCuisines: [],
+  maxWalkMinutes: null,
+  calibrateRatings: false,
 
   // Existing actions
   setSelectedUserIds: (userIds) => set({ selectedUserIds: userIds }),
@@ -57,7 +76,9 @@ export const useFilterStore = create<FilterState>((set, get) => ({
   })),
   setSelectedRating: (rating) => set({ selectedRating: rating }),
   setSelectedBounds: (bounds) => set({ selectedBounds: bounds }),
+  setSelectedRegion: (region) => set({ selectedRegion: region }),
   setHighlightedRestaurantId: (id) => set({ highlightedRestaurantId: id }),
+  setMapFocus: (bounds) => set({ mapFocus: bounds }),
 
   // New actions
   setSelectedCategories: (categories) => set({ selectedCategories: categories }),
@@ -67,6 +88,8 @@ export const useFilterStore = create<FilterState>((set, get) => ({
       : [...state.selectedCategories, category]
   })),
   setMinOverallRating: (rating) => set({ minOverallRating: rating }),
+  setMinValueRating: (rating) => set({ minValueRating: rating }),
+  setMinTasteRating: (rating) => set({ minTasteRating: rating }),
   setSocialFilter: (filter) => set({ socialFilter: filter }),
   setSelectedTagIds: (tagIds) => set({ selectedTagIds: tagIds }),
   toggleTagId: (tagId) => set((state) => ({
@@ -80,17 +103,23 @@ export const useFilterStore = create<FilterState>((set, get) => ({
       ? state.selectedCuisines.filter(c => c !== cuisine)
       : [...state.selectedCuisines, cuisine]
   })),
+  setMaxWalkMinutes: (minutes) => set({ maxWalkMinutes: minutes }),
+  setCalibrateRatings: (calibrate) => set({ calibrateRatings: calibrate }),
 
   clearFilters: () => set({
     selectedUserIds: [],
     selectedRating: null,
     selectedBounds: null,
+    selectedRegion: null,
     highlightedRestaurantId: null,
     selectedCategories: [],
     minOverallRating: null,
+    minValueRating: null,
+    minTasteRating: null,
     socialFilter: 'everyone',
     selectedTagIds: [],
     selectedCuisines: [],
+    maxWalkMinutes: null,
   }),
 
   hasActiveFilters: () => {
@@ -98,10 +127,15 @@ export const useFilterStore = create<FilterState>((set, get) => ({
     return (
       state.selectedCategories.length > 0 ||
       state.minOverallRating !== null ||
+      state.minValueRating !== null ||
+      state.minTasteRating !== null ||
       state.socialFilter !== 'everyone' ||
       state.selectedUserIds.length > 0 ||
       state.selectedTagIds.length > 0 ||
-      state.selectedCuisines.length > 0
+      state.selectedCuisines.length > 0 ||
+      state.maxWalkMinutes !== null ||
+      state.selectedBounds !== null ||
+      state.selectedRegion !== null
     )
   },
 }))
@@ -0,0 +1,158 @@
+import type { Database, RestaurantSummary, SocialFilter, Tag } from './database.types'
+import type { FilterState } from './store'
+import { toPolygonLiteral, walkingDistance } from './geo'
+import type { LatLng } from './geo'
+
+type SummaryArgs = Database['public']['Functions']['restaurant_summaries']['Args']
+type SummaryRow = Database['public']['Functions']['restaurant_summaries']['Returns'][number]
+type StatsRow = Database['public']['Functions']['restaurant_stats']['Returns'][number]
+export type SummaryScope = Pick<SummaryArgs, 'scope' | 'scope_org_id' | 'scope_user_ids'>
+export type SummaryFilters = Pick<SummaryArgs,
+  'min_rating' | 'min_value_rating' | 'min_taste_rating' | 'with_tag_ids' | 'with_cuisines' | 'with_categories' | 'bounds' | 'region' |
+  'calibrated'>
+export type DistanceFilters = Pick<SummaryArgs, 'origin_lat' | 'origin_lng' | 'max_distance_m'>
+export type SummaryCursor = Pick<SummaryArgs, 'after_rank' | 'after_name' | 'after_id'>
+export type SummaryOrder = 'score' | 'rating' | 'distance' | 'for_you'
+
+// Restaurants per table page, and the most markers the map asks for at once
+export const PAGE_SIZE = 50
+export const MAP_MARKER_LIMIT = 500
+
+// Translate the dashboard's social filter into restaurant_summaries arguments
+export function summaryScope({
+  socialFilter,
+  selectedUserIds,
+  signedIn,
+  userOrgs,
+}: {
+  socialFilter: SocialFilter
+  selectedUserIds: string[]
+  signedIn: boolean
+  userOrgs: { id: string; slug: string }[]
+}): SummaryScope {
+  if (selectedUserIds.length > 0) return { scope: 'users', scope_user_ids: selectedUserIds }
+  if (!signedIn || socialFilter === 'everyone') return { scope: 'everyone' }
+  if (socialFilter === 'just_me' || socialFilter === 'following' || socialFilter === 'followers') {
+    return { scope: socialFilter }
+  }
+  const org = userOrgs.find(o => o.slug === socialFilter)
+  return org ? { scope: 'org', scope_org_id: org.id } : { scope: 'everyone' }
+}
+
+export function toRestaurantSummary(row: SummaryRow): RestaurantSummary {
+  const tagCounts = ((row.tag_counts || []) as { id: string; name: string; count: number }[])
+    .map(({ id, name, count }) => ({ tag: { id, name, created_at: null } as Tag, count }))
+
+  return {
+    id: row.id,
+    name: row.name,
+    cuisine: row.cuisine,
+    categories: row.categories || [],
+    latitude: row.latitude,
+    longitude: row.longitude,
+    address: row.address,
+    place_id: row.place_id,
+    created_at: row.created_at,
+    reviewCount: row.review_count,
+    avgRating: row.avg_rating,
+    avgValueRating: row.avg_value_rating,
+    avgTasteRating: row.avg_taste_rating,
+    tagCounts,
+    topTags: tagCounts.slice(0, 2),
+    reviewerIds: row.reviewer_ids || [],
+    lastReviewedAt: row.last_reviewed_at,
+    distanceMetres: row.distance_m,
+    score: row.score,
+    predictedRating: row.predicted_rating,
+    sortRank: row.sort_rank,
+  }
+}
+
+// The filter store's filters as restaurant_summaries arguments, leaving out the unset ones
+export function summaryFilters({
+  minOverallRating,
+  minValueRating,
+  minTasteRating,
+  selectedTagIds,
+  selectedCuisines,
+  selectedCategories,
+  selectedBounds,
+  selectedRegion,
+  calibrateRatings = false,
+}: Pick<FilterState,
+  'minOverallRating' | 'minValueRating' | 'minTasteRating' | 'selectedTagIds' | 'selectedCuisines' | 'selectedCategories' |
+  'selectedBounds' | 'selectedRegion'
+> & Partial<Pick<FilterState, 'calibrateRatings'>>): SummaryFilters {
+  const filters: SummaryFilters = {}
+  if (minOverallRating !== null) filters.min_rating = minOverallRating
+  if (minValueRating !== null) filters.min_value_rating = minValueRating
+  if (minTasteRating !== null) filters.min_taste_rating = minTasteRating
+  if (selectedTagIds.length > 0) filters.with_tag_ids = selectedTagIds
+  if (selectedCuisines.length > 0) filters.with_cuisines = selectedCuisines
+  if (selectedCategories.length > 0) filters.with_categories = selectedCategories
+  if (selectedBounds) filters.bounds = selectedBounds
+  if (selectedRegion) filters.region = toPolygonLiteral(selectedRegion)
+  if (calibrateRatings) filters.calibrated = true
+  return filters
+}
+
+// Distances from the office, and the walking filter once a number of minutes is picked
+export function distanceFilters(
+  origin: LatLng | null,
+  maxWalkMinutes: number | null,
+  walkingSpeedKmh: number
+): DistanceFilters {
+  if (!origin) return {}
+  const filters: DistanceFilters = { origin_lat: origin.lat, origin_lng: origin.lng }
+  if (maxWalkMinutes !== null) filters.max_distance_m = walkingDistance(maxWalkMinutes, walkingSpeedKmh)
+  return filters
+}
+
+// Pages are ordered by sort rank, then name and id; the next one starts after the last row shown
+export function nextPageCursor(last: RestaurantSummary): SummaryCursor {
+  return { after_rank: last.sortRank, after_name: last.name, after_id: last.id }
+}
+
+export interface RestaurantStats {
+  placeCount: number
+  reviewCount: number
+  avgRating: number | null
+  topRatedCount: number
+  matchCount: number
+  ratingCounts: number[]
+  cuisines: string[]
+}
+
+export const EMPTY_STATS: RestaurantStats = {
+  placeCount: 0,
+  reviewCount: 0,
+  avgRating: null,
+  topRatedCount: 0,
+  matchCount: 0,
+  ratingCounts: Array(10).fill(0),
+  cuisines: [],
+}
+
+export function toRestaurantStats(row: StatsRow | undefined): RestaurantStats {
+  if (!row) return EMPTY_STATS
+  return {
+    placeCount: row.place_count,
+    reviewCount: row.review_count,
+    avgRating: row.avg_rating,
+    topRatedCount: row.top_rated_count,
+    matchCount: row.match_count,
+    ratingCounts: row.rating_counts || EMPTY_STATS.ratingCounts,
+    cuisines: row.cuisines || [],
+  }
+}
+
+// Places per rounded average, index 0 for 1 up to index 9 for 10
+export function ratingCounts(restaurants: RestaurantSummary[]): number[] {
+  const counts: number[] = Array(10).fill(0)
+  for (const r of restaurants) {
+    if (r.avgRating === null) continue
+    const bucket = Math.round(r.avgRating)
+    if (bucket >= 1 && bucket <= 10) counts[bucket - 1]++
+  }
+  return counts
+}
@@ -0,0 +1,136 @@
+import type { Json } from './database.types'
+
+export type TileProviderName = 'carto' | 'osm' | 'custom' | 'offline'
+export type MapStyle = 'light' | 'dark' | 'auto' // auto follows the device's colour scheme
+
+/**
+ * Where map tiles come from. Stored as JSON in the `map_tiles` setting for
+ * the whole site and in organisations.map_tiles for one org; every field is
+ * optional there and falls back to the level below.
+ */
+export interface MapTileConfig {
+  provider: TileProviderName
+  url?: string // custom only: a {z}/{x}/{y} template, e.g. a local tile server
+  darkUrl?: string // custom only: used for the dark style when set
+  attribution?: string
+  style: MapStyle
+}
+
+// What MapView hands to Leaflet; a null url means draw the map without tiles
+export interface TileLayerOptions {
+  url: string | null
+  attribution: string
+  dark: boolean
+  invert: boolean // light tiles shown in the dark style, darkened with a CSS filter
+}
+
+export const TILE_PROVIDERS: { value: TileProviderName; label: string }[] = [
+  { value: 'carto', label: 'CARTO' },
+  { value: 'osm', label: 'OpenStreetMap' },
+  { value: 'custom', label: 'Custom tile server' },
+  { value: 'offline', label: 'No tiles' },
+]
+
+export const MAP_STYLES: { value: MapStyle; label: string }[] = [
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+  { value: 'auto', label: 'Match device' },
+]
+
+export const DEFAULT_TILE_CONFIG: MapTileConfig = { provider: 'carto', style: 'light' }
+
+const OSM_ATTRIBUTION = '© OpenStreetMap'
+
+const PRESETS: Record<'carto' | 'osm', { light: string; dark: string; attribution: string }> = {
+  carto: {
+    light: 'https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png',
+    dark: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
+    attribution: `${OSM_ATTRIBUTION} © CARTO`,
+  },
+  // OSM has no dark tiles, so they are inverted instead
+  osm: {
+    light: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    dark: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: OSM_ATTRIBUTION,
+  },
+}
+
+const isProvider = (value: unknown): value is TileProviderName =>
+  TILE_PROVIDERS.some(p => p.value === value)
+
+const isStyle = (value: unknown): value is MapStyle =>
+  MAP_STYLES.some(s => s.value === value)
+
+// Keeps the recognised fields of a stored config and drops anything else
+export function parseTileConfig(value: Json | null | undefined): Partial<MapTileConfig> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+  const config: Partial<MapTileConfig> = {}
+  if (isProvider(value.provider)) config.provider = value.provider
+  if (isStyle(value.style)) config.style = value.style
+  if (typeof value.url === 'string' && value.url.trim()) config.url = value.url.trim()
+  if (typeof value.darkUrl === 'string' && value.darkUrl.trim()) config.darkUrl = value.darkUrl.trim()
+  if (typeof value.attribution === 'string' && value.attribution.trim()) config.attribution = value.attribution.trim()
+  return config
+}
+
+// import.meta.env in the app
+interface TileEnv {
+  [key: string]: string | undefined
+  PUBLIC_MAP_TILE_URL?: string
+  PUBLIC_MAP_TILES?: string
+}
+
+/**
+ * Developer overrides: PUBLIC_MAP_TILE_URL points at a local tile server and
+ * PUBLIC_MAP_TILES=offline turns tiles off. These win over the database so a
+ * dev machine never depends on the network.
+ */
+export function tileConfigFromEnv(env: TileEnv = import.meta.env as TileEnv): Partial<MapTileConfig> {
+  if (env.PUBLIC_MAP_TILES === 'offline') return { provider: 'offline' }
+  if (env.PUBLIC_MAP_TILE_URL) return { provider: 'custom', url: env.PUBLIC_MAP_TILE_URL }
+  return {}
+}
+
+// Later configs override earlier ones; the provider's own fields go with it
+export function mergeTileConfigs(...configs: Partial<MapTileConfig>[]): MapTileConfig {
+  return configs.reduce<MapTileConfig>((merged, config) => {
+    const providerChanged = config.provider !== undefined && config.provider !== merged.provider
+    const base = providerChanged ? { provider: merged.provider, style: merged.style } : merged
+    return { ...base, ...config }
+  }, DEFAULT_TILE_CONFIG)
+}
+
+// Whether an org's admin-entered config can be saved; returns a message or null
+export function validateTileConfig(config: Partial<MapTileConfig>): string | null {
+  if (config.provider !== 'custom') return null
+  for (const url of [config.url, config.darkUrl]) {
+    if (url === undefined) continue
+    if (!/^(https?:)?\/\//.test(url) && !url.startsWith('/')) return 'Tile URLs should start with http://, https:// or /'
+    if (!['{z}', '{x}', '{y}'].every(part => url.includes(part))) return 'Tile URLs need {z}, {x} and {y} in them'
+  }
+  if (!config.url) return 'Enter the tile server URL'
+  return null
+}
+
+export function resolveTileLayer(config: MapTileConfig, prefersDark: boolean): TileLayerOptions {
+  const dark = config.style === 'dark' || (config.style === 'auto' && prefersDark)
+
+  if (config.provider === 'offline') return { url: null, attribution: '', dark, invert: false }
+  if (config.provider === 'custom' && config.url) {
+    return {
+      url: (dark && config.darkUrl) || config.url,
+      attribution: config.attribution || OSM_ATTRIBUTION,
+      dark,
+      invert: dark && !config.darkUrl,
+    }
+  }
+
+  const provider = config.provider === 'osm' ? 'osm' : 'carto'
+  const preset = PRESETS[provider]
+  return {
+    url: dark ? preset.dark : preset.light,
+    attribution: config.attribution || preset.attribution,
+    dark,
+    invert: dark && provider === 'osm',
+  }
+}
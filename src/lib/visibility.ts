@@ -0,0 +1,46 @@
+import type { Review, OrgSharing } from './database.types'
+
+export interface ReviewViewer {
+  id: string | null
+  followingIds: Set<string>
+  orgMembersByOrgId: Map<string, Set<string>>
+}
+
+/**
+ * Client copy of the can_view_review_details SQL function. The database is
+ * what actually withholds private details; this lets the UI tell a masked
+ * review apart from one that simply has no comment.
+ */
+export function canViewReviewDetails(
+  reviewer: { id: string; isPrivate: boolean } | undefined,
+  viewer: ReviewViewer
+): boolean {
+  if (!reviewer) return false
+  if (!reviewer.isPrivate) return true
+  if (viewer.id === null) return false
+  if (reviewer.id === viewer.id) return true
+  if (viewer.followingIds.has(reviewer.id)) return true
+  for (const memberIds of viewer.orgMembersByOrgId.values()) {
+    if (memberIds.has(reviewer.id) && memberIds.has(viewer.id)) return true
+  }
+  return false
+}
+
+type MaskedColumns = 'user_id' | 'organisation_id' | 'comment' | 'dish' | 'photo_url'
+
+// The row the visible_reviews view returns to a viewer who isn't allowed the details
+export function maskReview<T extends Pick<Review, MaskedColumns>>(review: T): T {
+  return { ...review, user_id: null, organisation_id: null, comment: null, dish: null, photo_url: null }
+}
+
+export interface OrgSharingChoice {
+  sharing: OrgSharing
+  organisationIds: string[]
+}
+
+// What gets saved: only orgs the reviewer is still in, and an empty subset means none
+export function normaliseOrgSharing(choice: OrgSharingChoice, userOrgIds: string[]): OrgSharingChoice {
+  if (choice.sharing !== 'selected') return { sharing: choice.sharing, organisationIds: [] }
+  const organisationIds = userOrgIds.filter(id => choice.organisationIds.includes(id))
+  return organisationIds.length > 0 ? { sharing: 'selected', organisationIds } : { sharing: 'none', organisationIds: [] }
+}
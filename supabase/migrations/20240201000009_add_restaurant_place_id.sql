@@ -0,0 +1,8 @@
+-- Migration: Store the geocoder's place id on restaurants
+-- Lets AddReview attach new reviews to an existing restaurant instead of inserting a duplicate
+
+ALTER TABLE restaurants ADD COLUMN IF NOT EXISTS place_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_restaurants_place_id ON restaurants (place_id);
+
+COMMENT ON COLUMN restaurants.place_id IS 'Place id from the geocoding provider that found the venue (Google, or osm:/fixture: prefixed), used to match repeat reviews';
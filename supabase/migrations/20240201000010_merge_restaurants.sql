@@ -0,0 +1,198 @@
+-- Migration: Merge duplicate restaurant rows
+-- find_duplicate_restaurants lists pairs of rows that look like the same place, using the
+-- rules AddReview matches on (src/lib/restaurants.ts). merge_restaurants moves every review
+-- (and with it its review_tags and review_visibility rows) onto a surviving restaurant,
+-- reconciles categories/cuisine/location, then deletes the duplicate restaurant rows. No
+-- review is deleted: someone who reviewed two of the duplicates keeps both.
+-- Runs as one function so a failure part way through leaves nothing pointing at a deleted row.
+
+-- Who added the row, so they can tidy up a duplicate nobody has reviewed. Anyone
+-- signed in may update restaurants, so the trigger keeps this out of their hands.
+ALTER TABLE restaurants ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION set_restaurant_created_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := auth.uid();
+  ELSE
+    NEW.created_by := OLD.created_by;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS restaurants_created_by ON restaurants;
+CREATE TRIGGER restaurants_created_by
+  BEFORE INSERT OR UPDATE ON restaurants
+  FOR EACH ROW EXECUTE FUNCTION set_restaurant_created_by();
+
+-- People who look after the shared restaurant list. Granted by hand in the database;
+-- there are no policies, so the API can neither read nor change it.
+CREATE TABLE IF NOT EXISTS site_admins (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+ALTER TABLE site_admins ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_site_admin()
+RETURNS BOOLEAN
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM site_admins WHERE user_id = auth.uid())
+$$;
+
+-- Great-circle distance in metres; NULL if either point is missing
+CREATE OR REPLACE FUNCTION haversine_distance(lat1 DOUBLE PRECISION, lng1 DOUBLE PRECISION, lat2 DOUBLE PRECISION, lng2 DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371000 * asin(least(1, sqrt(
+    sin(radians(lat2 - lat1) / 2) ^ 2
+    + cos(radians(lat1)) * cos(radians(lat2)) * sin(radians(lng2 - lng1) / 2) ^ 2
+  )))
+$$;
+
+-- Same as normaliseRestaurantName: lowercase, no accents or punctuation, no leading "the"
+CREATE OR REPLACE FUNCTION normalise_restaurant_name(name TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(
+    trim(regexp_replace(
+      replace(replace(replace(
+        translate(lower(name), 'àáâãäåçèéêëìíîïñòóôõöøùúûüýÿ', 'aaaaaaceeeeiiiinoooooouuuuyy'),
+        '&', ' and '), '''', ''), '’', ''),
+      '[^a-z0-9]+', ' ', 'g'
+    )),
+    '^the ', ''
+  )
+$$;
+
+-- Pairs of restaurants isLikelyDuplicate would call the same place: equal place ids, or
+-- similar names within radius_m of each other (exactly equal names when neither has a location)
+CREATE OR REPLACE FUNCTION find_duplicate_restaurants(radius_m DOUBLE PRECISION DEFAULT 75)
+RETURNS TABLE (restaurant_id UUID, duplicate_id UUID)
+LANGUAGE SQL
+STABLE
+AS $$
+  WITH named AS (
+    SELECT id, place_id, latitude::DOUBLE PRECISION AS lat, longitude::DOUBLE PRECISION AS lng,
+      normalise_restaurant_name(name) AS name
+    FROM restaurants
+  )
+  SELECT a.id, b.id
+  FROM named a
+  JOIN named b ON a.id < b.id
+  WHERE CASE
+    WHEN a.place_id IS NOT NULL AND b.place_id IS NOT NULL THEN a.place_id = b.place_id
+    WHEN a.name = '' OR b.name = '' OR NOT (strpos(a.name, b.name) > 0 OR strpos(b.name, a.name) > 0) THEN false
+    WHEN a.lat IS NULL OR a.lng IS NULL OR b.lat IS NULL OR b.lng IS NULL THEN
+      (a.lat IS NULL OR a.lng IS NULL) AND (b.lat IS NULL OR b.lng IS NULL) AND a.name = b.name
+    -- A cheap box check first; a degree of latitude is about 111km
+    ELSE abs(a.lat - b.lat) <= radius_m / 111000 AND haversine_distance(a.lat, a.lng, b.lat, b.lng) <= radius_m
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION merge_restaurants(survivor_id UUID, duplicate_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  moved_count INTEGER;
+  managed_reviewers UUID[];
+  merged_categories TEXT[];
+  fallback RECORD;
+BEGIN
+  duplicate_ids := array_remove(duplicate_ids, survivor_id);
+  IF duplicate_ids IS NULL OR cardinality(duplicate_ids) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- Lock every row involved so concurrent reviews can't land on a duplicate mid-merge
+  PERFORM 1 FROM restaurants
+  WHERE id = survivor_id OR id = ANY(duplicate_ids)
+  FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM restaurants WHERE id = survivor_id) THEN
+    RAISE EXCEPTION 'Restaurant % not found', survivor_id;
+  END IF;
+
+  -- Restaurants are shared across orgs, and anyone can create an org, so being an
+  -- admin somewhere isn't enough. Outside site admins, each duplicate must either be
+  -- one nobody has reviewed that the caller added, or have reviews by members of an
+  -- org the caller administers; and once reviews move, every named reviewer of these
+  -- places must belong to such an org.
+  SELECT COALESCE(array_agg(DISTINCT reviewer.user_id), '{}')
+  INTO managed_reviewers
+  FROM organisation_members admin
+  JOIN organisation_members reviewer ON reviewer.organisation_id = admin.organisation_id
+  WHERE admin.user_id = auth.uid() AND admin.role = 'admin';
+
+  IF NOT is_site_admin() AND (
+    EXISTS (
+      SELECT 1 FROM restaurants d
+      WHERE d.id = ANY(duplicate_ids)
+        AND CASE
+          WHEN EXISTS (SELECT 1 FROM reviews r WHERE r.restaurant_id = d.id) THEN NOT EXISTS (
+            SELECT 1 FROM reviews r WHERE r.restaurant_id = d.id AND r.user_id = ANY(managed_reviewers)
+          )
+          ELSE d.created_by IS DISTINCT FROM auth.uid()
+        END
+    )
+    OR (
+      EXISTS (SELECT 1 FROM reviews r WHERE r.restaurant_id = ANY(duplicate_ids))
+      AND EXISTS (
+        SELECT 1 FROM reviews r
+        WHERE (r.restaurant_id = survivor_id OR r.restaurant_id = ANY(duplicate_ids))
+          AND r.user_id IS NOT NULL
+          AND NOT r.user_id = ANY(managed_reviewers)
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Only site admins, admins of an organisation whose members reviewed these places, or whoever added an unreviewed duplicate can merge them';
+  END IF;
+
+  -- Move reviews; review_tags and review_visibility reference the review, so they follow
+  UPDATE reviews SET restaurant_id = survivor_id
+  WHERE restaurant_id = ANY(duplicate_ids);
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+
+  -- Reconcile restaurant fields before the duplicates are gone
+  SELECT COALESCE(array_agg(DISTINCT c ORDER BY c), '{}')
+  INTO merged_categories
+  FROM restaurants r, unnest(r.categories) c
+  WHERE r.id = survivor_id OR r.id = ANY(duplicate_ids);
+
+  SELECT
+    (SELECT cuisine FROM restaurants WHERE id = ANY(duplicate_ids) AND cuisine <> '' ORDER BY created_at LIMIT 1) AS cuisine,
+    (SELECT address FROM restaurants WHERE id = ANY(duplicate_ids) AND address IS NOT NULL ORDER BY created_at LIMIT 1) AS address,
+    (SELECT place_id FROM restaurants WHERE id = ANY(duplicate_ids) AND place_id IS NOT NULL ORDER BY created_at LIMIT 1) AS place_id,
+    (SELECT ARRAY[latitude, longitude] FROM restaurants WHERE id = ANY(duplicate_ids) AND latitude IS NOT NULL AND longitude IS NOT NULL ORDER BY created_at LIMIT 1) AS location
+  INTO fallback;
+
+  DELETE FROM restaurants WHERE id = ANY(duplicate_ids);
+
+  UPDATE restaurants SET
+    categories = merged_categories,
+    cuisine = COALESCE(NULLIF(cuisine, ''), fallback.cuisine, ''),
+    address = COALESCE(address, fallback.address),
+    place_id = COALESCE(place_id, fallback.place_id),
+    latitude = CASE WHEN latitude IS NULL OR longitude IS NULL THEN fallback.location[1] ELSE latitude END,
+    longitude = CASE WHEN latitude IS NULL OR longitude IS NULL THEN fallback.location[2] ELSE longitude END
+  WHERE id = survivor_id;
+
+  RETURN moved_count;
+END;
+$$;
+
+COMMENT ON FUNCTION merge_restaurants(UUID, UUID[]) IS 'Moves all reviews from duplicate_ids onto survivor_id, reconciles details and deletes the duplicates';
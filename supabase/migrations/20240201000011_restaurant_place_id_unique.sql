@@ -0,0 +1,58 @@
+-- Migration: One restaurant row per Google place
+-- Replaces the plain place_id index with a unique constraint. Rows without a
+-- place id (typed-in names) are unaffected since NULLs never collide.
+-- Existing duplicates are folded into the oldest row for their place id first,
+-- the same way merge_restaurants() does it: every review moves across, the
+-- categories are combined, missing details are filled in, and only then are the
+-- duplicate restaurant rows deleted.
+
+CREATE TEMP TABLE place_id_duplicates AS
+SELECT id, survivor_id
+FROM (
+  SELECT
+    id,
+    first_value(id) OVER (PARTITION BY place_id ORDER BY created_at NULLS LAST, id) AS survivor_id
+  FROM restaurants
+  WHERE place_id IS NOT NULL
+) ranked
+WHERE id <> survivor_id;
+
+-- review_tags and review_visibility reference the review, so they follow
+UPDATE reviews r SET restaurant_id = d.survivor_id
+FROM place_id_duplicates d
+WHERE r.restaurant_id = d.id;
+
+UPDATE restaurants survivor SET
+  categories = (
+    SELECT COALESCE(array_agg(DISTINCT c ORDER BY c), '{}')
+    FROM restaurants r, unnest(r.categories) c
+    WHERE r.id = survivor.id OR r.id IN (SELECT d.id FROM place_id_duplicates d WHERE d.survivor_id = survivor.id)
+  ),
+  cuisine = COALESCE(NULLIF(survivor.cuisine, ''), (
+    SELECT r.cuisine FROM place_id_duplicates d JOIN restaurants r ON r.id = d.id
+    WHERE d.survivor_id = survivor.id AND r.cuisine <> '' ORDER BY r.created_at LIMIT 1
+  ), ''),
+  address = COALESCE(survivor.address, (
+    SELECT r.address FROM place_id_duplicates d JOIN restaurants r ON r.id = d.id
+    WHERE d.survivor_id = survivor.id AND r.address IS NOT NULL ORDER BY r.created_at LIMIT 1
+  )),
+  latitude = CASE WHEN survivor.latitude IS NULL OR survivor.longitude IS NULL THEN (
+    SELECT r.latitude FROM place_id_duplicates d JOIN restaurants r ON r.id = d.id
+    WHERE d.survivor_id = survivor.id AND r.latitude IS NOT NULL AND r.longitude IS NOT NULL ORDER BY r.created_at LIMIT 1
+  ) ELSE survivor.latitude END,
+  longitude = CASE WHEN survivor.latitude IS NULL OR survivor.longitude IS NULL THEN (
+    SELECT r.longitude FROM place_id_duplicates d JOIN restaurants r ON r.id = d.id
+    WHERE d.survivor_id = survivor.id AND r.latitude IS NOT NULL AND r.longitude IS NOT NULL ORDER BY r.created_at LIMIT 1
+  ) ELSE survivor.longitude END
+WHERE survivor.id IN (SELECT d.survivor_id FROM place_id_duplicates d);
+
+DELETE FROM restaurants WHERE id IN (SELECT d.id FROM place_id_duplicates d);
+
+DROP TABLE place_id_duplicates;
+
+DROP INDEX IF EXISTS idx_restaurants_place_id;
+
+ALTER TABLE restaurants
+  ADD CONSTRAINT restaurants_place_id_key UNIQUE (place_id);
+
+COMMENT ON COLUMN restaurants.address IS 'Formatted address from Google Places, shown in the restaurant popup';
@@ -0,0 +1,76 @@
+-- Migration: Per-organisation rating dimensions
+-- Org admins define extra things to rate (e.g. "Speed", "Group friendliness"),
+-- each on its own 1..scale_max scale. Scores live alongside the review.
+
+CREATE TABLE IF NOT EXISTS rating_dimensions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (char_length(trim(label)) BETWEEN 1 AND 40),
+  scale_max INTEGER NOT NULL DEFAULT 10 CHECK (scale_max BETWEEN 2 AND 10),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(organisation_id, label)
+);
+
+CREATE TABLE IF NOT EXISTS review_dimension_ratings (
+  review_id UUID NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  dimension_id UUID NOT NULL REFERENCES rating_dimensions(id) ON DELETE CASCADE,
+  rating INTEGER NOT NULL CHECK (rating >= 1),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (review_id, dimension_id)
+);
+
+-- A score can't exceed its dimension's scale (CHECK constraints can't see other tables)
+CREATE OR REPLACE FUNCTION check_dimension_rating_scale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.rating > (SELECT scale_max FROM rating_dimensions WHERE id = NEW.dimension_id) THEN
+    RAISE EXCEPTION 'Rating % is above the scale for this dimension', NEW.rating;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER review_dimension_ratings_scale
+  BEFORE INSERT OR UPDATE ON review_dimension_ratings
+  FOR EACH ROW EXECUTE FUNCTION check_dimension_rating_scale();
+
+ALTER TABLE rating_dimensions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_dimension_ratings ENABLE ROW LEVEL SECURITY;
+
+-- Dimensions: members read, admins manage
+CREATE POLICY "Members can view their organisation's rating dimensions" ON rating_dimensions FOR SELECT TO authenticated
+  USING (organisation_id IN (SELECT user_org_ids(auth.uid())));
+CREATE POLICY "Admins can create rating dimensions" ON rating_dimensions FOR INSERT TO authenticated
+  WITH CHECK (is_org_admin(organisation_id, auth.uid()));
+CREATE POLICY "Admins can update rating dimensions" ON rating_dimensions FOR UPDATE TO authenticated
+  USING (is_org_admin(organisation_id, auth.uid()));
+CREATE POLICY "Admins can delete rating dimensions" ON rating_dimensions FOR DELETE TO authenticated
+  USING (is_org_admin(organisation_id, auth.uid()));
+
+-- Dimension scores: readable like reviews, written by the review's author
+CREATE POLICY "Anyone can view review dimension ratings" ON review_dimension_ratings FOR SELECT USING (true);
+-- and only on dimensions of the organisation the review belongs to
+CREATE POLICY "Users can rate dimensions on own reviews" ON review_dimension_ratings FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM reviews r
+    JOIN rating_dimensions d ON d.id = dimension_id
+    WHERE r.id = review_id AND r.user_id = auth.uid() AND d.organisation_id = r.organisation_id
+  ));
+CREATE POLICY "Users can update dimension ratings on own reviews" ON review_dimension_ratings FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM reviews WHERE id = review_id AND user_id = auth.uid()))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM reviews r
+    JOIN rating_dimensions d ON d.id = dimension_id
+    WHERE r.id = review_id AND r.user_id = auth.uid() AND d.organisation_id = r.organisation_id
+  ));
+CREATE POLICY "Users can remove dimension ratings from own reviews" ON review_dimension_ratings FOR DELETE TO authenticated
+  USING (EXISTS (SELECT 1 FROM reviews WHERE id = review_id AND user_id = auth.uid()));
+
+CREATE INDEX IF NOT EXISTS idx_rating_dimensions_org ON rating_dimensions(organisation_id, position);
+CREATE INDEX IF NOT EXISTS idx_review_dimension_ratings_dimension ON review_dimension_ratings(dimension_id);
+
+COMMENT ON TABLE rating_dimensions IS 'Extra things an organisation rates, each scored 1..scale_max';
+COMMENT ON TABLE review_dimension_ratings IS 'A review''s score on one of its organisation''s rating dimensions';
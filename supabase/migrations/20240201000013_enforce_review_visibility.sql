@@ -0,0 +1,73 @@
+-- Migration: Enforce private-profile review visibility in the database
+--
+-- Private reviewers' comment, dish, photo and tags are only readable by
+-- themselves, users they approved as followers, and people who share an
+-- organisation with them. Ratings stay public for aggregates, but detached
+-- from the reviewer. Photo files stay in the public review-photos bucket under
+-- unguessable paths; only their URLs are withheld.
+
+-- Whether the signed-in user may see reviewer's review details (mirrors
+-- src/lib/visibility.ts). The viewer is always auth.uid() rather than an
+-- argument, so the RPC can't be used to probe who follows whom.
+CREATE OR REPLACE FUNCTION can_view_review_details(reviewer UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT reviewer IS NOT NULL AND (
+    -- Public profiles
+    EXISTS (SELECT 1 FROM profiles WHERE id = reviewer AND is_private IS NOT TRUE)
+    -- Own reviews
+    OR reviewer IS NOT DISTINCT FROM auth.uid() -- false, not NULL, when signed out
+    -- Approved followers
+    OR EXISTS (
+      SELECT 1 FROM user_follows
+      WHERE follower_id = auth.uid() AND following_id = reviewer
+    )
+    -- Shares an organisation
+    OR EXISTS (
+      SELECT 1 FROM organisation_members theirs
+      JOIN organisation_members mine ON mine.organisation_id = theirs.organisation_id
+      WHERE theirs.user_id = reviewer AND mine.user_id = auth.uid()
+    )
+  )
+$$;
+
+-- Reviews: full rows only for permitted viewers
+DROP POLICY IF EXISTS "Anyone can view reviews" ON reviews;
+CREATE POLICY "Permitted viewers can view reviews" ON reviews FOR SELECT
+  USING (can_view_review_details(user_id));
+
+-- Review tags follow their review
+DROP POLICY IF EXISTS "Anyone can view review tags" ON review_tags;
+CREATE POLICY "Permitted viewers can view review tags" ON review_tags FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM reviews
+    WHERE id = review_id AND can_view_review_details(user_id)
+  ));
+
+-- Every review with the details masked for viewers who may not see them.
+-- Runs as the view owner so it can read past the reviews policy above; the
+-- CASE expressions are what keep private details out.
+CREATE OR REPLACE VIEW visible_reviews AS
+SELECT
+  r.id,
+  r.restaurant_id,
+  r.rating,
+  r.value_rating,
+  r.taste_rating,
+  r.created_at,
+  CASE WHEN v.allowed THEN r.user_id END AS user_id,
+  CASE WHEN v.allowed THEN r.organisation_id END AS organisation_id,
+  CASE WHEN v.allowed THEN r.comment END AS comment,
+  CASE WHEN v.allowed THEN r.dish END AS dish,
+  CASE WHEN v.allowed THEN r.photo_url END AS photo_url
+FROM reviews r
+CROSS JOIN LATERAL (SELECT can_view_review_details(r.user_id) AS allowed) v;
+
+GRANT SELECT ON visible_reviews TO anon, authenticated;
+
+COMMENT ON FUNCTION can_view_review_details IS 'True if the signed-in user may read the comment, dish, photo and tags of reviews by reviewer';
+COMMENT ON VIEW visible_reviews IS 'All reviews with reviewer, comment, dish and photo nulled unless can_view_review_details allows them';
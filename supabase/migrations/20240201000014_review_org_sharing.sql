@@ -0,0 +1,80 @@
+-- Migration: Per-review organisation sharing
+--
+-- A review can be shared with all of the reviewer's organisations (the
+-- default, profile privacy rules apply), only the organisations listed in
+-- review_visibility, or none of them. Anything but 'all' keeps the details
+-- to the reviewer and members of the chosen organisations, even on a public
+-- profile.
+
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS org_sharing TEXT NOT NULL DEFAULT 'all'
+  CHECK (org_sharing IN ('all', 'selected', 'none'));
+
+-- Whether the signed-in user may see the details of one review; like
+-- can_view_review_details the viewer is always auth.uid()
+CREATE OR REPLACE FUNCTION can_view_review(review_uuid UUID, reviewer UUID, sharing TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT CASE
+    WHEN reviewer IS NOT NULL AND reviewer = auth.uid() THEN true
+    WHEN sharing = 'all' THEN can_view_review_details(reviewer)
+    WHEN sharing = 'selected' THEN EXISTS (
+      SELECT 1 FROM review_visibility rv
+      JOIN organisation_members m ON m.organisation_id = rv.organisation_id
+      WHERE rv.review_id = review_uuid AND m.user_id = auth.uid()
+    )
+    ELSE false
+  END
+$$;
+
+-- Reviews
+DROP POLICY IF EXISTS "Permitted viewers can view reviews" ON reviews;
+CREATE POLICY "Permitted viewers can view reviews" ON reviews FOR SELECT
+  USING (can_view_review(id, user_id, org_sharing));
+
+DROP POLICY IF EXISTS "Permitted viewers can view review tags" ON review_tags;
+CREATE POLICY "Permitted viewers can view review tags" ON review_tags FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM reviews
+    WHERE id = review_id AND can_view_review(id, user_id, org_sharing)
+  ));
+
+-- Review visibility: only the reviewer sees or picks the orgs, and only their own orgs
+DROP POLICY IF EXISTS "Anyone can view review visibility" ON review_visibility;
+CREATE POLICY "Users can view review visibility for own reviews" ON review_visibility FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM reviews WHERE id = review_id AND user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Users can insert review visibility for own reviews" ON review_visibility;
+CREATE POLICY "Users can insert review visibility for own reviews" ON review_visibility FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM reviews WHERE id = review_id AND user_id = auth.uid())
+    AND organisation_id IN (SELECT user_org_ids(auth.uid()))
+  );
+
+-- Same columns as before, now checked per review; the sharing choice is only
+-- returned to the reviewer so the edit form can show it
+CREATE OR REPLACE VIEW visible_reviews AS
+SELECT
+  r.id,
+  r.restaurant_id,
+  r.rating,
+  r.value_rating,
+  r.taste_rating,
+  r.created_at,
+  CASE WHEN v.allowed THEN r.user_id END AS user_id,
+  CASE WHEN v.allowed THEN r.organisation_id END AS organisation_id,
+  CASE WHEN v.allowed THEN r.comment END AS comment,
+  CASE WHEN v.allowed THEN r.dish END AS dish,
+  CASE WHEN v.allowed THEN r.photo_url END AS photo_url,
+  CASE WHEN r.user_id = auth.uid() THEN r.org_sharing END AS org_sharing,
+  CASE WHEN r.user_id = auth.uid() THEN ARRAY(
+    SELECT rv.organisation_id FROM review_visibility rv WHERE rv.review_id = r.id
+  ) END AS shared_organisation_ids
+FROM reviews r
+CROSS JOIN LATERAL (SELECT can_view_review(r.id, r.user_id, r.org_sharing) AS allowed) v;
+
+COMMENT ON COLUMN reviews.org_sharing IS 'all: every org the reviewer is in; selected: orgs in review_visibility; none: only the reviewer';
+COMMENT ON FUNCTION can_view_review IS 'True if the signed-in user may read the comment, dish, photo and tags of this review';
@@ -0,0 +1,98 @@
+-- Migration: Per-restaurant review aggregates
+--
+-- The dashboard and landing page list every restaurant with its review count,
+-- averages, tag counts and last review date without downloading the reviews.
+-- Ratings count towards the averages for everyone, like the masked ratings in
+-- visible_reviews; tags and reviewer ids only come from reviews the caller
+-- may see. Any scope narrower than everyone also only counts those reviews.
+--
+-- Scopes mirror the dashboard's social filter:
+--   everyone, just_me, following, followers,
+--   org (members of scope_org_id, which the caller must belong to),
+--   users (the reviewers in scope_user_ids)
+
+CREATE OR REPLACE FUNCTION restaurant_summaries(
+  scope TEXT DEFAULT 'everyone',
+  scope_org_id UUID DEFAULT NULL,
+  scope_user_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  cuisine TEXT,
+  categories TEXT[],
+  latitude NUMERIC,
+  longitude NUMERIC,
+  address TEXT,
+  place_id TEXT,
+  created_at TIMESTAMPTZ,
+  review_count INTEGER,
+  avg_rating DOUBLE PRECISION,
+  avg_value_rating DOUBLE PRECISION,
+  avg_taste_rating DOUBLE PRECISION,
+  tag_counts JSONB,
+  reviewer_ids UUID[],
+  last_reviewed_at TIMESTAMPTZ
+)
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  WITH checked AS (
+    SELECT r.*, can_view_review(r.id, r.user_id, r.org_sharing) AS allowed
+    FROM reviews r
+  ),
+  in_scope AS (
+    SELECT * FROM checked c
+    WHERE CASE scope
+      WHEN 'everyone' THEN true
+      WHEN 'just_me' THEN c.user_id = auth.uid()
+      WHEN 'following' THEN c.allowed AND c.user_id IN (SELECT get_following_ids(auth.uid()))
+      WHEN 'followers' THEN c.allowed AND c.user_id IN (
+        SELECT follower_id FROM user_follows WHERE following_id = auth.uid()
+      )
+      WHEN 'org' THEN c.allowed
+        AND scope_org_id IN (SELECT user_org_ids(auth.uid()))
+        AND c.user_id IN (SELECT user_id FROM organisation_members WHERE organisation_id = scope_org_id)
+      WHEN 'users' THEN c.allowed AND c.user_id = ANY(scope_user_ids)
+      ELSE false
+    END
+  ),
+  tag_totals AS (
+    SELECT s.restaurant_id, t.id, t.name, COUNT(*) AS n
+    FROM in_scope s
+    JOIN review_tags rt ON rt.review_id = s.id
+    JOIN tags t ON t.id = rt.tag_id
+    WHERE s.allowed
+    GROUP BY s.restaurant_id, t.id, t.name
+  )
+  SELECT
+    rest.id,
+    rest.name,
+    rest.cuisine,
+    rest.categories,
+    rest.latitude,
+    rest.longitude,
+    rest.address,
+    rest.place_id,
+    rest.created_at,
+    COUNT(s.id)::INTEGER,
+    AVG(s.rating)::DOUBLE PRECISION,
+    AVG(s.value_rating)::DOUBLE PRECISION,
+    AVG(s.taste_rating)::DOUBLE PRECISION,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', tt.id, 'name', tt.name, 'count', tt.n) ORDER BY tt.n DESC, tt.name)
+      FROM tag_totals tt WHERE tt.restaurant_id = rest.id
+    ), '[]'::jsonb),
+    COALESCE(ARRAY_AGG(DISTINCT s.user_id) FILTER (WHERE s.allowed AND s.user_id IS NOT NULL), '{}'),
+    MAX(s.created_at)
+  FROM restaurants rest
+  LEFT JOIN in_scope s ON s.restaurant_id = rest.id
+  GROUP BY rest.id
+  ORDER BY rest.name
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_restaurant ON reviews(restaurant_id);
+
+COMMENT ON FUNCTION restaurant_summaries IS 'Review count, averages, tag counts and last review date per restaurant for a social scope';
@@ -0,0 +1,218 @@
+-- Migration: Walking distance from the office
+--
+-- restaurant_summaries can measure each restaurant's straight-line distance
+-- from an origin (the office), drop places further than max_distance_m, and
+-- sort nearest first. The cursor now carries the returned sort_rank instead
+-- of the average rating, so it works for either order. Each user picks the
+-- walking pace the dashboard converts minutes into metres with.
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS walking_speed_kmh NUMERIC NOT NULL DEFAULT 4.8
+  CHECK (walking_speed_kmh BETWEEN 2 AND 10);
+
+DROP FUNCTION IF EXISTS restaurant_stats(TEXT, UUID, UUID[], DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, UUID[], TEXT[], TEXT[], NUMERIC[], TEXT);
+DROP FUNCTION IF EXISTS restaurant_summaries(TEXT, UUID, UUID[], DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, UUID[], TEXT[], TEXT[], NUMERIC[], TEXT, INTEGER, DOUBLE PRECISION, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION restaurant_summaries(
+  scope TEXT DEFAULT 'everyone',
+  scope_org_id UUID DEFAULT NULL,
+  scope_user_ids UUID[] DEFAULT NULL,
+  min_rating DOUBLE PRECISION DEFAULT NULL,
+  min_value_rating DOUBLE PRECISION DEFAULT NULL,
+  min_taste_rating DOUBLE PRECISION DEFAULT NULL,
+  with_tag_ids UUID[] DEFAULT NULL,
+  with_cuisines TEXT[] DEFAULT NULL,
+  with_categories TEXT[] DEFAULT NULL,
+  bounds NUMERIC[] DEFAULT NULL, -- [west, south, east, north]
+  region TEXT DEFAULT NULL, -- polygon literal of (lng,lat) vertices
+  origin_lat DOUBLE PRECISION DEFAULT NULL,
+  origin_lng DOUBLE PRECISION DEFAULT NULL,
+  max_distance_m DOUBLE PRECISION DEFAULT NULL,
+  sort_by TEXT DEFAULT 'rating', -- rating (best first) or distance (nearest first)
+  page_size INTEGER DEFAULT NULL,
+  after_rank DOUBLE PRECISION DEFAULT NULL,
+  after_name TEXT DEFAULT NULL,
+  after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  cuisine TEXT,
+  categories TEXT[],
+  latitude NUMERIC,
+  longitude NUMERIC,
+  address TEXT,
+  place_id TEXT,
+  created_at TIMESTAMPTZ,
+  review_count INTEGER,
+  avg_rating DOUBLE PRECISION,
+  avg_value_rating DOUBLE PRECISION,
+  avg_taste_rating DOUBLE PRECISION,
+  tag_counts JSONB,
+  reviewer_ids UUID[],
+  last_reviewed_at TIMESTAMPTZ,
+  distance_m DOUBLE PRECISION,
+  sort_rank DOUBLE PRECISION
+)
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  WITH checked AS (
+    SELECT r.*, can_view_review(r.id, r.user_id, r.org_sharing) AS allowed
+    FROM reviews r
+  ),
+  in_scope AS (
+    SELECT * FROM checked c
+    WHERE CASE scope
+      WHEN 'everyone' THEN true
+      WHEN 'just_me' THEN c.user_id = auth.uid()
+      WHEN 'following' THEN c.allowed AND c.user_id IN (SELECT get_following_ids(auth.uid()))
+      WHEN 'followers' THEN c.allowed AND c.user_id IN (
+        SELECT follower_id FROM user_follows WHERE following_id = auth.uid()
+      )
+      WHEN 'org' THEN c.allowed
+        AND scope_org_id IN (SELECT user_org_ids(auth.uid()))
+        AND c.user_id IN (SELECT user_id FROM organisation_members WHERE organisation_id = scope_org_id)
+      WHEN 'users' THEN c.allowed AND c.user_id = ANY(scope_user_ids)
+      ELSE false
+    END
+  ),
+  tag_totals AS (
+    SELECT s.restaurant_id, t.id, t.name, COUNT(*) AS n
+    FROM in_scope s
+    JOIN review_tags rt ON rt.review_id = s.id
+    JOIN tags t ON t.id = rt.tag_id
+    WHERE s.allowed
+    GROUP BY s.restaurant_id, t.id, t.name
+  ),
+  summaries AS (
+    SELECT
+      rest.id,
+      rest.name,
+      rest.cuisine,
+      rest.categories,
+      rest.latitude,
+      rest.longitude,
+      rest.address,
+      rest.place_id,
+      rest.created_at,
+      COUNT(s.id)::INTEGER AS review_count,
+      AVG(s.rating)::DOUBLE PRECISION AS avg_rating,
+      AVG(s.value_rating)::DOUBLE PRECISION AS avg_value_rating,
+      AVG(s.taste_rating)::DOUBLE PRECISION AS avg_taste_rating,
+      COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('id', tt.id, 'name', tt.name, 'count', tt.n) ORDER BY tt.n DESC, tt.name)
+        FROM tag_totals tt WHERE tt.restaurant_id = rest.id
+      ), '[]'::jsonb) AS tag_counts,
+      COALESCE(ARRAY_AGG(DISTINCT s.user_id) FILTER (WHERE s.allowed AND s.user_id IS NOT NULL), '{}') AS reviewer_ids,
+      MAX(s.created_at) AS last_reviewed_at,
+      CASE WHEN origin_lat IS NOT NULL AND origin_lng IS NOT NULL THEN
+        haversine_distance(origin_lat, origin_lng, rest.latitude, rest.longitude)
+      END AS distance_m
+    FROM restaurants rest
+    LEFT JOIN in_scope s ON s.restaurant_id = rest.id
+    WHERE (bounds IS NULL OR (
+      rest.longitude BETWEEN bounds[1] AND bounds[3]
+      AND rest.latitude BETWEEN bounds[2] AND bounds[4]
+    ))
+    AND (region IS NULL OR (
+      rest.latitude IS NOT NULL AND rest.longitude IS NOT NULL
+      AND region::polygon @> point(rest.longitude, rest.latitude)
+    ))
+    GROUP BY rest.id
+  ),
+  ranked AS (
+    -- Ascending sort key; places without a distance go last
+    SELECT sm.*, CASE sort_by
+      WHEN 'distance' THEN COALESCE(sm.distance_m, 1e9)
+      ELSE -COALESCE(sm.avg_rating, 0)
+    END AS sort_rank
+    FROM summaries sm
+  )
+  SELECT sm.*
+  FROM ranked sm
+  WHERE (scope = 'everyone' OR sm.review_count > 0)
+    -- Unrated places stay in for the overall minimum, but need an average for value and taste
+    AND (min_rating IS NULL OR sm.avg_rating IS NULL OR sm.avg_rating >= min_rating)
+    AND (min_value_rating IS NULL OR sm.avg_value_rating >= min_value_rating)
+    AND (min_taste_rating IS NULL OR sm.avg_taste_rating >= min_taste_rating)
+    AND (with_tag_ids IS NULL OR with_tag_ids <@ ARRAY(
+      SELECT (tc->>'id')::UUID FROM jsonb_array_elements(sm.tag_counts) tc
+    ))
+    AND (with_cuisines IS NULL OR sm.cuisine = ANY(with_cuisines))
+    AND (with_categories IS NULL OR sm.categories && with_categories)
+    AND (max_distance_m IS NULL OR sm.distance_m <= max_distance_m)
+    AND (after_id IS NULL OR sm.sort_rank > after_rank OR (
+      sm.sort_rank = after_rank AND (sm.name, sm.id) > (after_name, after_id)
+    ))
+  ORDER BY sm.sort_rank, sm.name, sm.id
+  LIMIT page_size
+$$;
+
+CREATE OR REPLACE FUNCTION restaurant_stats(
+  scope TEXT DEFAULT 'everyone',
+  scope_org_id UUID DEFAULT NULL,
+  scope_user_ids UUID[] DEFAULT NULL,
+  min_rating DOUBLE PRECISION DEFAULT NULL,
+  min_value_rating DOUBLE PRECISION DEFAULT NULL,
+  min_taste_rating DOUBLE PRECISION DEFAULT NULL,
+  with_tag_ids UUID[] DEFAULT NULL,
+  with_cuisines TEXT[] DEFAULT NULL,
+  with_categories TEXT[] DEFAULT NULL,
+  bounds NUMERIC[] DEFAULT NULL,
+  region TEXT DEFAULT NULL,
+  origin_lat DOUBLE PRECISION DEFAULT NULL,
+  origin_lng DOUBLE PRECISION DEFAULT NULL,
+  max_distance_m DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  place_count INTEGER,
+  review_count INTEGER,
+  avg_rating DOUBLE PRECISION,
+  top_rated_count INTEGER,
+  match_count INTEGER,
+  rating_counts INTEGER[],
+  cuisines TEXT[]
+)
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  WITH scoped AS (
+    SELECT * FROM restaurant_summaries(
+      scope, scope_org_id, scope_user_ids,
+      bounds => bounds, region => region
+    )
+  ),
+  matching AS (
+    SELECT * FROM restaurant_summaries(
+      scope, scope_org_id, scope_user_ids,
+      min_rating, min_value_rating, min_taste_rating,
+      with_tag_ids, with_cuisines, with_categories, bounds, region,
+      origin_lat, origin_lng, max_distance_m
+    )
+  )
+  SELECT
+    (SELECT COUNT(*) FROM scoped)::INTEGER,
+    (SELECT COALESCE(SUM(s.review_count), 0) FROM scoped s)::INTEGER,
+    (SELECT AVG(s.avg_rating) FROM scoped s)::DOUBLE PRECISION,
+    (SELECT COUNT(*) FROM scoped s WHERE s.avg_rating >= 8)::INTEGER,
+    (SELECT COUNT(*) FROM matching)::INTEGER,
+    -- Places per rounded average, 1 to 10, rounding halves up like the client
+    ARRAY(
+      SELECT (SELECT COUNT(*) FROM matching m WHERE FLOOR(m.avg_rating + 0.5) = b)::INTEGER
+      FROM generate_series(1, 10) b
+      ORDER BY b
+    ),
+    ARRAY(
+      SELECT DISTINCT r.cuisine FROM restaurants r
+      WHERE r.cuisine IS NOT NULL AND r.cuisine <> ''
+      ORDER BY r.cuisine
+    )
+$$;
+
+COMMENT ON COLUMN profiles.walking_speed_kmh IS 'Walking pace used to turn minutes into distance for the walking filter';
+COMMENT ON FUNCTION restaurant_summaries IS 'One page of per-restaurant aggregates for a social scope and the dashboard filters, best rated or nearest first';
+COMMENT ON FUNCTION restaurant_stats IS 'Scope totals and filtered rating distribution for the map area, and all cuisines, for the dashboard';
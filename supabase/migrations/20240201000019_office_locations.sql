@@ -0,0 +1,68 @@
+-- Migration: Named office locations per organisation
+--
+-- An organisation can have several offices; each member picks the one they
+-- sit in (their home office) and the dashboard centres the map and measures
+-- walks from it. organisations.office_location is copied over as the first
+-- office and no longer read by the app.
+
+CREATE TABLE IF NOT EXISTS office_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 60),
+  latitude NUMERIC NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude NUMERIC NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(organisation_id, name)
+);
+
+ALTER TABLE organisation_members ADD COLUMN IF NOT EXISTS office_id UUID
+  REFERENCES office_locations(id) ON DELETE SET NULL;
+
+INSERT INTO office_locations (organisation_id, name, latitude, longitude)
+SELECT id, 'Office', (office_location->>'lat')::NUMERIC, (office_location->>'lng')::NUMERIC
+FROM organisations
+WHERE office_location ? 'lat' AND office_location ? 'lng'
+ON CONFLICT (organisation_id, name) DO NOTHING;
+
+ALTER TABLE office_locations ENABLE ROW LEVEL SECURITY;
+
+-- Offices: public like the organisation itself, admins manage
+CREATE POLICY "Anyone can view office locations" ON office_locations FOR SELECT USING (true);
+CREATE POLICY "Admins can create office locations" ON office_locations FOR INSERT TO authenticated
+  WITH CHECK (is_org_admin(organisation_id, auth.uid()));
+CREATE POLICY "Admins can update office locations" ON office_locations FOR UPDATE TO authenticated
+  USING (is_org_admin(organisation_id, auth.uid()));
+CREATE POLICY "Admins can delete office locations" ON office_locations FOR DELETE TO authenticated
+  USING (is_org_admin(organisation_id, auth.uid()));
+
+-- Members may only update their own office_id, never their role, so this
+-- goes through a function rather than an UPDATE policy
+CREATE OR REPLACE FUNCTION set_home_office(org_id UUID, office_uuid UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF office_uuid IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM office_locations WHERE id = office_uuid AND organisation_id = org_id
+  ) THEN
+    RAISE EXCEPTION 'That office belongs to another organisation';
+  END IF;
+
+  UPDATE organisation_members
+  SET office_id = office_uuid
+  WHERE organisation_id = org_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a member of this organisation';
+  END IF;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_office_locations_org ON office_locations(organisation_id, position);
+
+COMMENT ON TABLE office_locations IS 'Named offices of an organisation, in display order';
+COMMENT ON COLUMN organisation_members.office_id IS 'The office this member sits in; NULL means the organisation''s first office';
+COMMENT ON COLUMN organisations.office_location IS 'Deprecated: superseded by office_locations';
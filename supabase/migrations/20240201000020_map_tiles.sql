@@ -0,0 +1,16 @@
+-- Migration: Configurable map tiles
+--
+-- The map's tile source and style used to be hard-coded to CARTO light.
+-- The site-wide choice now lives in the `map_tiles` setting and an org can
+-- override any part of it in organisations.map_tiles. Both hold JSON like
+-- {"provider": "custom", "url": "http://localhost:8080/{z}/{x}/{y}.png", "style": "dark"}
+-- where provider is carto, osm, custom or offline and style is light, dark
+-- or auto.
+
+ALTER TABLE organisations ADD COLUMN IF NOT EXISTS map_tiles JSONB;
+
+INSERT INTO settings (key, value) VALUES
+  ('map_tiles', '{"provider": "carto", "style": "light"}')
+ON CONFLICT (key) DO NOTHING;
+
+COMMENT ON COLUMN organisations.map_tiles IS 'Overrides of the map_tiles setting for this org: provider, url, darkUrl, attribution, style';
@@ -0,0 +1,35 @@
+-- Migration: Saved filter presets
+--
+-- Named dashboard filters a user can switch between, e.g. "quick coffee" or
+-- "team dinner 8+". The filters are kept as the query string a shared link
+-- would carry (see filter-params.ts), so presets and links read the same
+-- way. At most one preset per user is the default, applied when the
+-- dashboard opens without filters in its URL.
+
+CREATE TABLE IF NOT EXISTS filter_presets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 40),
+  query TEXT NOT NULL DEFAULT '',
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_filter_presets_one_default
+  ON filter_presets(user_id) WHERE is_default;
+
+ALTER TABLE filter_presets ENABLE ROW LEVEL SECURITY;
+
+-- Presets: private to their owner
+CREATE POLICY "Users can view own filter presets" ON filter_presets FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own filter presets" ON filter_presets FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own filter presets" ON filter_presets FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own filter presets" ON filter_presets FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE filter_presets IS 'Named dashboard filters per user';
+COMMENT ON COLUMN filter_presets.query IS 'Dashboard query string, e.g. ?category=coffee&min=8';
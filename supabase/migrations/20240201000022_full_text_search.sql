@@ -0,0 +1,114 @@
+-- Migration: Full-text search
+--
+-- Restaurants are indexed on name and cuisine, reviews on dish and comment,
+-- and tags on their name. search_restaurants ranks places by every match the
+-- viewer may read: review and tag matches only count where can_view_review
+-- allows them, so a private comment never surfaces a place or a headline.
+-- Headlines mark matched words with <mark> tags for the client to pick out.
+
+ALTER TABLE restaurants ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(name, '')), 'A')
+    || setweight(to_tsvector('english', COALESCE(cuisine, '')), 'B')
+  ) STORED;
+
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(dish, '')), 'A')
+    || setweight(to_tsvector('english', COALESCE(comment, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_restaurants_search ON restaurants USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_reviews_search ON reviews USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_tags_search ON tags USING GIN (to_tsvector('english', name));
+
+CREATE OR REPLACE FUNCTION search_restaurants(
+  search TEXT, -- to_tsquery syntax, e.g. 'katsu:* & curry:*'
+  result_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  cuisine TEXT,
+  address TEXT,
+  latitude NUMERIC,
+  longitude NUMERIC,
+  avg_rating DOUBLE PRECISION,
+  mention_count INTEGER,
+  rank DOUBLE PRECISION,
+  matched_in TEXT,
+  headline TEXT
+)
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('english', search) AS query,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=8, MaxWords=20, MaxFragments=1' AS options
+  ),
+  visible AS (
+    SELECT r.* FROM reviews r
+    WHERE can_view_review(r.id, r.user_id, r.org_sharing)
+  ),
+  hits AS (
+    -- A name match outweighs a passing mention
+    SELECT rest.id AS restaurant_id,
+      2 * ts_rank(rest.search_vector, q.query) AS rank,
+      'place' AS matched_in,
+      ts_headline('english', concat_ws(' · ', rest.name, NULLIF(rest.cuisine, '')), q.query, q.options) AS headline
+    FROM restaurants rest, q
+    WHERE rest.search_vector @@ q.query
+    UNION ALL
+    SELECT v.restaurant_id,
+      ts_rank(v.search_vector, q.query),
+      'review',
+      ts_headline('english', concat_ws(' — ', NULLIF(v.dish, ''), NULLIF(v.comment, '')), q.query, q.options)
+    FROM visible v, q
+    WHERE v.search_vector @@ q.query
+    UNION ALL
+    SELECT v.restaurant_id,
+      ts_rank(to_tsvector('english', t.name), q.query),
+      'tag',
+      ts_headline('english', t.name, q.query, q.options)
+    FROM visible v
+    JOIN review_tags rt ON rt.review_id = v.id
+    JOIN tags t ON t.id = rt.tag_id
+    CROSS JOIN q
+    WHERE to_tsvector('english', t.name) @@ q.query
+  ),
+  totals AS (
+    SELECT h.restaurant_id,
+      SUM(h.rank)::DOUBLE PRECISION AS rank,
+      COUNT(*) FILTER (WHERE h.matched_in = 'review')::INTEGER AS mention_count
+    FROM hits h
+    GROUP BY h.restaurant_id
+  ),
+  best AS (
+    SELECT DISTINCT ON (h.restaurant_id) h.restaurant_id, h.matched_in, h.headline
+    FROM hits h
+    ORDER BY h.restaurant_id, h.rank DESC
+  )
+  SELECT
+    rest.id,
+    rest.name,
+    rest.cuisine,
+    rest.address,
+    rest.latitude,
+    rest.longitude,
+    (SELECT AVG(r.rating) FROM reviews r WHERE r.restaurant_id = rest.id)::DOUBLE PRECISION,
+    t.mention_count,
+    t.rank,
+    b.matched_in,
+    b.headline
+  FROM totals t
+  JOIN best b ON b.restaurant_id = t.restaurant_id
+  JOIN restaurants rest ON rest.id = t.restaurant_id
+  ORDER BY t.rank DESC, rest.name, rest.id
+  LIMIT result_limit
+$$;
+
+COMMENT ON COLUMN restaurants.search_vector IS 'Name (weight A) and cuisine (B) for full-text search';
+COMMENT ON COLUMN reviews.search_vector IS 'Dish (weight A) and comment (B) for full-text search';
+COMMENT ON FUNCTION search_restaurants IS 'Restaurants matching a text query on name, cuisine, and the dishes, comments and tags the viewer may read, best match first with a highlighted headline';
@@ -0,0 +1,170 @@
+-- Migration: Confidence-weighted ranking
+--
+-- A place with one 10 no longer outranks one with twenty 9s. Each place's
+-- score is a Bayesian average: its reviews plus PRIOR_REVIEWS reviews' worth
+-- of the scope's mean rating, so few reviews pull a place towards the mean and
+-- many let its own average through. restaurant_summaries returns the score
+-- and can sort by it (sort_by = 'score').
+
+-- Bayesian average of avg over n reviews towards mean (mirrors src/lib/ranking.ts)
+CREATE OR REPLACE FUNCTION confidence_score(avg DOUBLE PRECISION, n INTEGER, mean DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN avg IS NULL OR n = 0 THEN NULL
+    WHEN mean IS NULL THEN avg
+    ELSE (3 * mean + n * avg) / (3 + n)
+  END
+$$;
+
+-- The return type gains a column, so the function is recreated
+DROP FUNCTION IF EXISTS restaurant_summaries(TEXT, UUID, UUID[], DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, UUID[], TEXT[], TEXT[], NUMERIC[], TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, DOUBLE PRECISION, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION restaurant_summaries(
+  scope TEXT DEFAULT 'everyone',
+  scope_org_id UUID DEFAULT NULL,
+  scope_user_ids UUID[] DEFAULT NULL,
+  min_rating DOUBLE PRECISION DEFAULT NULL,
+  min_value_rating DOUBLE PRECISION DEFAULT NULL,
+  min_taste_rating DOUBLE PRECISION DEFAULT NULL,
+  with_tag_ids UUID[] DEFAULT NULL,
+  with_cuisines TEXT[] DEFAULT NULL,
+  with_categories TEXT[] DEFAULT NULL,
+  bounds NUMERIC[] DEFAULT NULL, -- [west, south, east, north]
+  region TEXT DEFAULT NULL, -- polygon literal of (lng,lat) vertices
+  origin_lat DOUBLE PRECISION DEFAULT NULL,
+  origin_lng DOUBLE PRECISION DEFAULT NULL,
+  max_distance_m DOUBLE PRECISION DEFAULT NULL,
+  sort_by TEXT DEFAULT 'rating', -- score (most trusted first), rating (best average first) or distance (nearest first)
+  page_size INTEGER DEFAULT NULL,
+  after_rank DOUBLE PRECISION DEFAULT NULL,
+  after_name TEXT DEFAULT NULL,
+  after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  cuisine TEXT,
+  categories TEXT[],
+  latitude NUMERIC,
+  longitude NUMERIC,
+  address TEXT,
+  place_id TEXT,
+  created_at TIMESTAMPTZ,
+  review_count INTEGER,
+  avg_rating DOUBLE PRECISION,
+  avg_value_rating DOUBLE PRECISION,
+  avg_taste_rating DOUBLE PRECISION,
+  tag_counts JSONB,
+  reviewer_ids UUID[],
+  last_reviewed_at TIMESTAMPTZ,
+  distance_m DOUBLE PRECISION,
+  score DOUBLE PRECISION,
+  sort_rank DOUBLE PRECISION
+)
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  WITH checked AS (
+    SELECT r.*, can_view_review(r.id, r.user_id, r.org_sharing) AS allowed
+    FROM reviews r
+  ),
+  in_scope AS (
+    SELECT * FROM checked c
+    WHERE CASE scope
+      WHEN 'everyone' THEN true
+      WHEN 'just_me' THEN c.user_id = auth.uid()
+      WHEN 'following' THEN c.allowed AND c.user_id IN (SELECT get_following_ids(auth.uid()))
+      WHEN 'followers' THEN c.allowed AND c.user_id IN (
+        SELECT follower_id FROM user_follows WHERE following_id = auth.uid()
+      )
+      WHEN 'org' THEN c.allowed
+        AND scope_org_id IN (SELECT user_org_ids(auth.uid()))
+        AND c.user_id IN (SELECT user_id FROM organisation_members WHERE organisation_id = scope_org_id)
+      WHEN 'users' THEN c.allowed AND c.user_id = ANY(scope_user_ids)
+      ELSE false
+    END
+  ),
+  population AS (
+    SELECT AVG(rating)::DOUBLE PRECISION AS mean FROM in_scope
+  ),
+  tag_totals AS (
+    SELECT s.restaurant_id, t.id, t.name, COUNT(*) AS n
+    FROM in_scope s
+    JOIN review_tags rt ON rt.review_id = s.id
+    JOIN tags t ON t.id = rt.tag_id
+    WHERE s.allowed
+    GROUP BY s.restaurant_id, t.id, t.name
+  ),
+  summaries AS (
+    SELECT
+      rest.id,
+      rest.name,
+      rest.cuisine,
+      rest.categories,
+      rest.latitude,
+      rest.longitude,
+      rest.address,
+      rest.place_id,
+      rest.created_at,
+      COUNT(s.id)::INTEGER AS review_count,
+      AVG(s.rating)::DOUBLE PRECISION AS avg_rating,
+      AVG(s.value_rating)::DOUBLE PRECISION AS avg_value_rating,
+      AVG(s.taste_rating)::DOUBLE PRECISION AS avg_taste_rating,
+      COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('id', tt.id, 'name', tt.name, 'count', tt.n) ORDER BY tt.n DESC, tt.name)
+        FROM tag_totals tt WHERE tt.restaurant_id = rest.id
+      ), '[]'::jsonb) AS tag_counts,
+      COALESCE(ARRAY_AGG(DISTINCT s.user_id) FILTER (WHERE s.allowed AND s.user_id IS NOT NULL), '{}') AS reviewer_ids,
+      MAX(s.created_at) AS last_reviewed_at,
+      CASE WHEN origin_lat IS NOT NULL AND origin_lng IS NOT NULL THEN
+        haversine_distance(origin_lat, origin_lng, rest.latitude, rest.longitude)
+      END AS distance_m,
+      confidence_score(AVG(s.rating)::DOUBLE PRECISION, COUNT(s.rating)::INTEGER, (SELECT mean FROM population)) AS score
+    FROM restaurants rest
+    LEFT JOIN in_scope s ON s.restaurant_id = rest.id
+    WHERE (bounds IS NULL OR (
+      rest.longitude BETWEEN bounds[1] AND bounds[3]
+      AND rest.latitude BETWEEN bounds[2] AND bounds[4]
+    ))
+    AND (region IS NULL OR (
+      rest.latitude IS NOT NULL AND rest.longitude IS NOT NULL
+      AND region::polygon @> point(rest.longitude, rest.latitude)
+    ))
+    GROUP BY rest.id
+  ),
+  ranked AS (
+    -- Ascending sort key; places without a distance go last
+    SELECT sm.*, CASE sort_by
+      WHEN 'distance' THEN COALESCE(sm.distance_m, 1e9)
+      WHEN 'score' THEN -COALESCE(sm.score, 0)
+      ELSE -COALESCE(sm.avg_rating, 0)
+    END AS sort_rank
+    FROM summaries sm
+  )
+  SELECT sm.*
+  FROM ranked sm
+  WHERE (scope = 'everyone' OR sm.review_count > 0)
+    -- Unrated places stay in for the overall minimum, but need an average for value and taste
+    AND (min_rating IS NULL OR sm.avg_rating IS NULL OR sm.avg_rating >= min_rating)
+    AND (min_value_rating IS NULL OR sm.avg_value_rating >= min_value_rating)
+    AND (min_taste_rating IS NULL OR sm.avg_taste_rating >= min_taste_rating)
+    AND (with_tag_ids IS NULL OR with_tag_ids <@ ARRAY(
+      SELECT (tc->>'id')::UUID FROM jsonb_array_elements(sm.tag_counts) tc
+    ))
+    AND (with_cuisines IS NULL OR sm.cuisine = ANY(with_cuisines))
+    AND (with_categories IS NULL OR sm.categories && with_categories)
+    AND (max_distance_m IS NULL OR sm.distance_m <= max_distance_m)
+    AND (after_id IS NULL OR sm.sort_rank > after_rank OR (
+      sm.sort_rank = after_rank AND (sm.name, sm.id) > (after_name, after_id)
+    ))
+  ORDER BY sm.sort_rank, sm.name, sm.id
+  LIMIT page_size
+$$;
+
+COMMENT ON FUNCTION confidence_score IS 'Average rating pulled towards the mean by 3 reviews'' worth of it, for ranking places with few reviews';
+COMMENT ON FUNCTION restaurant_summaries IS 'One page of per-restaurant aggregates for a social scope and the dashboard filters, most trusted, best rated or nearest first';
@@ -0,0 +1,292 @@
+-- Migration: Recommendations from reviewers with similar taste
+--
+-- predicted_ratings guesses the viewer's rating for places they haven't
+-- reviewed. Every other reviewer gets a taste similarity from how closely
+-- their ratings agree with the viewer's on places both have rated; a
+-- prediction is the viewer's mean plus the similarity-weighted average of how
+-- far each similar reviewer rated the place above or below their own mean.
+-- Only reviews the viewer may attribute (can_view_review) take part, so the
+-- reviewers named in an explanation are ones the viewer could see anyway.
+
+-- 1 for perfect agreement, 0 once ratings differ by 3 on average, discounted
+-- while there are few places in common (mirrors tasteSimilarity in src/lib/recommendations.ts)
+CREATE OR REPLACE FUNCTION taste_similarity(mean_difference DOUBLE PRECISION, shared INTEGER)
+RETURNS DOUBLE PRECISION
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN mean_difference IS NULL OR shared < 2 THEN 0
+    ELSE greatest(0, 1 - mean_difference / 3) * shared / (shared + 2.0)
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION predicted_ratings()
+RETURNS TABLE (
+  restaurant_id UUID,
+  predicted_rating DOUBLE PRECISION,
+  weight DOUBLE PRECISION, -- total similarity behind the prediction
+  reviewers JSONB -- the three most similar reviewers who rated the place
+)
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  WITH ratings AS (
+    -- One rating per reviewer and place
+    SELECT r.user_id, r.restaurant_id, AVG(r.rating)::DOUBLE PRECISION AS rating
+    FROM reviews r
+    WHERE r.rating IS NOT NULL AND r.user_id IS NOT NULL AND r.restaurant_id IS NOT NULL
+      AND can_view_review(r.id, r.user_id, r.org_sharing)
+    GROUP BY r.user_id, r.restaurant_id
+  ),
+  mine AS (
+    SELECT ra.restaurant_id, ra.rating FROM ratings ra WHERE ra.user_id = auth.uid()
+  ),
+  neighbours AS (
+    SELECT t.user_id,
+      COUNT(*)::INTEGER AS shared,
+      taste_similarity(AVG(abs(t.rating - m.rating)), COUNT(*)::INTEGER) AS similarity
+    FROM ratings t
+    JOIN mine m ON m.restaurant_id = t.restaurant_id
+    WHERE t.user_id <> auth.uid()
+    GROUP BY t.user_id
+  ),
+  contributions AS (
+    SELECT t.restaurant_id, t.user_id, t.rating, n.similarity, n.shared,
+      t.rating - AVG(t.rating) OVER (PARTITION BY t.user_id) AS deviation
+    FROM ratings t
+    JOIN neighbours n ON n.user_id = t.user_id
+    WHERE n.similarity > 0
+  ),
+  unrated AS (
+    SELECT c.* FROM contributions c
+    WHERE c.restaurant_id NOT IN (SELECT m.restaurant_id FROM mine m)
+  )
+  SELECT
+    u.restaurant_id,
+    least(10, greatest(1,
+      (SELECT AVG(m.rating) FROM mine m) + SUM(u.similarity * u.deviation) / SUM(u.similarity)
+    ))::DOUBLE PRECISION,
+    SUM(u.similarity)::DOUBLE PRECISION,
+    (
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', top.user_id,
+        'name', COALESCE(p.display_name, 'A reviewer'),
+        'rating', top.rating,
+        'similarity', top.similarity,
+        'shared', top.shared
+      ) ORDER BY top.similarity DESC)
+      FROM (
+        SELECT * FROM unrated u2
+        WHERE u2.restaurant_id = u.restaurant_id
+        ORDER BY u2.similarity DESC
+        LIMIT 3
+      ) top
+      LEFT JOIN profiles p ON p.id = top.user_id
+    )
+  FROM unrated u
+  GROUP BY u.restaurant_id
+$$;
+
+-- The viewer's best predicted places, for the dashboard's "For you" shelf
+CREATE OR REPLACE FUNCTION recommended_restaurants(result_limit INTEGER DEFAULT 6)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  cuisine TEXT,
+  latitude NUMERIC,
+  longitude NUMERIC,
+  predicted_rating DOUBLE PRECISION,
+  weight DOUBLE PRECISION,
+  reviewers JSONB
+)
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT rest.id, rest.name, rest.cuisine, rest.latitude, rest.longitude,
+    p.predicted_rating, p.weight, p.reviewers
+  FROM predicted_ratings() p
+  JOIN restaurants rest ON rest.id = p.restaurant_id
+  ORDER BY p.predicted_rating DESC, p.weight DESC, rest.name
+  LIMIT result_limit
+$$;
+
+-- The return type gains a column, so the function is recreated
+DROP FUNCTION IF EXISTS restaurant_summaries(TEXT, UUID, UUID[], DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, UUID[], TEXT[], TEXT[], NUMERIC[], TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, DOUBLE PRECISION, TEXT, UUID, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION restaurant_summaries(
+  scope TEXT DEFAULT 'everyone',
+  scope_org_id UUID DEFAULT NULL,
+  scope_user_ids UUID[] DEFAULT NULL,
+  min_rating DOUBLE PRECISION DEFAULT NULL,
+  min_value_rating DOUBLE PRECISION DEFAULT NULL,
+  min_taste_rating DOUBLE PRECISION DEFAULT NULL,
+  with_tag_ids UUID[] DEFAULT NULL,
+  with_cuisines TEXT[] DEFAULT NULL,
+  with_categories TEXT[] DEFAULT NULL,
+  bounds NUMERIC[] DEFAULT NULL, -- [west, south, east, north]
+  region TEXT DEFAULT NULL, -- polygon literal of (lng,lat) vertices
+  origin_lat DOUBLE PRECISION DEFAULT NULL,
+  origin_lng DOUBLE PRECISION DEFAULT NULL,
+  max_distance_m DOUBLE PRECISION DEFAULT NULL,
+  sort_by TEXT DEFAULT 'rating', -- score (most trusted first), rating (best average first), distance (nearest first) or for_you (best predicted first)
+  page_size INTEGER DEFAULT NULL,
+  after_rank DOUBLE PRECISION DEFAULT NULL,
+  after_name TEXT DEFAULT NULL,
+  after_id UUID DEFAULT NULL,
+  calibrated BOOLEAN DEFAULT false -- average each reviewer's ratings after calibrate_rating
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  cuisine TEXT,
+  categories TEXT[],
+  latitude NUMERIC,
+  longitude NUMERIC,
+  address TEXT,
+  place_id TEXT,
+  created_at TIMESTAMPTZ,
+  review_count INTEGER,
+  avg_rating DOUBLE PRECISION,
+  avg_value_rating DOUBLE PRECISION,
+  avg_taste_rating DOUBLE PRECISION,
+  tag_counts JSONB,
+  reviewer_ids UUID[],
+  last_reviewed_at TIMESTAMPTZ,
+  distance_m DOUBLE PRECISION,
+  score DOUBLE PRECISION,
+  predicted_rating DOUBLE PRECISION,
+  sort_rank DOUBLE PRECISION
+)
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  WITH site AS (
+    SELECT AVG(rating)::DOUBLE PRECISION AS mean, STDDEV_POP(rating)::DOUBLE PRECISION AS sd
+    FROM reviews
+    WHERE calibrated
+  ),
+  reviewers AS (
+    SELECT user_id, COUNT(rating)::INTEGER AS n, AVG(rating)::DOUBLE PRECISION AS mean, STDDEV_POP(rating)::DOUBLE PRECISION AS sd
+    FROM reviews
+    WHERE calibrated
+    GROUP BY user_id
+  ),
+  checked AS (
+    SELECT r.*, can_view_review(r.id, r.user_id, r.org_sharing) AS allowed,
+      CASE WHEN calibrated
+        THEN calibrate_rating(r.rating, rv.n, rv.mean, rv.sd, site.mean, site.sd)
+        ELSE r.rating
+      END AS scored_rating
+    FROM reviews r
+    LEFT JOIN reviewers rv ON rv.user_id = r.user_id
+    LEFT JOIN site ON true
+  ),
+  in_scope AS (
+    SELECT * FROM checked c
+    WHERE CASE scope
+      WHEN 'everyone' THEN true
+      WHEN 'just_me' THEN c.user_id = auth.uid()
+      WHEN 'following' THEN c.allowed AND c.user_id IN (SELECT get_following_ids(auth.uid()))
+      WHEN 'followers' THEN c.allowed AND c.user_id IN (
+        SELECT follower_id FROM user_follows WHERE following_id = auth.uid()
+      )
+      WHEN 'org' THEN c.allowed
+        AND scope_org_id IN (SELECT user_org_ids(auth.uid()))
+        AND c.user_id IN (SELECT user_id FROM organisation_members WHERE organisation_id = scope_org_id)
+      WHEN 'users' THEN c.allowed AND c.user_id = ANY(scope_user_ids)
+      ELSE false
+    END
+  ),
+  population AS (
+    SELECT AVG(scored_rating)::DOUBLE PRECISION AS mean FROM in_scope
+  ),
+  tag_totals AS (
+    SELECT s.restaurant_id, t.id, t.name, COUNT(*) AS n
+    FROM in_scope s
+    JOIN review_tags rt ON rt.review_id = s.id
+    JOIN tags t ON t.id = rt.tag_id
+    WHERE s.allowed
+    GROUP BY s.restaurant_id, t.id, t.name
+  ),
+  summaries AS (
+    SELECT
+      rest.id,
+      rest.name,
+      rest.cuisine,
+      rest.categories,
+      rest.latitude,
+      rest.longitude,
+      rest.address,
+      rest.place_id,
+      rest.created_at,
+      COUNT(s.id)::INTEGER AS review_count,
+      AVG(s.scored_rating)::DOUBLE PRECISION AS avg_rating,
+      AVG(s.value_rating)::DOUBLE PRECISION AS avg_value_rating,
+      AVG(s.taste_rating)::DOUBLE PRECISION AS avg_taste_rating,
+      COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('id', tt.id, 'name', tt.name, 'count', tt.n) ORDER BY tt.n DESC, tt.name)
+        FROM tag_totals tt WHERE tt.restaurant_id = rest.id
+      ), '[]'::jsonb) AS tag_counts,
+      COALESCE(ARRAY_AGG(DISTINCT s.user_id) FILTER (WHERE s.allowed AND s.user_id IS NOT NULL), '{}') AS reviewer_ids,
+      MAX(s.created_at) AS last_reviewed_at,
+      CASE WHEN origin_lat IS NOT NULL AND origin_lng IS NOT NULL THEN
+        haversine_distance(origin_lat, origin_lng, rest.latitude, rest.longitude)
+      END AS distance_m,
+      confidence_score(AVG(s.scored_rating)::DOUBLE PRECISION, COUNT(s.scored_rating)::INTEGER, (SELECT mean FROM population)) AS score,
+      MAX(p.predicted_rating) AS predicted_rating
+    FROM restaurants rest
+    LEFT JOIN in_scope s ON s.restaurant_id = rest.id
+    -- Predictions are only worked out when sorting by them
+    LEFT JOIN predicted_ratings() p ON p.restaurant_id = rest.id AND sort_by = 'for_you'
+    WHERE (bounds IS NULL OR (
+      rest.longitude BETWEEN bounds[1] AND bounds[3]
+      AND rest.latitude BETWEEN bounds[2] AND bounds[4]
+    ))
+    AND (region IS NULL OR (
+      rest.latitude IS NOT NULL AND rest.longitude IS NOT NULL
+      AND region::polygon @> point(rest.longitude, rest.latitude)
+    ))
+    GROUP BY rest.id
+  ),
+  ranked AS (
+    -- Ascending sort key; places without a distance go last
+    SELECT sm.*, CASE sort_by
+      WHEN 'distance' THEN COALESCE(sm.distance_m, 1e9)
+      WHEN 'score' THEN -COALESCE(sm.score, 0)
+      -- Predictions first, then everything else by score
+      WHEN 'for_you' THEN COALESCE(-sm.predicted_rating, 100 - COALESCE(sm.score, 0))
+      ELSE -COALESCE(sm.avg_rating, 0)
+    END AS sort_rank
+    FROM summaries sm
+  )
+  SELECT sm.*
+  FROM ranked sm
+  WHERE (scope = 'everyone' OR sm.review_count > 0)
+    -- Unrated places stay in for the overall minimum, but need an average for value and taste
+    AND (min_rating IS NULL OR sm.avg_rating IS NULL OR sm.avg_rating >= min_rating)
+    AND (min_value_rating IS NULL OR sm.avg_value_rating >= min_value_rating)
+    AND (min_taste_rating IS NULL OR sm.avg_taste_rating >= min_taste_rating)
+    AND (with_tag_ids IS NULL OR with_tag_ids <@ ARRAY(
+      SELECT (tc->>'id')::UUID FROM jsonb_array_elements(sm.tag_counts) tc
+    ))
+    AND (with_cuisines IS NULL OR sm.cuisine = ANY(with_cuisines))
+    AND (with_categories IS NULL OR sm.categories && with_categories)
+    AND (max_distance_m IS NULL OR sm.distance_m <= max_distance_m)
+    AND (after_id IS NULL OR sm.sort_rank > after_rank OR (
+      sm.sort_rank = after_rank AND (sm.name, sm.id) > (after_name, after_id)
+    ))
+  ORDER BY sm.sort_rank, sm.name, sm.id
+  LIMIT page_size
+$$;
+
+COMMENT ON FUNCTION taste_similarity IS 'How closely two reviewers agree, from their mean rating difference on places both rated';
+COMMENT ON FUNCTION predicted_ratings IS 'The viewer''s predicted rating for each place they have not reviewed, from reviewers with similar taste';
+COMMENT ON FUNCTION recommended_restaurants IS 'The viewer''s best predicted places with the reviewers behind each prediction';
+COMMENT ON FUNCTION restaurant_summaries IS 'One page of per-restaurant aggregates for a social scope and the dashboard filters, optionally calibrated per reviewer, most trusted, best rated, nearest or best predicted first';
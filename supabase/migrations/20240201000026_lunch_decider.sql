@@ -0,0 +1,115 @@
+-- Migration: Group lunch decider
+--
+-- lunch_shortlist ranks places for a group of attendees from the attendees'
+-- own reviews. Each attendee's ratings of a place are averaged first so a
+-- regular doesn't outvote everyone else, then the group average is weighted
+-- by how many attendees have been with confidence_score. A place drops out
+-- if any attendee has rated it at or below veto_rating, or has reviewed it
+-- within the last recent_days days. Only reviews the viewer may see
+-- (can_view_review) count, so the decider never reveals a hidden rating, and
+-- attendees must be the viewer, members of their organisations or people they
+-- follow.
+
+CREATE OR REPLACE FUNCTION lunch_shortlist(
+  attendee_ids UUID[],
+  with_categories TEXT[] DEFAULT NULL,
+  origin_lat DOUBLE PRECISION DEFAULT NULL,
+  origin_lng DOUBLE PRECISION DEFAULT NULL,
+  max_distance_m DOUBLE PRECISION DEFAULT NULL,
+  veto_rating INTEGER DEFAULT 4, -- anyone rating a place this or lower rules it out
+  recent_days INTEGER DEFAULT NULL, -- rule out places an attendee reviewed this recently
+  result_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  cuisine TEXT,
+  categories TEXT[],
+  latitude NUMERIC,
+  longitude NUMERIC,
+  distance_m DOUBLE PRECISION,
+  group_rating DOUBLE PRECISION, -- average of each attendee's average
+  score DOUBLE PRECISION,
+  rated_by INTEGER, -- attendees who have reviewed the place
+  last_visited_at TIMESTAMPTZ,
+  attendee_ratings JSONB -- [{ id, name, rating, visited_at }], best rating first
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM unnest(attendee_ids) AS a(attendee_id)
+    WHERE a.attendee_id IS DISTINCT FROM auth.uid()
+      AND NOT EXISTS (
+        SELECT 1 FROM user_follows
+        WHERE follower_id = auth.uid() AND following_id = a.attendee_id
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM organisation_members theirs
+        JOIN organisation_members mine ON mine.organisation_id = theirs.organisation_id
+        WHERE theirs.user_id = a.attendee_id AND mine.user_id = auth.uid()
+      )
+  ) THEN
+    RAISE EXCEPTION 'You can only decide lunch with members of your organisations and people you follow';
+  END IF;
+
+  RETURN QUERY
+  WITH visits AS (
+    -- One row per attendee and place
+    SELECT r.user_id, r.restaurant_id,
+      AVG(r.rating)::DOUBLE PRECISION AS rating,
+      MIN(r.rating) AS lowest_rating,
+      MAX(r.created_at) AS visited_at
+    FROM reviews r
+    WHERE r.user_id = ANY(attendee_ids) AND r.restaurant_id IS NOT NULL
+      AND can_view_review(r.id, r.user_id, r.org_sharing)
+    GROUP BY r.user_id, r.restaurant_id
+  ),
+  population AS (
+    SELECT AVG(v.rating)::DOUBLE PRECISION AS mean FROM visits v
+  ),
+  candidates AS (
+    SELECT rest.id, rest.name, rest.cuisine, rest.categories, rest.latitude, rest.longitude,
+      CASE WHEN origin_lat IS NOT NULL AND origin_lng IS NOT NULL THEN
+        haversine_distance(origin_lat, origin_lng, rest.latitude, rest.longitude)
+      END AS distance_m,
+      AVG(v.rating)::DOUBLE PRECISION AS group_rating,
+      COUNT(v.rating)::INTEGER AS rated_by,
+      MAX(v.visited_at) AS last_visited_at,
+      bool_or(v.lowest_rating <= veto_rating) AS vetoed
+    FROM restaurants rest
+    JOIN visits v ON v.restaurant_id = rest.id
+    GROUP BY rest.id
+  )
+  SELECT c.id, c.name, c.cuisine, c.categories, c.latitude, c.longitude, c.distance_m,
+    c.group_rating,
+    confidence_score(c.group_rating, c.rated_by, (SELECT mean FROM population)) AS score,
+    c.rated_by,
+    c.last_visited_at,
+    (
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', v.user_id,
+        'name', COALESCE(p.display_name, 'A reviewer'),
+        'rating', v.rating,
+        'visited_at', v.visited_at
+      ) ORDER BY v.rating DESC NULLS LAST, p.display_name)
+      FROM visits v
+      LEFT JOIN profiles p ON p.id = v.user_id
+      WHERE v.restaurant_id = c.id
+    ) AS attendee_ratings
+  FROM candidates c
+  WHERE c.group_rating IS NOT NULL
+    AND NOT COALESCE(c.vetoed, false)
+    AND (recent_days IS NULL OR COALESCE(c.last_visited_at < now() - make_interval(days => recent_days), true))
+    AND (with_categories IS NULL OR c.categories && with_categories)
+    AND (max_distance_m IS NULL OR c.distance_m <= max_distance_m)
+  ORDER BY score DESC, c.rated_by DESC, c.distance_m NULLS LAST, c.name
+  LIMIT result_limit;
+END;
+$$;
+
+COMMENT ON FUNCTION lunch_shortlist IS 'Places a group of attendees would agree on, ranked from their own visible reviews, skipping vetoed and recently visited places';